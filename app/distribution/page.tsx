@@ -1,8 +1,9 @@
 'use client'
 
-import React, { useMemo, useState, useRef } from 'react'
+import React, { useCallback, useEffect, useMemo, useState, useRef } from 'react'
 import Link from 'next/link'
-import { Container, Card, Form, Row, Col, Table, Button } from 'react-bootstrap'
+import { useSearchParams } from 'next/navigation'
+import { Container, Card, Form, Button } from 'react-bootstrap'
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -16,17 +17,68 @@ import {
 } from 'chart.js'
 import annotationPlugin from 'chartjs-plugin-annotation'
 import { Line } from 'react-chartjs-2'
-import jsPDF from 'jspdf'
-import html2canvas from 'html2canvas'
 import { toast } from 'react-toastify'
 
-import { useSettings } from '@/contexts/SettingsContext'
+import { defaultSettings, useSettings } from '@/contexts/SettingsContext'
+import CurrentSettingsCard from '@/components/distribution/CurrentSettingsCard'
+import DisplayOptionsCard from '@/components/distribution/DisplayOptionsCard'
+import ShareLinkButton from '@/components/distribution/ShareLinkButton'
+import SleepLineFinderCard from '@/components/distribution/SleepLineFinderCard'
+import MonteCarloComparisonCard from '@/components/distribution/MonteCarloComparisonCard'
+import DistributionModelCard from '@/components/distribution/DistributionModelCard'
+import SerialCorrelationCard from '@/components/distribution/SerialCorrelationCard'
+import DecumulationCard from '@/components/distribution/DecumulationCard'
+import CapitalMarketLineCard from '@/components/distribution/CapitalMarketLineCard'
+import RebalancingCard from '@/components/distribution/RebalancingCard'
+import HistoricalBootstrapCard from '@/components/distribution/HistoricalBootstrapCard'
+import RegimeSwitchingCard from '@/components/distribution/RegimeSwitchingCard'
+import MaxDrawdownCard from '@/components/distribution/MaxDrawdownCard'
+import WorstCaseTable from '@/components/distribution/WorstCaseTable'
+import GoalProbabilityCard from '@/components/distribution/GoalProbabilityCard'
+import FanChartCard from '@/components/distribution/FanChartCard'
+import CurrencyContributionCard from '@/components/distribution/CurrencyContributionCard'
+import InvestmentRatioSlider from '@/components/distribution/InvestmentRatioSlider'
+import MarginCallCard from '@/components/distribution/MarginCallCard'
+import SleepCheckAlert from '@/components/distribution/SleepCheckAlert'
+import RiskAversionCard from '@/components/distribution/RiskAversionCard'
+import ChartGuideCard, { createChartGuideReportHtml } from '@/components/distribution/ChartGuideCard'
 import {
   calculateInvestmentDistribution,
   generateLognormalDistributionData,
-  normalInverseCDF,
-  lognormalCDF
+  type InvestmentDistributionParams
 } from '@/utils/normalDistribution'
+import {
+  createDistributionModel,
+  createStandardizedDistribution,
+  defaultDistributionModelSettings,
+  distributionModelLabels,
+  type DistributionModelSettings
+} from '@/utils/distributionModels'
+import type { SleepLineParams, SleepLineTarget } from '@/utils/sleepLineSolver'
+import { calculateWorstCase, createWorstCaseRows, type WorstCaseParams } from '@/utils/worstCase'
+import { calculateYenReturnAndRisk } from '@/utils/currency'
+import { getCashRate, type MarginCallParams } from '@/utils/leverage'
+import { parseShareQuery, type SharedScenario } from '@/utils/shareLink'
+import { DEFAULT_RISK_AVERSION, calculateOptimalInvestmentRatio, type RiskAversionParams } from '@/utils/riskAversion'
+import { calculateTotalContributions, contributionFrequencyLabels } from '@/utils/contributions'
+import {
+  calculateDeflator,
+  calculateRealTotalContributions,
+  deflateDistribution,
+  valueBasisLabels,
+  type ValueBasis
+} from '@/utils/inflation'
+import {
+  CAPITAL_GAINS_TAX_RATE,
+  calculateAfterTaxCDF,
+  calculateAfterTaxMean,
+  calculateAfterTaxPDF,
+  calculateEffectiveTaxRate,
+  calculateNetExpectedReturn,
+  calculateTaxableShare
+} from '@/utils/taxAndCost'
+import { calculateEmpiricalCDF, calculateHistogramDensity } from '@/utils/historicalBootstrap'
+import { createKeyValueTableHtml, createReportHeaderHtml, createSectionHtml, createSleepCheckHtml, saveReportPDF } from '@/utils/pdfReport'
 
 // Chart.jsの登録
 ChartJS.register(
@@ -51,26 +103,27 @@ const DASH_SEGMENT_LENGTH = 5
 const DASH_PATTERN: [number, number] = [DASH_SEGMENT_LENGTH, DASH_SEGMENT_LENGTH]
 const CHART_TENSION = 0.4
 const POINT_RADIUS = 0
-const CONFIDENCE_INTERVAL_Z_SCORE = 1.96
+const CONFIDENCE_INTERVAL_LOWER_PROBABILITY = 0.025
+const CONFIDENCE_INTERVAL_UPPER_PROBABILITY = 0.975
 const MAX_TICKS_LIMIT = 5
-const PDF_MARGIN = 10
-const PDF_IMAGE_SCALE = 2
-const PDF_SPACING = 10
-const PDF_WIDTH_800 = '800px'
-const PDF_PADDING_40 = '40px'
-const PDF_LEFT_OFFSET = '-9999px'
 const CHART_HEIGHT = '400px'
 const SETTLEMENT_TIMEOUT = 0
 const DECIMAL_FRACTION_DIGITS = 0
 const DECIMAL_ONE_DIGIT = 1
 const DECIMAL_TWO_DIGITS = 2
-const ROUNDING_MULTIPLIER = 10
 const FIRST_ELEMENT_INDEX = 0
 const LAST_INDEX_OFFSET = 1
-const PROBABILITY_COMPLEMENT = 1
+const NO_DEFLATION = 1
+const ZERO_INFLATION_RATE = 0 // 名目値ではインフレで割り引かない
+const DEFAULT_AUTOCORRELATION = 0 // 年ごとのリターンは独立
+const DEFAULT_VALUE_BASIS: ValueBasis = 'nominal'
+const AFTER_TAX_DATASET_INDEX = 1
+const BOOTSTRAP_DATASET_INDEX = 2
+const BOOTSTRAP_POINTS_PER_BIN = 10
 
 interface TooltipContext {
   dataIndex: number
+  datasetIndex: number
 }
 
 // グラフの線の定義を生成する関数
@@ -97,44 +150,104 @@ function createAnnotationLine (
   }
 }
 
-// HTMLコンテンツを生成する関数
-function createPDFContentElement (content: string): HTMLDivElement {
-  const element = document.createElement('div')
-  element.style.width = PDF_WIDTH_800
-  element.style.padding = PDF_PADDING_40
-  element.style.backgroundColor = '#ffffff'
-  element.style.fontFamily = 'sans-serif'
-  element.style.position = 'absolute'
-  element.style.left = PDF_LEFT_OFFSET
-  element.innerHTML = content
-  return element
-}
-
-
 export default function DistributionPage (): React.JSX.Element {
-  const { settings } = useSettings()
+  const { settings: savedSettings, updateSettings } = useSettings()
+  const searchParams = useSearchParams()
   const [years, setYears] = useState(DEFAULT_YEARS)
   const [tempProbabilityThreshold, setTempProbabilityThreshold] = useState<number | null>(null)
   const [tempInvestmentRatio, setTempInvestmentRatio] = useState<number | null>(null)
+  const [distributionModelSettings, setDistributionModelSettings] = useState<DistributionModelSettings>(defaultDistributionModelSettings)
+  const [autocorrelation, setAutocorrelation] = useState(DEFAULT_AUTOCORRELATION)
+  const [riskAversion, setRiskAversion] = useState(DEFAULT_RISK_AVERSION)
+  const [valueBasis, setValueBasis] = useState<ValueBasis>(DEFAULT_VALUE_BASIS)
+  const [bootstrapValues, setBootstrapValues] = useState<number[] | null>(null)
   const chartRef = useRef<HTMLDivElement>(null)
+  const maxDrawdownRef = useRef<HTMLDivElement>(null)
+
+  // 共有リンクで開いた場合は、共有された設定を読み取り専用で使用する（自分の設定は変更しない）
+  const sharedScenario = useMemo(() => parseShareQuery(searchParams, defaultSettings), [searchParams])
+  const settings = sharedScenario?.settings ?? savedSettings
+  const isReadOnly = sharedScenario !== null
+
+  // 共有された表示の状態をスライダーなどに反映する（指定がない項目と、自分の設定に戻る場合はデフォルト値）
+  const applySharedView = useCallback((scenario: SharedScenario | null): void => {
+    setYears(scenario?.years ?? DEFAULT_YEARS)
+    setTempProbabilityThreshold(scenario?.probabilityThreshold ?? null)
+    setTempInvestmentRatio(scenario?.investmentRatio ?? null)
+    setDistributionModelSettings(scenario?.distributionModel ?? defaultDistributionModelSettings)
+    setAutocorrelation(scenario?.autocorrelation ?? DEFAULT_AUTOCORRELATION)
+    setValueBasis(scenario?.valueBasis ?? DEFAULT_VALUE_BASIS)
+    setRiskAversion(scenario?.riskAversion ?? DEFAULT_RISK_AVERSION)
+  }, [])
+  useEffect(() => {
+    if (sharedScenario !== null) {
+      applySharedView(sharedScenario)
+    }
+  }, [sharedScenario, applySharedView])
 
   // 投資額を計算（一時的な投資比率がある場合はそれを使用）
   const currentInvestmentRatio = tempInvestmentRatio ?? settings.investmentRatio
   const investmentAmount = settings.totalAssets * currentInvestmentRatio / PERCENTAGE_DIVISOR
 
-  // 分布のパラメータを計算（対数正規分布）
-  const { mean, stdDev, logMean, logStdDev } = useMemo(() => calculateInvestmentDistribution({
-    initialAssets: investmentAmount,
-    expectedReturn: settings.expectedReturn,
-    risk: settings.risk,
-    years
-  }), [investmentAmount, settings.expectedReturn, settings.risk, years])
+  // 為替リスクを含めた円ベースの期待リターンとリスク（外貨建ての割合が0の場合は設定の値のまま）
+  const { expectedReturn: yenExpectedReturn, risk: yenRisk } = calculateYenReturnAndRisk(settings.expectedReturn, settings.risk, settings.currency)
 
-  // グラフ用のデータを生成（対数正規分布）
-  const distributionData = useMemo(() => generateLognormalDistributionData(logMean, logStdDev, DISTRIBUTION_POINTS, DISTRIBUTION_STD_DEV), [logMean, logStdDev])
+  // 信託報酬を差し引いた期待リターン
+  const netExpectedReturn = calculateNetExpectedReturn(yenExpectedReturn, settings.expenseRatio)
 
-  // 損益分岐点（初期投資額）のインデックスを見つける
-  const breakEvenIndex = distributionData.findIndex(d => d.x >= investmentAmount)
+  // 投資パラメータ（定期積立を含む）
+  const distributionParams = useMemo<InvestmentDistributionParams>(() => ({
+    initialAssets: investmentAmount,
+    expectedReturn: netExpectedReturn,
+    risk: yenRisk,
+    years,
+    contributionAmount: settings.contributionAmount,
+    contributionFrequency: settings.contributionFrequency,
+    contributionGrowthRate: settings.contributionGrowthRate,
+    autocorrelation
+  }), [investmentAmount, netExpectedReturn, yenRisk, years, settings.contributionAmount, settings.contributionFrequency, settings.contributionGrowthRate, autocorrelation])
+
+  // 分布のパラメータを計算（対数正規分布、名目値）
+  const nominalDistribution = useMemo(() => calculateInvestmentDistribution(distributionParams), [distributionParams])
+
+  // 実質値の場合は投資期間後の物価水準で割り引く
+  const isReal = valueBasis === 'real'
+  const deflator = isReal ? calculateDeflator(settings.inflationRate, years) : NO_DEFLATION
+  const { mean, stdDev, logMean, logStdDev } = useMemo(() => deflateDistribution(nominalDistribution, deflator), [nominalDistribution, deflator])
+
+  // 投資元本（初期投資額 + 積立累計額）と、積立を含めた資産全体の元本
+  // 実質値の場合、各回の積立額は積み立てた時点の物価で割り引く
+  const totalContributions = isReal
+    ? calculateRealTotalContributions(distributionParams, settings.inflationRate)
+    : calculateTotalContributions(distributionParams)
+  const totalPrincipal = settings.totalAssets + totalContributions - investmentAmount
+
+  // 投資期間の終わりに売却した場合の譲渡益課税
+  // 取得費は名目の投資元本（実質値の場合は投資期間後の物価水準で割り引く）で、NISAで保有する部分は非課税
+  const nominalTotalContributions = calculateTotalContributions(distributionParams)
+  const costBasis = nominalTotalContributions / deflator
+  const taxableShare = calculateTaxableShare(nominalTotalContributions, settings.nisaAllowance)
+  const effectiveTaxRate = calculateEffectiveTaxRate(taxableShare)
+
+  // 選択された分布モデル
+  const distributionModel = useMemo(() => createDistributionModel(distributionModelSettings, logMean, logStdDev), [distributionModelSettings, logMean, logStdDev])
+  const distributionModelLabel = distributionModelLabels[distributionModelSettings.type]
+
+  // グラフ用のデータを生成（表示範囲は対数正規分布に合わせ、密度は選択された分布モデルで計算）
+  const distributionData = useMemo(() => generateLognormalDistributionData(logMean, logStdDev, DISTRIBUTION_POINTS, DISTRIBUTION_STD_DEV)
+    .map(d => ({
+      x: d.x,
+      y: distributionModel.pdf(d.x),
+      afterTaxY: calculateAfterTaxPDF(distributionModel, d.x, costBasis, effectiveTaxRate)
+    })), [logMean, logStdDev, distributionModel, costBasis, effectiveTaxRate])
+
+  // 過去データのブートストラップ結果（名目値）を表示基準に合わせて並べ替える
+  const sortedBootstrapValues = useMemo(() => (
+    bootstrapValues === null ? null : bootstrapValues.map(value => value / deflator).sort((a, b) => a - b)
+  ), [bootstrapValues, deflator])
+
+  // 損益分岐点（投資元本）のインデックスを見つける
+  const breakEvenIndex = distributionData.findIndex(d => d.x >= totalContributions)
 
   // 期待リターン（平均値）のインデックスを見つける
   const expectedReturnIndex = distributionData.findIndex(d => d.x >= mean)
@@ -163,10 +276,42 @@ export default function DistributionPage (): React.JSX.Element {
         fill: true,
         tension: CHART_TENSION,
         pointRadius: POINT_RADIUS
-      }
+      },
+      {
+        label: '税引後の確率密度',
+        data: distributionData.map(d => d.afterTaxY),
+        borderColor: 'rgb(255, 159, 64)',
+        borderDash: DASH_PATTERN,
+        fill: false,
+        tension: CHART_TENSION,
+        pointRadius: POINT_RADIUS
+      },
+      ...(sortedBootstrapValues !== null
+        ? [{
+            label: '過去データのブートストラップ',
+            data: calculateHistogramDensity(sortedBootstrapValues, distributionData.map(d => d.x), BOOTSTRAP_POINTS_PER_BIN),
+            borderColor: 'rgb(153, 102, 255)',
+            backgroundColor: 'rgba(153, 102, 255, 0.2)',
+            fill: true,
+            stepped: true,
+            pointRadius: POINT_RADIUS
+          }]
+        : [])
     ]
   }
 
+  // グラフごとに、ある金額以下になる確率を計算（税引後は税引後の資産額、過去データはブートストラップの結果として評価）
+  const calculateDatasetCDF = (datasetIndex: number, value: number): number => {
+    if (datasetIndex === AFTER_TAX_DATASET_INDEX) {
+      return calculateAfterTaxCDF(distributionModel, value, costBasis, effectiveTaxRate)
+    }
+    if (datasetIndex === BOOTSTRAP_DATASET_INDEX && sortedBootstrapValues !== null) {
+      return calculateEmpiricalCDF(sortedBootstrapValues, value)
+    }
+    return distributionModel.cdf(value)
+  }
+  const datasetLabelPrefixes = ['', '税引後: ', '過去データ: ']
+
   const chartOptions = {
     responsive: true,
     maintainAspectRatio: false,
@@ -176,7 +321,7 @@ export default function DistributionPage (): React.JSX.Element {
       },
       title: {
         display: true,
-        text: `${years}年後の投資資産分布（対数正規分布）`
+        text: `${years}年後の投資資産分布（${distributionModelLabel}・${valueBasisLabels[valueBasis]}）`
       },
       annotation: {
         annotations: {
@@ -199,17 +344,17 @@ export default function DistributionPage (): React.JSX.Element {
             return `投資資産額: ${value.toLocaleString('ja-JP', { maximumFractionDigits: DECIMAL_FRACTION_DIGITS })} 円`
           },
           label: (context: TooltipContext) => {
-            const { dataIndex: index } = context
+            const { dataIndex: index, datasetIndex } = context
             const value = distributionData[index].x
-            // この金額以下になる確率を計算（対数正規分布のCDF）
-            const cdfValue = lognormalCDF(value, logMean, logStdDev)
+            // この金額以下になる確率を計算
+            const cdfValue = calculateDatasetCDF(datasetIndex, value)
             // この金額以下になる確率（パーセント）
             const probabilityBelow = (cdfValue * PERCENTAGE_DIVISOR).toFixed(DECIMAL_ONE_DIGIT)
             // 増減額と増減率を計算
-            const change = value - investmentAmount
-            const changeRate = ((change / investmentAmount) * PERCENTAGE_DIVISOR).toFixed(DECIMAL_ONE_DIGIT)
+            const change = value - totalContributions
+            const changeRate = ((change / totalContributions) * PERCENTAGE_DIVISOR).toFixed(DECIMAL_ONE_DIGIT)
             return [
-              `この金額以下になる確率: ${probabilityBelow}%`,
+              `${datasetLabelPrefixes[datasetIndex]}この金額以下になる確率: ${probabilityBelow}%`,
               `増減額: ${change >= SETTLEMENT_TIMEOUT ? '+' : ''}${change.toLocaleString('ja-JP', { maximumFractionDigits: DECIMAL_FRACTION_DIGITS })} 円`,
               `増減率: ${change >= SETTLEMENT_TIMEOUT ? '+' : ''}${changeRate}%`
             ]
@@ -222,7 +367,7 @@ export default function DistributionPage (): React.JSX.Element {
         type: 'category' as const,
         title: {
           display: true,
-          text: '投資資産額 (円)'
+          text: isReal ? '投資資産額 (円・現在の価値)' : '投資資産額 (円)'
         },
         ticks: {
           maxTicksLimit: MAX_TICKS_LIMIT,
@@ -252,266 +397,153 @@ export default function DistributionPage (): React.JSX.Element {
     }
   }
 
-  // 95%信頼区間を計算（対数正規分布）
-  // 対数正規分布の95%信頼区間: exp(logMean ± 1.96 × logStdDev)
-  const lowerBound = Math.exp(logMean - CONFIDENCE_INTERVAL_Z_SCORE * logStdDev)
-  const upperBound = Math.exp(logMean + CONFIDENCE_INTERVAL_Z_SCORE * logStdDev)
+  // 95%信頼区間を計算（分布モデルの2.5%点〜97.5%点）
+  // 対数正規分布の場合: exp(logMean ± 1.96 × logStdDev)
+  const lowerBound = distributionModel.inverseCDF(CONFIDENCE_INTERVAL_LOWER_PROBABILITY)
+  const upperBound = distributionModel.inverseCDF(CONFIDENCE_INTERVAL_UPPER_PROBABILITY)
 
   // 利益額を計算
-  const profit = mean - investmentAmount
+  const profit = mean - totalContributions
+
+  // 税引後の平均と利益額
+  const afterTaxMean = calculateAfterTaxMean(logMean, logStdDev, costBasis, effectiveTaxRate)
+  const afterTaxProfit = afterTaxMean - totalContributions
 
-  // 確率閾値に基づく最悪ケースを計算（対数正規分布）
+  // 確率閾値に基づく最悪ケースを計算（分布モデル）
   // 確率閾値が90%の場合、下位10%に相当する値を求める
   // tempProbabilityThresholdがnullでない場合はそれを使用、nullの場合はsettingsの値を使用
   const currentProbabilityThreshold = tempProbabilityThreshold ?? settings.probabilityThreshold
-  const probabilityDecimal = currentProbabilityThreshold / PERCENTAGE_DIVISOR
-  // 下位(100-閾値)%のz値を求める
-  const zScore = normalInverseCDF(PROBABILITY_COMPLEMENT - probabilityDecimal)
-  // 対数正規分布の場合: exp(logMean + zScore × logStdDev)
-  const worstCaseAssets = Math.exp(logMean + zScore * logStdDev)
-  const worstCaseLoss = worstCaseAssets - investmentAmount
-
-  // 投資以外の資産（元の総資産 - 投資額）
-  const nonInvestmentAssets = settings.totalAssets - investmentAmount
+
+  // 投資以外の資産（元の総資産 - 投資額）は無リスク金利で運用する
+  // 実質値の場合、投資していない部分も物価上昇の分だけ価値が目減りする
+  // 投資比率が100%を超える場合はマイナス（借入）となり、借入金利で増える
+  const nonInvestmentPrincipal = settings.totalAssets - investmentAmount
+  const cashRate = getCashRate(nonInvestmentPrincipal, settings.riskFreeRate, settings.borrowingRate)
+
+  // 最悪ケースの計算用のパラメータ（表示基準に合わせて名目値・実質値で計算）
+  const worstCaseParams = useMemo<WorstCaseParams>(() => ({
+    ...distributionParams,
+    nonInvestmentPrincipal,
+    riskFreeRate: cashRate,
+    inflationRate: isReal ? settings.inflationRate : ZERO_INFLATION_RATE,
+    nisaAllowance: settings.nisaAllowance,
+    distributionModel: distributionModelSettings,
+    probabilityThreshold: currentProbabilityThreshold
+  }), [distributionParams, nonInvestmentPrincipal, cashRate, settings, isReal, distributionModelSettings, currentProbabilityThreshold])
+
+  // 下位(100-閾値)%点と、それを下回った場合の平均（期待ショートフォール）
+  // 対数正規分布の場合: exp(logMean + zScore × logStdDev)、期待ショートフォールは解析解（その他のモデルは数値積分）
+  const worstCase = useMemo(() => calculateWorstCase(worstCaseParams), [worstCaseParams])
+  const worstCaseRows = createWorstCaseRows(worstCase)
+  const { worstCaseAssets, nonInvestmentAssets } = worstCase
+
+  // 資産全体の期待値（投資部分の平均 + 非投資部分）
+  const totalAssetsMean = mean + nonInvestmentAssets
+  const totalAssetsProfit = totalAssetsMean - totalPrincipal
   // 資産全体（投資部分 + 投資していない部分）
   const totalAssetsWorstCase = worstCaseAssets + nonInvestmentAssets
-  const totalAssetsChange = totalAssetsWorstCase - settings.totalAssets
+
+  // 安眠ライン逆算用のパラメータ
+  const sleepLineParams = useMemo<SleepLineParams>(() => ({
+    totalAssets: settings.totalAssets,
+    investmentRatio: currentInvestmentRatio,
+    expectedReturn: netExpectedReturn,
+    risk: yenRisk,
+    years,
+    probabilityThreshold: currentProbabilityThreshold,
+    distributionModel: distributionModelSettings,
+    contributionAmount: settings.contributionAmount,
+    contributionFrequency: settings.contributionFrequency,
+    contributionGrowthRate: settings.contributionGrowthRate,
+    riskFreeRate: settings.riskFreeRate,
+    borrowingRate: settings.borrowingRate,
+    autocorrelation
+  }), [settings, currentInvestmentRatio, years, currentProbabilityThreshold, distributionModelSettings, autocorrelation])
+
+  // 取り崩しシミュレーション用のパラメータ
+  const decumulationParams = useMemo(() => ({
+    totalAssets: settings.totalAssets,
+    investmentRatio: currentInvestmentRatio,
+    expectedReturn: netExpectedReturn,
+    risk: yenRisk,
+    years,
+    riskFreeRate: cashRate
+  }), [settings, currentInvestmentRatio, years, cashRate])
+  const shockDistribution = useMemo(() => createStandardizedDistribution(distributionModelSettings), [distributionModelSettings])
+
+  // 最大ドローダウンのシミュレーション用のパラメータ（名目値）
+  const maxDrawdownParams = useMemo(() => ({
+    ...distributionParams,
+    nonInvestmentAssets: nonInvestmentPrincipal,
+    riskFreeRate: cashRate
+  }), [distributionParams, nonInvestmentPrincipal, cashRate])
+
+  // 追証のシミュレーション用のパラメータ（投資比率が100%を超える場合）
+  const marginCallParams = useMemo<MarginCallParams>(() => ({
+    ...distributionParams,
+    borrowedAmount: -nonInvestmentPrincipal,
+    borrowingRate: settings.borrowingRate,
+    maintenanceMargin: settings.maintenanceMargin
+  }), [distributionParams, nonInvestmentPrincipal, settings.borrowingRate, settings.maintenanceMargin])
+
+  // 危険回避度から求める推奨の投資比率（スライダーに目印を表示）
+  // 借入は最適化の中で借入金利を使うため、無リスク金利は預金側の金利を渡す
+  const riskAversionParams = useMemo<RiskAversionParams>(() => ({
+    ...decumulationParams,
+    riskFreeRate: settings.riskFreeRate,
+    borrowingRate: settings.borrowingRate
+  }), [decumulationParams, settings.riskFreeRate, settings.borrowingRate])
+  const recommendedRatio = calculateOptimalInvestmentRatio(riskAversionParams, riskAversion)
 
   // PDF生成関数
   const generatePDF = async (): Promise<void> => {
     try {
       toast.info('PDFを生成しています...')
 
-      // PDFに含めるHTML要素を作成
       const today = new Date().toLocaleDateString('ja-JP')
-      const pdfContent = createPDFContentElement(`
-        <div style="text-align: center; margin-bottom: 30px;">
-          <h1 style="font-size: 24px; margin-bottom: 10px;">投資分析レポート</h1>
-          <p style="font-size: 14px; color: #666;">生成日: ${today}</p>
-        </div>
-
-        <!-- 安眠チェック -->
-        <div style="background-color: #d1ecf1; border: 2px solid #0c5460; border-radius: 8px; padding: 20px; margin-bottom: 30px;">
-          <h2 style="font-size: 18px; margin-bottom: 15px;">💤 安眠チェック</h2>
-          <p style="font-size: 14px; margin-bottom: 10px;">
-            通常起こり得る確率範囲（${currentProbabilityThreshold}%）での最悪のケースで、資産全体が
-            <strong>${totalAssetsWorstCase.toLocaleString()} 円</strong>
-            （<strong>${totalAssetsChange >= SETTLEMENT_TIMEOUT ? '+' : ''}${totalAssetsChange.toLocaleString()} 円</strong> /
-            <strong>${totalAssetsChange >= SETTLEMENT_TIMEOUT ? '+' : ''}${((totalAssetsChange / settings.totalAssets) * PERCENTAGE_DIVISOR).toFixed(DECIMAL_ONE_DIGIT)}%</strong>）
-            にまで${totalAssetsChange >= SETTLEMENT_TIMEOUT ? '増加' : '減少'}する可能性があります。
-          </p>
-          <p style="font-size: 14px; margin-bottom: 5px;"><strong>安眠できますか？</strong></p>
-          <p style="font-size: 14px; margin: 0;">できない場合は、投資比率を下げてください。</p>
-        </div>
-      `)
-
-      document.body.appendChild(pdfContent)
-
-      // 安眠チェック部分をキャプチャ
-      const headerCanvas = await html2canvas(pdfContent, {
-        scale: PDF_IMAGE_SCALE,
-        backgroundColor: '#ffffff'
-      })
-
-      // グラフをキャプチャ
-      let chartCanvas: HTMLCanvasElement | null = null
-      if (chartRef.current !== null) {
-        chartCanvas = await html2canvas(chartRef.current, {
-          scale: PDF_IMAGE_SCALE,
-          backgroundColor: '#ffffff'
-        })
-      }
-
-      // グラフの見方のHTML
-      const chartGuideDiv = createPDFContentElement(`
-        <div style="margin-top: 20px;">
-          <h2 style="font-size: 18px; margin-bottom: 15px; border-bottom: 2px solid #333; padding-bottom: 5px;">グラフの見方</h2>
-          <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
-            <thead>
-              <tr style="background-color: #f8f9fa; border-bottom: 2px solid #dee2e6;">
-                <th style="padding: 10px; text-align: left; font-weight: bold;">線の種類</th>
-                <th style="padding: 10px; text-align: left; font-weight: bold;">説明</th>
-              </tr>
-            </thead>
-            <tbody>
-              <tr style="border-bottom: 1px solid #ddd;">
-                <td style="padding: 10px;">
-                  <div style="display: flex; align-items: center;">
-                    <div style="width: 40px; height: 3px; background-color: rgb(255, 0, 0); margin-right: 10px;"></div>
-                    損益分岐点
-                  </div>
-                </td>
-                <td style="padding: 10px;">初期投資額の位置。この線より左側は損失、右側は利益を示します。</td>
-              </tr>
-              <tr style="border-bottom: 1px solid #ddd;">
-                <td style="padding: 10px;">
-                  <div style="display: flex; align-items: center;">
-                    <div style="width: 40px; height: 3px; background-color: rgb(0, 0, 255); margin-right: 10px;"></div>
-                    期待リターン
-                  </div>
-                </td>
-                <td style="padding: 10px;">期待される平均的な結果。最も起こりやすい資産額を示します。</td>
-              </tr>
-              <tr style="border-bottom: 1px solid #ddd;">
-                <td style="padding: 10px;">
-                  <div style="display: flex; align-items: center;">
-                    <div style="width: 40px; height: 3px; background-color: transparent; border-top: 3px dashed rgb(0, 128, 0); margin-right: 10px;"></div>
-                    ±1σ (標準偏差)
-                  </div>
-                </td>
-                <td style="padding: 10px;">2本の濃い緑の破線の間に約68%の確率で結果が収まります。</td>
-              </tr>
-              <tr style="border-bottom: 1px solid #ddd;">
-                <td style="padding: 10px;">
-                  <div style="display: flex; align-items: center;">
-                    <div style="width: 40px; height: 3px; background-color: transparent; border-top: 3px dashed rgb(0, 200, 0); margin-right: 10px;"></div>
-                    ±2σ (標準偏差)
-                  </div>
-                </td>
-                <td style="padding: 10px;">2本の緑の破線の間に約95%の確率で結果が収まります。</td>
-              </tr>
-              <tr>
-                <td style="padding: 10px;">
-                  <div style="display: flex; align-items: center;">
-                    <div style="width: 40px; height: 3px; background-color: transparent; border-top: 3px dashed rgb(255, 255, 0); margin-right: 10px;"></div>
-                    ±3σ (標準偏差)
-                  </div>
-                </td>
-                <td style="padding: 10px;">2本の黄色の破線の間に約99.7%の確率で結果が収まります。</td>
-              </tr>
-            </tbody>
-          </table>
-        </div>
-      `)
-
-      document.body.appendChild(chartGuideDiv)
-
-      const chartGuideCanvas = await html2canvas(chartGuideDiv, {
-        scale: PDF_IMAGE_SCALE,
-        backgroundColor: '#ffffff'
-      })
-
-      // 前提条件のHTML
-      const conditionsDiv = createPDFContentElement(`
-        <div style="margin-top: 20px;">
-          <h2 style="font-size: 18px; margin-bottom: 15px; border-bottom: 2px solid #333; padding-bottom: 5px;">利用した前提条件</h2>
-          <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
-            <tr style="border-bottom: 1px solid #ddd;">
-              <td style="padding: 10px; font-weight: bold; width: 40%;">資産総額</td>
-              <td style="padding: 10px;">${settings.totalAssets.toLocaleString()} 円</td>
-            </tr>
-            <tr style="border-bottom: 1px solid #ddd;">
-              <td style="padding: 10px; font-weight: bold;">投資比率</td>
-              <td style="padding: 10px;">${currentInvestmentRatio}%</td>
-            </tr>
-            <tr style="border-bottom: 1px solid #ddd;">
-              <td style="padding: 10px; font-weight: bold;">投資金額</td>
-              <td style="padding: 10px;">${investmentAmount.toLocaleString()} 円</td>
-            </tr>
-            <tr style="border-bottom: 1px solid #ddd;">
-              <td style="padding: 10px; font-weight: bold;">投資期間</td>
-              <td style="padding: 10px;">${years} 年</td>
-            </tr>
-            <tr style="border-bottom: 1px solid #ddd;">
-              <td style="padding: 10px; font-weight: bold;">想定リターン</td>
-              <td style="padding: 10px;">${settings.expectedReturn}% / 年</td>
-            </tr>
-            <tr style="border-bottom: 1px solid #ddd;">
-              <td style="padding: 10px; font-weight: bold;">想定リスク（標準偏差）</td>
-              <td style="padding: 10px;">${settings.risk}% / 年</td>
-            </tr>
-            <tr style="border-bottom: 1px solid #ddd;">
-              <td style="padding: 10px; font-weight: bold;">確率閾値</td>
-              <td style="padding: 10px;">${currentProbabilityThreshold}%</td>
-            </tr>
-            <tr style="border-bottom: 1px solid #ddd;">
-              <td style="padding: 10px; font-weight: bold;">期待値（平均）</td>
-              <td style="padding: 10px;">${Math.floor(mean).toLocaleString()} 円 (${profit >= SETTLEMENT_TIMEOUT ? '+' : ''}${Math.floor(profit).toLocaleString()} 円 / ${profit >= SETTLEMENT_TIMEOUT ? '+' : ''}${((profit / investmentAmount) * PERCENTAGE_DIVISOR).toFixed(DECIMAL_ONE_DIGIT)}%)</td>
-            </tr>
-            <tr style="border-bottom: 1px solid #ddd;">
-              <td style="padding: 10px; font-weight: bold;">標準偏差</td>
-              <td style="padding: 10px;">${Math.floor(stdDev).toLocaleString()} 円</td>
-            </tr>
-            <tr>
-              <td style="padding: 10px; font-weight: bold;">95%信頼区間</td>
-              <td style="padding: 10px;">${Math.floor(lowerBound).toLocaleString()} 円 〜 ${Math.floor(upperBound).toLocaleString()} 円</td>
-            </tr>
-          </table>
-        </div>
-      `)
-
-      document.body.appendChild(conditionsDiv)
-
-      const conditionsCanvas = await html2canvas(conditionsDiv, {
-        scale: PDF_IMAGE_SCALE,
-        backgroundColor: '#ffffff'
-      })
-
-      // 一時要素を削除
-      document.body.removeChild(pdfContent)
-      document.body.removeChild(chartGuideDiv)
-      document.body.removeChild(conditionsDiv)
-
-      // PDFを作成
-      // eslint-disable-next-line new-cap -- jsPDF requires new operator but starts with lowercase
-      const pdf = new jsPDF('p', 'mm', 'a4')
-      const pageWidth = pdf.internal.pageSize.getWidth()
-      const pageHeight = pdf.internal.pageSize.getHeight()
-      let yPosition = PDF_MARGIN
-
-      // 安眠チェック部分を追加
-      const headerImgData = headerCanvas.toDataURL('image/png')
-      const headerImgWidth = pageWidth - BORDER_WIDTH_THIN * PDF_MARGIN
-      const headerImgHeight = (headerCanvas.height * headerImgWidth) / headerCanvas.width
-      pdf.addImage(headerImgData, 'PNG', PDF_MARGIN, yPosition, headerImgWidth, headerImgHeight)
-      yPosition += headerImgHeight + PDF_SPACING
-
-      // グラフを追加
-      if (chartCanvas !== null) {
-        const chartImgData = chartCanvas.toDataURL('image/png')
-        const chartImgWidth = pageWidth - BORDER_WIDTH_THIN * PDF_MARGIN
-        const chartImgHeight = (chartCanvas.height * chartImgWidth) / chartCanvas.width
-
-        // ページに収まらない場合は新しいページに
-        if (yPosition + chartImgHeight > pageHeight - PDF_MARGIN) {
-          pdf.addPage()
-          yPosition = PDF_MARGIN
-        }
-
-        pdf.addImage(chartImgData, 'PNG', PDF_MARGIN, yPosition, chartImgWidth, chartImgHeight)
-        yPosition += chartImgHeight + PDF_SPACING
-      }
-
-      // グラフの見方を追加
-      const chartGuideImgData = chartGuideCanvas.toDataURL('image/png')
-      const chartGuideImgWidth = pageWidth - BORDER_WIDTH_THIN * PDF_MARGIN
-      const chartGuideImgHeight = (chartGuideCanvas.height * chartGuideImgWidth) / chartGuideCanvas.width
-
-      // ページに収まらない場合は新しいページに
-      if (yPosition + chartGuideImgHeight > pageHeight - PDF_MARGIN) {
-        pdf.addPage()
-        yPosition = PDF_MARGIN
-      }
-
-      pdf.addImage(chartGuideImgData, 'PNG', PDF_MARGIN, yPosition, chartGuideImgWidth, chartGuideImgHeight)
-      yPosition += chartGuideImgHeight + PDF_SPACING
-
-      // 前提条件を追加
-      const conditionsImgData = conditionsCanvas.toDataURL('image/png')
-      const conditionsImgWidth = pageWidth - BORDER_WIDTH_THIN * PDF_MARGIN
-      const conditionsImgHeight = (conditionsCanvas.height * conditionsImgWidth) / conditionsCanvas.width
-
-      // ページに収まらない場合は新しいページに
-      if (yPosition + conditionsImgHeight > pageHeight - PDF_MARGIN) {
-        pdf.addPage()
-        yPosition = PDF_MARGIN
-      }
-
-      pdf.addImage(conditionsImgData, 'PNG', PDF_MARGIN, yPosition, conditionsImgWidth, conditionsImgHeight)
-
-      // PDFを保存
+      const headerHtml = createReportHeaderHtml('投資分析レポート', `生成日: ${today}（金額は${valueBasisLabels[valueBasis]}）`) +
+        createSleepCheckHtml(currentProbabilityThreshold, totalAssetsWorstCase, totalPrincipal)
+
+      const conditionsHtml = createSectionHtml('利用した前提条件', createKeyValueTableHtml([
+        ['資産総額', `${settings.totalAssets.toLocaleString()} 円`],
+        ['投資比率', `${currentInvestmentRatio}%`],
+        ['投資金額', `${investmentAmount.toLocaleString()} 円`],
+        ['積立', `${contributionFrequencyLabels[settings.contributionFrequency]} ${settings.contributionAmount.toLocaleString()} 円（増加率 ${settings.contributionGrowthRate}% / 年）`],
+        ['投資元本（初期投資額 + 積立累計額）', `${Math.floor(totalContributions).toLocaleString()} 円`],
+        ['投資期間', `${years} 年`],
+        ['想定リターン', `${settings.expectedReturn}% / 年`],
+        ['信託報酬', `${settings.expenseRatio}% / 年`],
+        ['信託報酬控除後の想定リターン', `${netExpectedReturn.toFixed(DECIMAL_TWO_DIGITS)}% / 年`],
+        ['想定リスク（標準偏差）', `${settings.risk}% / 年`],
+        ['為替を含む円ベースのリスク', `${yenRisk.toFixed(DECIMAL_TWO_DIGITS)}% / 年（外貨建て ${settings.currency.foreignShare}%、為替ヘッジ ${settings.currency.hedgeRatio}%）`],
+        ['物価上昇率', `${settings.inflationRate}% / 年`],
+        ['無リスク金利（非投資部分の利回り）', `${settings.riskFreeRate}% / 年`],
+        ['金額の表示基準', valueBasisLabels[valueBasis]],
+        ['分布モデル', distributionModelLabel],
+        ['年ごとのリターンの自己相関係数', autocorrelation.toFixed(DECIMAL_TWO_DIGITS)],
+        ['確率閾値', `${currentProbabilityThreshold}%`],
+        ['期待値（平均）', `${Math.floor(mean).toLocaleString()} 円 (${profit >= SETTLEMENT_TIMEOUT ? '+' : ''}${Math.floor(profit).toLocaleString()} 円 / ${profit >= SETTLEMENT_TIMEOUT ? '+' : ''}${((profit / totalContributions) * PERCENTAGE_DIVISOR).toFixed(DECIMAL_ONE_DIGIT)}%)`],
+        ['資産全体の期待値（平均）', `${Math.floor(totalAssetsMean).toLocaleString()} 円 (${totalAssetsProfit >= SETTLEMENT_TIMEOUT ? '+' : ''}${Math.floor(totalAssetsProfit).toLocaleString()} 円)`],
+        ['標準偏差', `${Math.floor(stdDev).toLocaleString()} 円`],
+        ['95%信頼区間', `${Math.floor(lowerBound).toLocaleString()} 円 〜 ${Math.floor(upperBound).toLocaleString()} 円`],
+        ['譲渡益課税', `投資期間の終わりにすべて売却し、利益に ${CAPITAL_GAINS_TAX_RATE}% を課税`],
+        ['NISAで保有する金額', `${settings.nisaAllowance.toLocaleString()} 円（課税対象: 投資元本の ${(taxableShare * PERCENTAGE_DIVISOR).toFixed(DECIMAL_ONE_DIGIT)}%）`],
+        ['税引後の期待値（平均）', `${Math.floor(afterTaxMean).toLocaleString()} 円 (${afterTaxProfit >= SETTLEMENT_TIMEOUT ? '+' : ''}${Math.floor(afterTaxProfit).toLocaleString()} 円)`],
+        ...worstCaseRows.map((row): [string, string] => [
+          `最悪ケースの${row.label}`,
+          `${Math.floor(row.value).toLocaleString()} 円（期待ショートフォール ${Math.floor(row.expectedShortfall).toLocaleString()} 円）`
+        ])
+      ]))
+
+      // 安眠チェック・グラフ・グラフの見方・最大ドローダウン・前提条件の順にPDFに配置
       const sanitizedDate = today.replace(/\//g, '-')
-      pdf.save(`投資分析レポート_${sanitizedDate}.pdf`)
+      await saveReportPDF([
+        headerHtml,
+        chartRef.current,
+        createSectionHtml('グラフの見方', createChartGuideReportHtml()),
+        maxDrawdownRef.current,
+        conditionsHtml
+      ], `投資分析レポート_${sanitizedDate}.pdf`)
       toast.success('PDFをダウンロードしました。')
     } catch (error) {
       console.error('PDF generation error:', error)
@@ -519,16 +551,36 @@ export default function DistributionPage (): React.JSX.Element {
     }
   }
 
-  const handleYearsChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
-    setYears(parseInt(e.target.value, ROUNDING_MULTIPLIER))
+  // 共有リンクの表示中（読み取り専用）は、グラフのクリックで値を変更しない
+  const handleSelectYears = (value: number): void => {
+    if (!isReadOnly) {
+      setYears(value)
+    }
+  }
+
+  const handleSelectInvestmentRatio = (value: number): void => {
+    if (!isReadOnly) {
+      setTempInvestmentRatio(value)
+    }
   }
 
   const handleProbabilityThresholdChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
     setTempProbabilityThreshold(parseFloat(e.target.value))
   }
 
-  const handleInvestmentRatioChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
-    setTempInvestmentRatio(parseFloat(e.target.value))
+  // 逆算結果を対応するスライダーに反映
+  const handleApplySleepLine = (target: SleepLineTarget, value: number): void => {
+    switch (target) {
+      case 'investmentRatio':
+        setTempInvestmentRatio(value)
+        break
+      case 'years':
+        setYears(value)
+        break
+      case 'probabilityThreshold':
+        setTempProbabilityThreshold(value)
+        break
+    }
   }
 
   const formatCurrency = (value: number): string => value.toLocaleString('ja-JP', { maximumFractionDigits: DECIMAL_FRACTION_DIGITS })
@@ -545,43 +597,59 @@ export default function DistributionPage (): React.JSX.Element {
     <Container className="py-5">
       <div className="d-flex justify-content-between align-items-center mb-4">
         <h1 className="mb-0">📊 資産分布グラフ</h1>
-        <Button variant="success" onClick={() => { void generatePDF() }}>
-          📥 PDFダウンロード
-        </Button>
+        <div className="d-flex gap-2">
+          <ShareLinkButton
+            settings={settings}
+            view={{
+              years,
+              probabilityThreshold: tempProbabilityThreshold,
+              investmentRatio: tempInvestmentRatio,
+              distributionModel: distributionModelSettings,
+              autocorrelation,
+              valueBasis,
+              riskAversion
+            }}
+          />
+          <Button variant="success" onClick={() => { void generatePDF() }}>
+            📥 PDFダウンロード
+          </Button>
+        </div>
       </div>
 
-      <Card className="mb-4">
-        <Card.Body>
-          <h5>現在の設定</h5>
-          <Row>
-            <Col md={6}>
-              <ul className="mb-0">
-                <li>投資額: {formatCurrency(investmentAmount)} 円</li>
-                <li>期待リターン: {settings.expectedReturn}% / 年</li>
-                <li>リスク: {settings.risk}% / 年</li>
-              </ul>
-            </Col>
-          </Row>
-        </Card.Body>
-      </Card>
-
-      <Card className="mb-4">
-        <Card.Body>
-          <Form.Group className="mb-3">
-            <Form.Label>投資期間 (年): {years}年</Form.Label>
-            <Form.Range
-              min={1}
-              max={50}
-              step={1}
-              value={years}
-              onChange={handleYearsChange}
-            />
-            <Form.Text className="text-muted">
-              スライダーを動かして投資期間を変更できます。
-            </Form.Text>
-          </Form.Group>
-        </Card.Body>
-      </Card>
+      <CurrentSettingsCard
+        settings={settings}
+        investmentAmount={investmentAmount}
+        netExpectedReturn={netExpectedReturn}
+        yenRisk={yenRisk}
+        sharedScenario={sharedScenario}
+        onAdopt={updateSettings}
+        onReturn={() => { applySharedView(null) }}
+      />
+
+      <fieldset disabled={isReadOnly}>
+        <DisplayOptionsCard
+          years={years}
+          valueBasis={valueBasis}
+          inflationRate={settings.inflationRate}
+          onYearsChange={setYears}
+          onValueBasisChange={setValueBasis}
+        />
+
+        <DistributionModelCard value={distributionModelSettings} onChange={setDistributionModelSettings} />
+
+        <SerialCorrelationCard value={autocorrelation} onChange={setAutocorrelation} params={worstCaseParams} />
+      </fieldset>
+
+      <HistoricalBootstrapCard
+        params={distributionParams}
+        analytic={nominalDistribution}
+        probabilityThreshold={currentProbabilityThreshold}
+        weights={settings.portfolio.weights}
+        expenseRatio={settings.expenseRatio}
+        onResult={setBootstrapValues}
+      />
+
+      <RegimeSwitchingCard params={distributionParams} probabilityThreshold={currentProbabilityThreshold} />
 
       <Card className="mb-4">
         <Card.Body>
@@ -591,201 +659,146 @@ export default function DistributionPage (): React.JSX.Element {
         </Card.Body>
       </Card>
 
-      <Card className="mb-4">
-        <Card.Body>
-          <h5>グラフの見方</h5>
-          <Table striped bordered>
-            <thead>
-              <tr>
-                <th>線の種類</th>
-                <th>説明</th>
-              </tr>
-            </thead>
-            <tbody>
-              <tr>
-                <td>
-                  <div style={{ display: 'flex', alignItems: 'center' }}>
-                    <div style={{
-                      width: '40px',
-                      height: '3px',
-                      backgroundColor: 'rgb(255, 0, 0)',
-                      marginRight: '10px'
-                    }}></div>
-                    損益分岐点
-                  </div>
-                </td>
-                <td>初期投資額の位置。この線より左側は損失、右側は利益を示します。</td>
-              </tr>
-              <tr>
-                <td>
-                  <div style={{ display: 'flex', alignItems: 'center' }}>
-                    <div style={{
-                      width: '40px',
-                      height: '3px',
-                      backgroundColor: 'rgb(0, 0, 255)',
-                      marginRight: '10px'
-                    }}></div>
-                    期待リターン
-                  </div>
-                </td>
-                <td>期待される平均的な結果。最も起こりやすい資産額を示します。</td>
-              </tr>
-              <tr>
-                <td>
-                  <div style={{ display: 'flex', alignItems: 'center' }}>
-                    <div style={{
-                      width: '40px',
-                      height: '3px',
-                      backgroundColor: 'transparent',
-                      borderTop: '3px dashed rgb(0, 128, 0)',
-                      marginRight: '10px'
-                    }}></div>
-                    ±1σ (標準偏差)
-                  </div>
-                </td>
-                <td>2本の濃い緑の破線の間に約68%の確率で結果が収まります。</td>
-              </tr>
-              <tr>
-                <td>
-                  <div style={{ display: 'flex', alignItems: 'center' }}>
-                    <div style={{
-                      width: '40px',
-                      height: '3px',
-                      backgroundColor: 'transparent',
-                      borderTop: '3px dashed rgb(0, 200, 0)',
-                      marginRight: '10px'
-                    }}></div>
-                    ±2σ (標準偏差)
-                  </div>
-                </td>
-                <td>2本の緑の破線の間に約95%の確率で結果が収まります。</td>
-              </tr>
-              <tr>
-                <td>
-                  <div style={{ display: 'flex', alignItems: 'center' }}>
-                    <div style={{
-                      width: '40px',
-                      height: '3px',
-                      backgroundColor: 'transparent',
-                      borderTop: '3px dashed rgb(255, 255, 0)',
-                      marginRight: '10px'
-                    }}></div>
-                    ±3σ (標準偏差)
-                  </div>
-                </td>
-                <td>2本の黄色の破線の間に約99.7%の確率で結果が収まります。</td>
-              </tr>
-            </tbody>
-          </Table>
-        </Card.Body>
-      </Card>
+      <ChartGuideCard />
 
       <Card className="mb-4">
         <Card.Body>
-          <h5>統計情報（対数正規分布）</h5>
+          <h5>統計情報（{distributionModelLabel}・{valueBasisLabels[valueBasis]}）</h5>
           <ul className="mb-0">
             <li>
               <Link href="/words?q=mean" style={{ textDecoration: 'none' }}>平均（期待値）</Link>: {formatCurrency(mean)} 円{' '}
               <span style={getColorStyle(profit)}>
-                ({getChangeSign(profit)}{formatCurrency(profit)} 円 / {getChangeSign(profit)}{formatPercentage(profit, investmentAmount)}%)
+                ({getChangeSign(profit)}{formatCurrency(profit)} 円 / {getChangeSign(profit)}{formatPercentage(profit, totalContributions)}%)
+              </span>
+            </li>
+            <li>
+              税引後の平均: {formatCurrency(afterTaxMean)} 円{' '}
+              <span style={getColorStyle(afterTaxProfit)}>
+                ({getChangeSign(afterTaxProfit)}{formatCurrency(afterTaxProfit)} 円 / {getChangeSign(afterTaxProfit)}{formatPercentage(afterTaxProfit, totalContributions)}%)
               </span>
             </li>
+            <li>
+              資産全体の平均: {formatCurrency(totalAssetsMean)} 円{' '}
+              <span style={getColorStyle(totalAssetsProfit)}>
+                ({getChangeSign(totalAssetsProfit)}{formatCurrency(totalAssetsProfit)} 円 / {getChangeSign(totalAssetsProfit)}{formatPercentage(totalAssetsProfit, totalPrincipal)}%)
+              </span>
+            </li>
+            <li>投資元本（初期投資額 + 積立累計額）: {formatCurrency(totalContributions)} 円</li>
             <li><Link href="/words?q=stddev" style={{ textDecoration: 'none' }}>標準偏差</Link>: {formatCurrency(stdDev)} 円</li>
             <li><Link href="/words?q=confidence-interval" style={{ textDecoration: 'none' }}>95%信頼区間</Link>: {formatCurrency(lowerBound)} 円 〜 {formatCurrency(upperBound)} 円</li>
           </ul>
           <Form.Text className="text-muted d-block mt-2">
-            ※ 対数正規分布でモデル化しています。資産額は常に0以上となり、上方向の可能性が大きくなります。95%の確率で、{years}年後の資産はこの範囲内に収まります。
+            ※ {distributionModelLabel}でモデル化しています。資産額は常に0以上となり、上方向の可能性が大きくなります。95%の確率で、{years}年後の資産はこの範囲内に収まります。
+            {distributionModelSettings.type !== 'lognormal' && (
+              <><br />※ 平均と標準偏差は対数正規分布の値です。分布モデルの違いは95%信頼区間と最悪ケースに反映されます。</>
+            )}
+            {isReal && (
+              <><br />※ 実質値です。投資元本は、各回の積立額を積み立てた時点の物価で現在の価値に割り引いています。</>
+            )}
           </Form.Text>
         </Card.Body>
       </Card>
 
-      <Card>
+      <MonteCarloComparisonCard
+        params={distributionParams}
+        probabilityThreshold={currentProbabilityThreshold}
+        analytic={nominalDistribution}
+      />
+
+      <Card className="mb-4">
         <Card.Body>
           <h5>確率閾値による最悪ケース</h5>
-          <Form.Group className="mb-3">
-            <Form.Label>確率閾値 (%): {currentProbabilityThreshold}%</Form.Label>
-            <Form.Range
-              min={0.1}
-              max={99.9}
-              step={0.1}
-              value={currentProbabilityThreshold}
-              onChange={handleProbabilityThresholdChange}
-            />
-            <Form.Text className="text-muted">
-              スライダーを動かして確率閾値を一時的に変更できます。この変更はこのページでのみ有効です。
-            </Form.Text>
-          </Form.Group>
-          <Form.Group className="mb-3">
-            <Form.Label>投資比率 (%): {currentInvestmentRatio}%</Form.Label>
-            <Form.Range
-              min={0}
-              max={100}
-              step={1}
+          <fieldset disabled={isReadOnly}>
+            <Form.Group className="mb-3">
+              <Form.Label>確率閾値 (%): {currentProbabilityThreshold}%</Form.Label>
+              <Form.Range
+                min={0.1}
+                max={99.9}
+                step={0.1}
+                value={currentProbabilityThreshold}
+                onChange={handleProbabilityThresholdChange}
+              />
+              <Form.Text className="text-muted">
+                スライダーを動かして確率閾値を一時的に変更できます。この変更はこのページでのみ有効です。
+              </Form.Text>
+            </Form.Group>
+            <InvestmentRatioSlider
               value={currentInvestmentRatio}
-              onChange={handleInvestmentRatioChange}
+              onChange={setTempInvestmentRatio}
+              totalAssets={settings.totalAssets}
+              borrowingRate={settings.borrowingRate}
+              maintenanceMargin={settings.maintenanceMargin}
+              recommendedRatio={recommendedRatio}
             />
-            <Form.Text className="text-muted">
-              スライダーを動かして投資比率を一時的に変更できます。この変更はこのページでのみ有効です。
-            </Form.Text>
-          </Form.Group>
+          </fieldset>
           <p className="mb-3">
             投資比率 {currentInvestmentRatio}%、投資額 {formatCurrency(investmentAmount)} 円の場合、{currentProbabilityThreshold}%の確率内での最悪ケースは以下の通りです。
           </p>
-          <Table striped bordered>
-            <thead>
-              <tr>
-                <th>観点</th>
-                <th>金額</th>
-                <th>増減額</th>
-                <th>増減率</th>
-              </tr>
-            </thead>
-            <tbody>
-              <tr>
-                <td><strong>投資部分</strong></td>
-                <td>{formatCurrency(worstCaseAssets)} 円</td>
-                <td style={getColorStyle(worstCaseLoss)}>
-                  {getChangeSign(worstCaseLoss)}{formatCurrency(worstCaseLoss)} 円
-                </td>
-                <td style={getColorStyle(worstCaseLoss)}>
-                  {getChangeSign(worstCaseLoss)}{formatPercentage(worstCaseLoss, investmentAmount)}%
-                </td>
-              </tr>
-              <tr>
-                <td><strong>資産全体</strong></td>
-                <td>{formatCurrency(totalAssetsWorstCase)} 円</td>
-                <td style={getColorStyle(totalAssetsChange)}>
-                  {getChangeSign(totalAssetsChange)}{formatCurrency(totalAssetsChange)} 円
-                </td>
-                <td style={getColorStyle(totalAssetsChange)}>
-                  {getChangeSign(totalAssetsChange)}{formatPercentage(totalAssetsChange, settings.totalAssets)}%
-                </td>
-              </tr>
-            </tbody>
-          </Table>
+          <WorstCaseTable rows={worstCaseRows} probabilityThreshold={currentProbabilityThreshold} />
           <Form.Text className="text-muted d-block mt-2">
-            ※ 下位{(PERCENTAGE_DIVISOR - currentProbabilityThreshold).toFixed(DECIMAL_ONE_DIGIT)}%の確率でこの値を下回ります。<br />
-            ※ 資産全体 = 投資部分（{formatCurrency(worstCaseAssets)} 円）+ 非投資部分（{formatCurrency(nonInvestmentAssets)} 円）
+            ※ 下位{(PERCENTAGE_DIVISOR - currentProbabilityThreshold).toFixed(DECIMAL_ONE_DIGIT)}%の確率で最悪ケースを下回ります。期待ショートフォールは、下回った場合に平均してどこまで下がるかを表します。<br />
+            ※ 資産全体 = 投資部分（{formatCurrency(worstCaseAssets)} 円）+ 非投資部分（{formatCurrency(nonInvestmentAssets)} 円、{nonInvestmentPrincipal < SETTLEMENT_TIMEOUT ? `借入金利 ${cashRate}% / 年の借入残高` : `無リスク金利 ${cashRate}% / 年で運用`}）<br />
+            ※ 増減は投資元本（投資部分: {formatCurrency(totalContributions)} 円 / 資産全体: {formatCurrency(totalPrincipal)} 円）を基準としています。<br />
+            ※ 税引後は、投資期間の終わりにすべて売却し、利益に{CAPITAL_GAINS_TAX_RATE}%の税金がかかる場合の金額です（NISAで保有する部分は非課税、課税対象は投資元本の{(taxableShare * PERCENTAGE_DIVISOR).toFixed(DECIMAL_ONE_DIGIT)}%。非投資部分は利息に課税）。
+            {isReal && (
+              <><br />※ 実質値です。非投資部分（現金）も物価上昇の分だけ価値が目減りします。</>
+            )}
           </Form.Text>
-          <div className="alert alert-info mt-3" role="alert">
-            <strong>💤 安眠チェック</strong><br />
-            通常起こり得る確率範囲（{currentProbabilityThreshold}%）での最悪のケースで、資産全体が{' '}
-            <strong>{formatCurrency(totalAssetsWorstCase)} 円</strong>
-            （<strong>{getChangeSign(totalAssetsChange)}{formatCurrency(totalAssetsChange)} 円</strong> /
-            <strong>{getChangeSign(totalAssetsChange)}{formatPercentage(totalAssetsChange, settings.totalAssets)}%</strong>）
-            にまで{totalAssetsChange >= SETTLEMENT_TIMEOUT ? '増加' : '減少'}する可能性があります。
-            <br />
-            <br />
-            <strong>安眠できますか？</strong><br />
-            できない場合は、投資比率を下げてください。
-            <br />
-            <br />
-            よりローリスク・ローリターンにして対応することもできますが、<Link href="/words?q=mpt" style={{ textDecoration: 'none' }}>MPT</Link>の観点からは投資比率を下げることが推奨されます。
-            <br />
-            詳しく知りたい方は<Link href="/words?q=tobin-separation" style={{ textDecoration: 'none' }}>トービンの分離定理</Link>を調べてみてください。
-          </div>
+          <SleepCheckAlert
+            probabilityThreshold={currentProbabilityThreshold}
+            totalAssetsWorstCase={totalAssetsWorstCase}
+            totalPrincipal={totalPrincipal}
+          />
         </Card.Body>
       </Card>
+
+      {nonInvestmentPrincipal < SETTLEMENT_TIMEOUT && (
+        <MarginCallCard params={marginCallParams} shockDistribution={shockDistribution} />
+      )}
+
+      <CurrencyContributionCard
+        params={worstCaseParams}
+        expectedReturn={settings.expectedReturn}
+        risk={settings.risk}
+        expenseRatio={settings.expenseRatio}
+        currency={settings.currency}
+      />
+
+      <FanChartCard params={worstCaseParams} years={years} isReal={isReal} onSelectYears={handleSelectYears} />
+
+      <div ref={maxDrawdownRef}>
+        <MaxDrawdownCard params={maxDrawdownParams} probabilityThreshold={currentProbabilityThreshold} shockDistribution={shockDistribution} />
+      </div>
+
+      <fieldset disabled={isReadOnly}>
+        <GoalProbabilityCard
+          params={worstCaseParams}
+          years={years}
+          probabilityThreshold={currentProbabilityThreshold}
+          isReal={isReal}
+          onSelectYears={setYears}
+        />
+      </fieldset>
+
+      <CapitalMarketLineCard params={sleepLineParams} onSelect={handleSelectInvestmentRatio} />
+
+      <fieldset disabled={isReadOnly}>
+        <RiskAversionCard
+          params={riskAversionParams}
+          investmentRatio={currentInvestmentRatio}
+          riskAversion={riskAversion}
+          onRiskAversionChange={setRiskAversion}
+          onApply={setTempInvestmentRatio}
+        />
+      </fieldset>
+
+      <RebalancingCard params={decumulationParams} probabilityThreshold={currentProbabilityThreshold} shockDistribution={shockDistribution} />
+
+      <DecumulationCard params={decumulationParams} inflationRate={settings.inflationRate} shockDistribution={shockDistribution} />
+
+      <fieldset disabled={isReadOnly}>
+        <SleepLineFinderCard params={sleepLineParams} onApply={handleApplySleepLine} />
+      </fieldset>
     </Container>
   )
 }
@@ -0,0 +1,358 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { Container, Card, Form, Row, Col, Button } from 'react-bootstrap'
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  type ChartData
+} from 'chart.js'
+import { Scatter } from 'react-chartjs-2'
+import { toast } from 'react-toastify'
+
+import { useSettings } from '@/contexts/SettingsContext'
+import CorrelationMatrixTable from '@/components/settings/CorrelationMatrixTable'
+import FrontierPointCard from '@/components/frontier/FrontierPointCard'
+import {
+  assetClasses,
+  calculatePortfolioReturnAndRisk,
+  isValidCorrelationMatrix,
+  roundWeights
+} from '@/utils/portfolio'
+import {
+  calculateEfficientFrontier,
+  calculateSharpeRatio,
+  type EfficientFrontier,
+  type FrontierPoint
+} from '@/utils/efficientFrontier'
+import { calculateLocalRisk, calculateYenReturnAndRisk } from '@/utils/currency'
+
+// Chart.jsの登録
+ChartJS.register(
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+)
+
+// 定数定義
+const DECIMAL_PLACES = 10
+const DECIMAL_TWO_DIGITS = 2
+const CHART_HEIGHT = '450px'
+const FRONTIER_POINT_RADIUS = 0
+const ASSET_POINT_RADIUS = 5
+const HIGHLIGHT_POINT_RADIUS = 8
+const BORDER_WIDTH = 2
+const ZERO = 0
+const ONE = 1
+const RADIX = 10
+
+interface ChartClickElement {
+  datasetIndex: number
+  index: number
+}
+
+interface TooltipContext {
+  dataset: { label?: string }
+  parsed: { x: number | null, y: number | null }
+}
+
+const FRONTIER_DATASET_INDEX = 0
+
+// リスク・リターンの点をグラフ用の座標に変換
+function toChartPoint (point: { risk: number, expectedReturn: number } | null): Array<{ x: number, y: number }> {
+  return point !== null ? [{ x: point.risk, y: point.expectedReturn }] : []
+}
+
+// Chart.js用のデータ形式に変換
+function createChartData (
+  points: FrontierPoint[],
+  tangency: FrontierPoint | null,
+  current: { risk: number, expectedReturn: number },
+  selected: FrontierPoint | null
+): ChartData<'scatter'> {
+  return {
+    datasets: [
+      {
+        label: '効率的フロンティア',
+        data: points.map(point => ({ x: point.risk, y: point.expectedReturn })),
+        borderColor: 'rgb(75, 192, 192)',
+        backgroundColor: 'rgba(75, 192, 192, 0.5)',
+        showLine: true,
+        borderWidth: BORDER_WIDTH,
+        pointRadius: FRONTIER_POINT_RADIUS,
+        pointHitRadius: ASSET_POINT_RADIUS
+      },
+      {
+        label: '各資産クラス',
+        data: assetClasses.map(asset => ({ x: asset.risk, y: asset.expectedReturn })),
+        backgroundColor: 'rgb(128, 128, 128)',
+        pointRadius: ASSET_POINT_RADIUS
+      },
+      {
+        label: '接点ポートフォリオ',
+        data: toChartPoint(tangency),
+        backgroundColor: 'rgb(255, 0, 0)',
+        pointStyle: 'star',
+        pointRadius: HIGHLIGHT_POINT_RADIUS
+      },
+      {
+        label: '現在の設定',
+        data: toChartPoint(current),
+        backgroundColor: 'rgb(0, 0, 255)',
+        pointStyle: 'triangle',
+        pointRadius: HIGHLIGHT_POINT_RADIUS
+      },
+      {
+        label: '選択中の点',
+        data: toChartPoint(selected),
+        borderColor: 'rgb(255, 159, 64)',
+        backgroundColor: 'rgba(255, 159, 64, 0.3)',
+        borderWidth: BORDER_WIDTH,
+        pointRadius: HIGHLIGHT_POINT_RADIUS
+      }
+    ]
+  }
+}
+
+// 指定した点に最もリスクが近いフロンティア上の点のインデックス
+function findClosestPointIndex (points: FrontierPoint[], target: FrontierPoint): number {
+  return points.reduce((closest, point, index) => (
+    Math.abs(point.risk - target.risk) < Math.abs(points[closest].risk - target.risk) ? index : closest
+  ), ZERO)
+}
+
+// 選択された点（未選択の場合は接点ポートフォリオ）と、スライダーの位置（未選択の場合は接点ポートフォリオに最も近い点）
+function resolveSelection (
+  frontier: EfficientFrontier | null,
+  selectedIndex: number | null
+): { sliderIndex: number, selectedPoint: FrontierPoint | null } {
+  if (frontier === null) {
+    return { sliderIndex: ZERO, selectedPoint: null }
+  }
+  const { points, tangency } = frontier
+  if (selectedIndex !== null) {
+    return { sliderIndex: selectedIndex, selectedPoint: points[Math.min(selectedIndex, points.length - ONE)] }
+  }
+  return {
+    sliderIndex: tangency !== null ? findClosestPointIndex(points, tangency) : ZERO,
+    selectedPoint: tangency
+  }
+}
+
+export default function FrontierPage (): React.JSX.Element {
+  const { settings, updateSettings } = useSettings()
+  const [tempRiskFreeRate, setTempRiskFreeRate] = useState<number | null>(null)
+  const [tempCorrelations, setTempCorrelations] = useState<number[][] | null>(null)
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null)
+
+  // 無リスク金利（一時的な変更がない場合は設定の値を使用）
+  const riskFreeRate = tempRiskFreeRate ?? settings.riskFreeRate
+
+  // 相関行列（一時的な変更がない場合は設定のポートフォリオの値を使用）
+  const correlations = tempCorrelations ?? settings.portfolio.correlations
+  const isCorrelationValid = useMemo(() => isValidCorrelationMatrix(correlations), [correlations])
+
+  const frontier = useMemo(() => (
+    isCorrelationValid ? calculateEfficientFrontier(assetClasses, correlations, riskFreeRate) : null
+  ), [correlations, riskFreeRate, isCorrelationValid])
+
+  const tangency = frontier?.tangency ?? null
+  const tangencySharpe = tangency !== null ? calculateSharpeRatio(tangency, riskFreeRate) : null
+  const { sliderIndex, selectedPoint } = resolveSelection(frontier, selectedIndex)
+
+  // 資産クラスのリターン・リスクは円ベースのため、現在の設定も為替リスクを含めた円ベースの値で比較する
+  const current = calculateYenReturnAndRisk(settings.expectedReturn, settings.risk, settings.currency)
+
+  const chartData = createChartData(
+    frontier?.points ?? [],
+    tangency,
+    current,
+    selectedPoint
+  )
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    onClick: (_event: unknown, elements: ChartClickElement[]) => {
+      // フロンティア上の点をクリックした場合はその点を選択
+      const frontierElement = elements.find(element => element.datasetIndex === FRONTIER_DATASET_INDEX)
+      if (frontierElement !== undefined) {
+        setSelectedIndex(frontierElement.index)
+      }
+    },
+    plugins: {
+      legend: {
+        position: 'top' as const
+      },
+      title: {
+        display: true,
+        text: `効率的フロンティア（無リスク金利 ${riskFreeRate}%）`
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipContext) => {
+            const { dataset: { label = '' }, parsed: { x: risk, y: expectedReturn } } = context
+            return `${label}: リスク ${(risk ?? ZERO).toFixed(DECIMAL_TWO_DIGITS)}% / リターン ${(expectedReturn ?? ZERO).toFixed(DECIMAL_TWO_DIGITS)}%`
+          }
+        }
+      }
+    },
+    scales: {
+      x: {
+        type: 'linear' as const,
+        min: ZERO,
+        title: {
+          display: true,
+          text: 'リスク (標準偏差 %/年)'
+        }
+      },
+      y: {
+        type: 'linear' as const,
+        title: {
+          display: true,
+          text: '期待リターン (%/年)'
+        }
+      }
+    }
+  }
+
+  const handleRiskFreeRateChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    const value = parseFloat(e.target.value)
+    setTempRiskFreeRate(isNaN(value) ? ZERO : value)
+  }
+
+  const handleSelectedIndexChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    setSelectedIndex(parseInt(e.target.value, RADIX))
+  }
+
+  const handleResetCorrelations = (): void => {
+    setTempCorrelations(null)
+  }
+
+  // 選択した点の配分・リターン・リスクを設定に反映
+  const handleApply = (point: FrontierPoint): void => {
+    const weights = roundWeights(point.weights)
+    const { expectedReturn, risk: yenRisk } = calculatePortfolioReturnAndRisk(assetClasses, { weights, correlations })
+    // 設定のリスクには為替リスクの設定で為替変動が加わるため、円ベースのリスクから為替変動を除いて保存する
+    const risk = calculateLocalRisk(yenRisk, settings.currency)
+    updateSettings({
+      expectedReturn: Math.round(expectedReturn * DECIMAL_PLACES) / DECIMAL_PLACES,
+      risk: Math.round(risk * DECIMAL_PLACES) / DECIMAL_PLACES,
+      portfolio: { weights, correlations }
+    })
+    toast.success(
+      settings.currency.foreignShare > ZERO
+        ? '選択した点のリターンと、為替変動を除いたリスクを設定に反映しました。'
+        : '選択した点のリターンとリスクを設定に反映しました。'
+    )
+  }
+
+  const currentSharpe = calculateSharpeRatio(current, riskFreeRate)
+
+  return (
+    <Container className="py-5">
+      <h1 className="mb-4">📈 効率的フロンティア</h1>
+
+      <Card className="mb-4">
+        <Card.Body>
+          <p>
+            代表的な資産クラスを組み合わせたときに、同じリスクで最も高いリターンが得られるポートフォリオの集まり（<Link href="/words?q=mpt" style={{ textDecoration: 'none' }}>MPT</Link>の効率的フロンティア）を計算します。
+            無リスク資産と組み合わせたときに最も効率がよい（シャープレシオが最大の）点が接点ポートフォリオで、<Link href="/words?q=tobin-separation" style={{ textDecoration: 'none' }}>トービンの分離定理</Link>では<Link href="/words?q=market-portfolio" style={{ textDecoration: 'none' }}>マーケット・ポートフォリオ</Link>に相当します。
+          </p>
+          <Row>
+            <Col md={6}>
+              <Form.Group className="mb-3">
+                <Form.Label>無リスク金利 (%/年)</Form.Label>
+                <Form.Control
+                  type="number"
+                  value={riskFreeRate}
+                  onChange={handleRiskFreeRateChange}
+                  step={0.1}
+                />
+                <Form.Text className="text-muted">
+                  預金や短期国債など、リスクのない資産の利回り。初期値は設定ページの無リスク金利で、この変更はこのページでのみ有効です。
+                </Form.Text>
+              </Form.Group>
+            </Col>
+          </Row>
+          <h6>相関係数</h6>
+          <CorrelationMatrixTable value={correlations} onChange={setTempCorrelations} />
+          <Button variant="outline-secondary" size="sm" onClick={handleResetCorrelations}>
+            設定の相関係数に戻す
+          </Button>
+        </Card.Body>
+      </Card>
+
+      {frontier !== null && selectedPoint !== null
+        ? (
+          <>
+            <Card className="mb-4">
+              <Card.Body>
+                <div style={{ height: CHART_HEIGHT }}>
+                  <Scatter data={chartData} options={chartOptions} />
+                </div>
+                <Form.Group className="mt-3">
+                  <Form.Label>フロンティア上の点を選択</Form.Label>
+                  <Form.Range
+                    min={0}
+                    max={frontier.points.length - ONE}
+                    step={1}
+                    value={sliderIndex}
+                    onChange={handleSelectedIndexChange}
+                  />
+                  <Form.Text className="text-muted">
+                    グラフのフロンティア上の点をクリックするか、スライダーで選択できます（左端が最小分散ポートフォリオ）。
+                  </Form.Text>
+                </Form.Group>
+              </Card.Body>
+            </Card>
+
+            <FrontierPointCard
+              point={selectedPoint}
+              riskFreeRate={riskFreeRate}
+              isTangency={selectedIndex === null}
+              onApply={handleApply}
+              onSelectTangency={selectedIndex !== null && tangency !== null ? () => { setSelectedIndex(null) } : null}
+            />
+          </>
+          )
+        : (
+          <div className="alert alert-warning mb-4" role="alert">
+            相関行列が正しくないため、効率的フロンティアを計算できません。相関係数を見直してください。
+          </div>
+          )}
+
+      <Card className="mb-4">
+        <Card.Body>
+          <h5>現在の設定</h5>
+          <ul className="mb-0">
+            <li>期待リターン: {settings.expectedReturn}% / 年</li>
+            <li>リスク: {settings.risk}% / 年</li>
+            {settings.currency.foreignShare > ZERO && (
+              <li>為替を含む円ベース: 期待リターン {current.expectedReturn.toFixed(DECIMAL_TWO_DIGITS)}% / 年、リスク {current.risk.toFixed(DECIMAL_TWO_DIGITS)}% / 年</li>
+            )}
+            <li>シャープレシオ: {currentSharpe.toFixed(DECIMAL_TWO_DIGITS)}</li>
+            {tangencySharpe !== null && (
+              <li>
+                接点ポートフォリオのシャープレシオ: {tangencySharpe.toFixed(DECIMAL_TWO_DIGITS)}
+                {currentSharpe < tangencySharpe && '（現在の設定より効率的です）'}
+              </li>
+            )}
+          </ul>
+          <Form.Text className="text-muted d-block mt-2">
+            ※ 空売りなし（各資産の配分が0%以上）で計算しています。各資産クラスのリターンとリスクは設定ページの「代表的な資産クラス」の値を使用しています。
+          </Form.Text>
+        </Card.Body>
+      </Card>
+    </Container>
+  )
+}
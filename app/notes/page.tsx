@@ -40,6 +40,10 @@ export default function NotesPage (): React.JSX.Element {
             <strong>結論</strong>: 正規分布モデルは「平均的なケース」を理解するには有用ですが、極端な市場変動のリスクを過小評価する可能性があります。
             特に金融危機のような異常事態では、このモデルの予測は大きく外れる可能性があることを認識してください。
           </p>
+          <p className="mt-3 mb-0">
+            <Link href="/distribution" style={{ textDecoration: 'none' }}>資産分布グラフ</Link>では、分布モデルとしてt分布（ファットテール）や歪正規分布（スキュー）を選択し、これらの影響で最悪ケースがどの程度変わるかを確認できます。
+            また、平常時と危機時を切り替えるレジーム・スイッチング・モデルで、ボラティリティ・クラスタリングによって最悪ケースや途中の下落がどう変わるかも比較できます。
+          </p>
         </Card.Body>
       </Card>
 
@@ -48,7 +52,7 @@ export default function NotesPage (): React.JSX.Element {
           <h5>2. 各年の価格変動の独立性</h5>
           <h6 className="mt-3">仮定内容</h6>
           <p>
-            このアプリケーションでは、各年の価格変動が互いに独立していると仮定しています。
+            このアプリケーションでは、標準では各年の価格変動が互いに独立していると仮定しています。
             つまり、ある年の運用成績が翌年の成績に影響を与えないという前提で計算を行っています。
           </p>
           <h6 className="mt-3">実際の市場との違い</h6>
@@ -65,6 +69,10 @@ export default function NotesPage (): React.JSX.Element {
             <strong>結論</strong>: 独立性の仮定は計算を単純化するために有用ですが、実際の市場では連続した好況期や不況期が発生する可能性があります。
             特に短期的な投資期間（5年未満）では、この仮定からの乖離が大きくなる可能性があることに注意してください。
           </p>
+          <p className="mt-3 mb-0">
+            <Link href="/distribution" style={{ textDecoration: 'none' }}>資産分布グラフ</Link>では、年ごとのリターンの自己相関係数（AR(1)）を設定できます。
+            マイナスの値で平均回帰、プラスの値でモメンタムを表し、投資期間に応じて分散の増え方と最悪ケースがどう変わるかを確認できます。
+          </p>
         </Card.Body>
       </Card>
 
@@ -72,9 +80,11 @@ export default function NotesPage (): React.JSX.Element {
         <Card.Body>
           <h5>3. その他の前提条件と制限事項</h5>
           <ul className="mb-0">
-            <li><strong>取引コストの無視</strong>: 売買手数料、税金、信託報酬などのコストは考慮されていません。</li>
-            <li><strong>リバランスの無視</strong>: ポートフォリオのリバランスや、追加投資・引き出しは考慮されていません。</li>
-            <li><strong>インフレの無視</strong>: すべての金額は名目値であり、インフレによる実質的な価値の変動は考慮されていません。</li>
+            <li><strong>コストと税金</strong>: 信託報酬は想定リターンから差し引いて計算します。税金は投資期間の終わりにすべて売却した場合の譲渡益課税（20.315%、NISAで保有する部分は非課税）のみを考慮し、売買手数料や分配金への課税、損益通算などは考慮されていません。</li>
+            <li><strong>リバランスの扱い</strong>: 資産分布グラフの最悪ケースは、投資部分と非投資部分をそれぞれ持ち続けた（リバランスしない）場合の値です。リバランスの効果はモンテカルロ法で別に比較できますが、売買手数料やリバランス時の課税は考慮されていません。</li>
+            <li><strong>インフレの扱い</strong>: 金額は原則として名目値です。資産分布グラフでは表示を実質値に切り替えると、設定した物価上昇率が一定で続くものとして現在の価値に割り引きます（物価上昇率自体の変動は考慮されていません）。</li>
+            <li><strong>投資していない部分の扱い</strong>: 投資していない部分は、設定した無リスク金利で毎年複利運用されるものとして計算します（金利の変動や、預金の元本保証の範囲などは考慮されていません）。</li>
+            <li><strong>推奨の投資比率</strong>: 資産分布ページの推奨の投資比率は、CRRA効用と投資比率を一定に保つ前提のマートンの公式による目安です。危険回避度は簡単な質問から推定したもので、定期積立・税金・正規分布以外の分布モデルは考慮されていません。</li>
             <li><strong>過去データの外挿</strong>: 期待リターンとリスクの設定は過去のデータに基づくことが多いですが、過去の実績が将来の成果を保証するものではありません。</li>
             <li><strong>破綻リスクの無視</strong>: 投資先の倒産や市場の機能不全などの極端なリスクは考慮されていません。</li>
           </ul>
@@ -7,6 +7,7 @@ import { Container, Card, Button } from 'react-bootstrap'
 
 import setting from '@/setting'
 import { useSettings } from '@/contexts/SettingsContext'
+import { contributionFrequencyLabels } from '@/utils/contributions'
 
 const PERCENTAGE_DIVISOR = 100
 const IMAGE_SIZE = 100
@@ -33,6 +34,11 @@ export default function Home (): React.JSX.Element {
               <p className='mb-2'><strong>投資額:</strong> {investmentAmount.toLocaleString()} 円</p>
               <p className='mb-2'><strong>期待リターン:</strong> {settings.expectedReturn}% / 年</p>
               <p className='mb-2'><strong>リスク:</strong> {settings.risk}% / 年</p>
+              <p className='mb-2'><strong>積立:</strong> {contributionFrequencyLabels[settings.contributionFrequency]} {settings.contributionAmount.toLocaleString()} 円</p>
+              <p className='mb-2'><strong>物価上昇率:</strong> {settings.inflationRate}% / 年</p>
+              <p className='mb-2'><strong>無リスク金利:</strong> {settings.riskFreeRate}% / 年</p>
+              <p className='mb-2'><strong>信託報酬:</strong> {settings.expenseRatio}% / 年</p>
+              <p className='mb-2'><strong>NISAで保有する金額:</strong> {settings.nisaAllowance.toLocaleString()} 円</p>
               <p className='mb-0'><strong>確率閾値:</strong> {settings.probabilityThreshold}%</p>
             </div>
             <div className='d-flex gap-2'>
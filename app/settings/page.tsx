@@ -7,26 +7,29 @@ import { BsChevronDown, BsChevronUp } from 'react-icons/bs'
 
 import { useSettings, type InvestmentSettings, defaultSettings } from '@/contexts/SettingsContext'
 import Modal from '@/components/Modal'
+import PortfolioBuilderCard from '@/components/settings/PortfolioBuilderCard'
+import CurrencyRiskCard from '@/components/settings/CurrencyRiskCard'
+import ProfileManagerCard from '@/components/settings/ProfileManagerCard'
+import SettingsTransferCard from '@/components/settings/SettingsTransferCard'
+import type { ContributionFrequency } from '@/utils/normalDistribution'
+import { contributionFrequencyLabels } from '@/utils/contributions'
+import { CAPITAL_GAINS_TAX_RATE } from '@/utils/taxAndCost'
+import { calculateYenReturnAndRisk, type CurrencySettings } from '@/utils/currency'
+import { MAX_INVESTMENT_RATIO } from '@/utils/leverage'
+import { assetClasses, type AssetClass, type PortfolioSettings } from '@/utils/portfolio'
+import { validateSettings } from '@/utils/settingsSchema'
 
 const PERCENTAGE_DIVISOR = 100
 const DECIMAL_PLACES = 10
+const EXPENSE_RATIO_DECIMAL_PLACES = 10000
+const RISK_FREE_RATE_DECIMAL_PLACES = 100
 const MANYEN_MULTIPLIER = 10000
 const ZERO = 0
 const DECIMAL_ONE = 1
+const DECIMAL_TWO = 2
 
-// 資産クラスのリターンとリスク定数
-const DOMESTIC_STOCK_RETURN = 5.0
-const DOMESTIC_STOCK_RISK = 15.0
-const DEVELOPED_STOCK_RETURN = 7.0
-const DEVELOPED_STOCK_RISK = 17.0
-const EMERGING_STOCK_RETURN = 8.5
-const EMERGING_STOCK_RISK = 23.0
-const WORLD_STOCK_RETURN = 7.5
-const WORLD_STOCK_RISK = 18.0
-const DOMESTIC_BOND_RETURN = 1.0
-const DOMESTIC_BOND_RISK = 3.0
-const DEVELOPED_BOND_RETURN = 2.5
-const DEVELOPED_BOND_RISK = 5.0
+// 設定の項目（未保存の変更の判定に使用）
+const settingKeys = Object.keys(defaultSettings) as Array<keyof InvestmentSettings>
 
 // 未保存の変更警告コンポーネント
 interface UnsavedChangesAlertProps {
@@ -44,24 +47,21 @@ function UnsavedChangesAlert ({ className = 'mb-4' }: UnsavedChangesAlertProps):
   )
 }
 
-// 代表的な資産クラスのリターンとリスク
-interface AssetClass {
-  name: string
-  expectedReturn: number
-  risk: number
-}
-
-const assetClasses: AssetClass[] = [
-  { name: '国内株式', expectedReturn: DOMESTIC_STOCK_RETURN, risk: DOMESTIC_STOCK_RISK },
-  { name: '先進国株式', expectedReturn: DEVELOPED_STOCK_RETURN, risk: DEVELOPED_STOCK_RISK },
-  { name: '新興国株式', expectedReturn: EMERGING_STOCK_RETURN, risk: EMERGING_STOCK_RISK },
-  { name: '世界株式', expectedReturn: WORLD_STOCK_RETURN, risk: WORLD_STOCK_RISK },
-  { name: '国内債券', expectedReturn: DOMESTIC_BOND_RETURN, risk: DOMESTIC_BOND_RISK },
-  { name: '先進国債券', expectedReturn: DEVELOPED_BOND_RETURN, risk: DEVELOPED_BOND_RISK }
-]
-
 export default function SettingsPage (): React.JSX.Element {
-  const { settings, updateSettings, resetSettings } = useSettings()
+  const {
+    settings,
+    updateSettings,
+    resetSettings,
+    profiles,
+    activeProfile,
+    createProfile,
+    duplicateProfile,
+    renameProfile,
+    deleteProfile,
+    switchProfile,
+    importProfiles,
+    getAllProfileSettings
+  } = useSettings()
 
   // ローカルフォーム状態
   const [formData, setFormData] = useState<InvestmentSettings>(settings)
@@ -73,13 +73,9 @@ export default function SettingsPage (): React.JSX.Element {
   const [isAssetClassOpen, setIsAssetClassOpen] = useState(false)
 
   // 未保存の変更があるかチェック
-  const hasUnsavedChanges = useMemo(() => (
-    formData.totalAssets !== settings.totalAssets ||
-    formData.investmentRatio !== settings.investmentRatio ||
-    formData.probabilityThreshold !== settings.probabilityThreshold ||
-    formData.expectedReturn !== settings.expectedReturn ||
-    formData.risk !== settings.risk
-  ), [formData, settings])
+  const hasUnsavedChanges = useMemo(() => settingKeys.some(key => (
+    JSON.stringify(formData[key]) !== JSON.stringify(settings[key])
+  )), [formData, settings])
 
   // settingsが変更されたらformDataを同期
   useEffect(() => {
@@ -104,24 +100,10 @@ export default function SettingsPage (): React.JSX.Element {
   const handleSubmit = (e: React.FormEvent): void => {
     e.preventDefault()
 
-    // バリデーション
-    if (formData.totalAssets <= ZERO) {
-      toast.error('資産総額は0より大きい値を入力してください。')
-      return
-    }
-
-    if (formData.investmentRatio < ZERO || formData.investmentRatio > PERCENTAGE_DIVISOR) {
-      toast.error('投資比率は0〜100の範囲で入力してください。')
-      return
-    }
-
-    if (formData.probabilityThreshold < ZERO || formData.probabilityThreshold > PERCENTAGE_DIVISOR) {
-      toast.error('確率の閾値は0〜100の範囲で入力してください。')
-      return
-    }
-
-    if (formData.risk < ZERO) {
-      toast.error('リスクは0以上の値を入力してください。')
+    // バリデーション（保存されていた設定の読み込み時と同じルール）
+    const validationError = validateSettings(formData)
+    if (validationError !== null) {
+      toast.error(validationError)
       return
     }
 
@@ -130,7 +112,12 @@ export default function SettingsPage (): React.JSX.Element {
       ...formData,
       probabilityThreshold: Math.round(formData.probabilityThreshold * DECIMAL_PLACES) / DECIMAL_PLACES,
       expectedReturn: Math.round(formData.expectedReturn * DECIMAL_PLACES) / DECIMAL_PLACES,
-      risk: Math.round(formData.risk * DECIMAL_PLACES) / DECIMAL_PLACES
+      risk: Math.round(formData.risk * DECIMAL_PLACES) / DECIMAL_PLACES,
+      contributionGrowthRate: Math.round(formData.contributionGrowthRate * DECIMAL_PLACES) / DECIMAL_PLACES,
+      inflationRate: Math.round(formData.inflationRate * DECIMAL_PLACES) / DECIMAL_PLACES,
+      riskFreeRate: Math.round(formData.riskFreeRate * RISK_FREE_RATE_DECIMAL_PLACES) / RISK_FREE_RATE_DECIMAL_PLACES,
+      borrowingRate: Math.round(formData.borrowingRate * RISK_FREE_RATE_DECIMAL_PLACES) / RISK_FREE_RATE_DECIMAL_PLACES,
+      expenseRatio: Math.round(formData.expenseRatio * EXPENSE_RATIO_DECIMAL_PLACES) / EXPENSE_RATIO_DECIMAL_PLACES
     }
 
     // 丸められた値でformDataも更新
@@ -166,6 +153,32 @@ export default function SettingsPage (): React.JSX.Element {
     toast.success(`${assetClass.name}のリターンとリスクを適用しました。`)
   }
 
+  const handlePortfolioChange = (portfolio: PortfolioSettings): void => {
+    setFormData(prev => ({ ...prev, portfolio }))
+  }
+
+  const handleApplyPortfolio = (expectedReturn: number, risk: number): void => {
+    setFormData(prev => ({
+      ...prev,
+      expectedReturn: Math.round(expectedReturn * DECIMAL_PLACES) / DECIMAL_PLACES,
+      risk: Math.round(risk * DECIMAL_PLACES) / DECIMAL_PLACES
+    }))
+    toast.success('ポートフォリオのリターンとリスクを適用しました。')
+  }
+
+  const handleCurrencyChange = (currency: CurrencySettings): void => {
+    setFormData(prev => ({ ...prev, currency }))
+  }
+
+  const handleApplyLocalRisk = (risk: number): void => {
+    setFormData(prev => ({ ...prev, risk: Math.round(risk * DECIMAL_PLACES) / DECIMAL_PLACES }))
+    toast.success('為替変動を除いた想定リスクを適用しました。')
+  }
+
+  const handleContributionFrequencyChange = (e: React.ChangeEvent<HTMLSelectElement>): void => {
+    setFormData(prev => ({ ...prev, contributionFrequency: e.target.value as ContributionFrequency }))
+  }
+
   const handleTotalAssetsChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
     const inputValue = e.target.value
     if (inputValue === '') {
@@ -181,6 +194,7 @@ export default function SettingsPage (): React.JSX.Element {
   // 投資額を計算（リアルタイムで更新）
   const investmentAmount = formData.totalAssets * formData.investmentRatio / PERCENTAGE_DIVISOR
   const savedInvestmentAmount = settings.totalAssets * settings.investmentRatio / PERCENTAGE_DIVISOR
+  const savedYenReturnAndRisk = calculateYenReturnAndRisk(settings.expectedReturn, settings.risk, settings.currency)
 
   return (
     <Container className="py-5">
@@ -188,6 +202,17 @@ export default function SettingsPage (): React.JSX.Element {
 
       {hasUnsavedChanges && <UnsavedChangesAlert />}
 
+      <ProfileManagerCard
+        profiles={profiles}
+        activeProfile={activeProfile}
+        hasUnsavedChanges={hasUnsavedChanges}
+        onSwitch={switchProfile}
+        onCreate={createProfile}
+        onDuplicate={duplicateProfile}
+        onRename={renameProfile}
+        onDelete={deleteProfile}
+      />
+
       <Card>
         <Card.Body>
           <Form onSubmit={handleSubmit}>
@@ -217,12 +242,12 @@ export default function SettingsPage (): React.JSX.Element {
                     value={formData.investmentRatio}
                     onChange={handleChange('investmentRatio')}
                     min={0}
-                    max={100}
+                    max={MAX_INVESTMENT_RATIO}
                     step={1}
                     required
                   />
                   <Form.Text className="text-muted">
-                    資産のうち何%を投資に回すか (0〜100)。
+                    資産のうち何%を投資に回すか (0〜{MAX_INVESTMENT_RATIO})。100を超える部分は借入（信用取引など）で投資します。
                   </Form.Text>
                 </Form.Group>
               </Col>
@@ -246,6 +271,49 @@ export default function SettingsPage (): React.JSX.Element {
               </Col>
             </Row>
 
+            {formData.investmentRatio > PERCENTAGE_DIVISOR && (
+              <>
+                <Alert variant="danger">
+                  投資比率が100%を超えています。資産総額を超える {(investmentAmount - formData.totalAssets).toLocaleString()} 円を借り入れて投資する設定です。
+                  相場が下落すると損失が自己資金に対して拡大し、最低維持率を下回ると追証（追加の入金）や強制決済が必要になります。
+                </Alert>
+                <Row>
+                  <Col md={6}>
+                    <Form.Group className="mb-3">
+                      <Form.Label>借入金利 (%/年)</Form.Label>
+                      <Form.Control
+                        type="number"
+                        value={formData.borrowingRate}
+                        onChange={handleChange('borrowingRate')}
+                        step={0.1}
+                        required
+                      />
+                      <Form.Text className="text-muted">
+                        信用取引の買方金利など、借入にかかる金利。
+                      </Form.Text>
+                    </Form.Group>
+                  </Col>
+                  <Col md={6}>
+                    <Form.Group className="mb-3">
+                      <Form.Label>最低維持率 (%)</Form.Label>
+                      <Form.Control
+                        type="number"
+                        value={formData.maintenanceMargin}
+                        onChange={handleChange('maintenanceMargin')}
+                        min={0}
+                        max={99}
+                        step={1}
+                        required
+                      />
+                      <Form.Text className="text-muted">
+                        評価額に対する自己資金（評価額 - 借入残高）の割合がこれを下回ると追証となります。
+                      </Form.Text>
+                    </Form.Group>
+                  </Col>
+                </Row>
+              </>
+            )}
+
             <Row>
               <Col md={6}>
                 <Form.Group className="mb-3">
@@ -351,6 +419,151 @@ export default function SettingsPage (): React.JSX.Element {
               </Collapse>
             </Card>
 
+            <PortfolioBuilderCard
+              value={formData.portfolio}
+              onChange={handlePortfolioChange}
+              onApply={handleApplyPortfolio}
+            />
+
+            <CurrencyRiskCard
+              value={formData.currency}
+              onChange={handleCurrencyChange}
+              expectedReturn={formData.expectedReturn}
+              risk={formData.risk}
+              portfolioWeights={formData.portfolio.weights}
+              onApplyLocalRisk={handleApplyLocalRisk}
+            />
+
+            <hr className="my-4" />
+
+            <Row>
+              <Col md={6}>
+                <Form.Group className="mb-3">
+                  <Form.Label>積立額 (円/回)</Form.Label>
+                  <Form.Control
+                    type="number"
+                    value={formData.contributionAmount}
+                    onChange={handleChange('contributionAmount')}
+                    min={0}
+                    step={1000}
+                    required
+                  />
+                  <Form.Text className="text-muted">
+                    積立NISAなどで定期的に追加投資する金額。積立しない場合は0。
+                  </Form.Text>
+                </Form.Group>
+              </Col>
+
+              <Col md={6}>
+                <Form.Group className="mb-3">
+                  <Form.Label>積立頻度</Form.Label>
+                  <Form.Select
+                    value={formData.contributionFrequency}
+                    onChange={handleContributionFrequencyChange}
+                  >
+                    {(Object.keys(contributionFrequencyLabels) as ContributionFrequency[]).map(frequency => (
+                      <option key={frequency} value={frequency}>{contributionFrequencyLabels[frequency]}</option>
+                    ))}
+                  </Form.Select>
+                  <Form.Text className="text-muted">
+                    積立は各期の期初に行うものとして計算します。
+                  </Form.Text>
+                </Form.Group>
+              </Col>
+            </Row>
+
+            <Row>
+              <Col md={6}>
+                <Form.Group className="mb-3">
+                  <Form.Label>積立額の増加率 (%/年)</Form.Label>
+                  <Form.Control
+                    type="number"
+                    value={formData.contributionGrowthRate}
+                    onChange={handleChange('contributionGrowthRate')}
+                    step={0.1}
+                    required
+                  />
+                  <Form.Text className="text-muted">
+                    昇給などに合わせて積立額を毎年増やす割合。一定額の場合は0。
+                  </Form.Text>
+                </Form.Group>
+              </Col>
+            </Row>
+
+            <hr className="my-4" />
+
+            <Row>
+              <Col md={6}>
+                <Form.Group className="mb-3">
+                  <Form.Label>物価上昇率 (%/年)</Form.Label>
+                  <Form.Control
+                    type="number"
+                    value={formData.inflationRate}
+                    onChange={handleChange('inflationRate')}
+                    step={0.1}
+                    required
+                  />
+                  <Form.Text className="text-muted">
+                    想定するインフレ率。資産分布グラフで実質値（現在の価値）を表示する際に使用します。
+                  </Form.Text>
+                </Form.Group>
+              </Col>
+
+              <Col md={6}>
+                <Form.Group className="mb-3">
+                  <Form.Label>無リスク金利 (%/年)</Form.Label>
+                  <Form.Control
+                    type="number"
+                    value={formData.riskFreeRate}
+                    onChange={handleChange('riskFreeRate')}
+                    step={0.01}
+                    required
+                  />
+                  <Form.Text className="text-muted">
+                    預金や個人向け国債など、投資していない部分の利回り。現金のまま置いておく場合は0。
+                  </Form.Text>
+                </Form.Group>
+              </Col>
+            </Row>
+
+            <hr className="my-4" />
+
+            <Row>
+              <Col md={6}>
+                <Form.Group className="mb-3">
+                  <Form.Label>信託報酬 (%/年)</Form.Label>
+                  <Form.Control
+                    type="number"
+                    value={formData.expenseRatio}
+                    onChange={handleChange('expenseRatio')}
+                    min={0}
+                    step={0.01}
+                    required
+                  />
+                  <Form.Text className="text-muted">
+                    投資信託の運用管理費用。想定リターンからこの分を差し引いて計算します。
+                  </Form.Text>
+                </Form.Group>
+              </Col>
+
+              <Col md={6}>
+                <Form.Group className="mb-3">
+                  <Form.Label>NISAで保有する金額 (円)</Form.Label>
+                  <Form.Control
+                    type="number"
+                    value={formData.nisaAllowance}
+                    onChange={handleChange('nisaAllowance')}
+                    min={0}
+                    step={10000}
+                    required
+                  />
+                  <Form.Text className="text-muted">
+                    投資元本のうちNISA（非課税）で保有する金額。これを超える部分の利益には{CAPITAL_GAINS_TAX_RATE}%の税金がかかります。新NISAの生涯非課税保有限度額は1,800万円です。
+                  </Form.Text>
+                </Form.Group>
+              </Col>
+            </Row>
+
             <div className="d-flex gap-2">
               <Button variant="primary" type="submit">
                 設定を保存
@@ -367,18 +580,42 @@ export default function SettingsPage (): React.JSX.Element {
 
       <Card className="mt-4">
         <Card.Body>
-          <h5>現在の設定プレビュー</h5>
+          <h5>現在の設定プレビュー（{activeProfile.name}）</h5>
           <ul className="mb-0">
             <li>資産総額: {settings.totalAssets.toLocaleString()} 円</li>
             <li>投資比率: {settings.investmentRatio}%</li>
+            {settings.investmentRatio > PERCENTAGE_DIVISOR && (
+              <li>借入: 借入金利 {settings.borrowingRate}% / 年、最低維持率 {settings.maintenanceMargin}%</li>
+            )}
             <li>投資額: {savedInvestmentAmount.toLocaleString()} 円</li>
             <li>確率閾値: {settings.probabilityThreshold}%</li>
             <li>期待リターン: {settings.expectedReturn}% / 年</li>
             <li>リスク: {settings.risk}% / 年</li>
+            {settings.currency.foreignShare > ZERO && (
+              <li>
+                為替: 外貨建て {settings.currency.foreignShare}%（為替リスク {settings.currency.fxRisk}% / 年、相関 {settings.currency.fxCorrelation}、ヘッジ {settings.currency.hedgeRatio}%・コスト {settings.currency.hedgeCost}% / 年）
+                → 円ベース: 期待リターン {savedYenReturnAndRisk.expectedReturn.toFixed(DECIMAL_TWO)}% / 年、リスク {savedYenReturnAndRisk.risk.toFixed(DECIMAL_TWO)}% / 年
+              </li>
+            )}
+            <li>積立: {contributionFrequencyLabels[settings.contributionFrequency]} {settings.contributionAmount.toLocaleString()} 円（増加率 {settings.contributionGrowthRate}% / 年）</li>
+            <li>物価上昇率: {settings.inflationRate}% / 年</li>
+            <li>無リスク金利: {settings.riskFreeRate}% / 年</li>
+            <li>信託報酬: {settings.expenseRatio}% / 年</li>
+            <li>NISAで保有する金額: {settings.nisaAllowance.toLocaleString()} 円</li>
           </ul>
         </Card.Body>
       </Card>
 
+      <SettingsTransferCard
+        settings={settings}
+        profiles={profiles}
+        activeProfile={activeProfile}
+        getAllProfileSettings={getAllProfileSettings}
+        hasUnsavedChanges={hasUnsavedChanges}
+        onApply={updateSettings}
+        onImportProfiles={importProfiles}
+      />
+
       <Modal
         modalIsOpen={isResetModalOpen}
         closeModal={handleResetCancel}
@@ -387,7 +624,7 @@ export default function SettingsPage (): React.JSX.Element {
         <div className="p-4">
           <h4 className="mb-3">設定をリセットしますか？</h4>
           <p className="mb-4">
-            すべての設定がデフォルト値に戻ります。この操作は取り消せません。
+            プロファイル「{activeProfile.name}」のすべての設定がデフォルト値に戻ります。この操作は取り消せません。
           </p>
           <div className="d-flex gap-2 justify-content-end">
             <Button variant="secondary" onClick={handleResetCancel}>
@@ -32,6 +32,11 @@ const terms: Term[] = [
     title: '95%信頼区間',
     description: '95%信頼区間とは、将来の資産額が95%の確率で収まる範囲を示します。正規分布を仮定すると、平均±1.96標準偏差の範囲が95%信頼区間となります。例えば、10年後の資産の平均が200万円、標準偏差が50万円の場合、95%信頼区間は約102万円〜298万円となります。つまり、95%の確率でこの範囲内に資産額が収まり、残りの5%（上下各2.5%）の確率で範囲外になることを意味します。投資の不確実性を理解するための重要な指標です。'
   },
+  {
+    id: 'expected-shortfall',
+    title: '期待ショートフォール（CVaR）',
+    description: '期待ショートフォール（Expected Shortfall、条件付きVaR・CVaRとも呼ばれます）とは、資産額が確率閾値による最悪ケース（パーセンタイル点）を下回った場合に、平均してどこまで下がるかを示す指標です。最悪ケースは「下位10%に入るかどうかの境目」の1点しか表しませんが、期待ショートフォールは「下位10%に入ってしまったときの平均的な資産額」を表すため、境目の先にどれだけ深い損失が潜んでいるかが分かります。例えば、10年後の資産の下位10%点が150万円でも、下位10%の平均が120万円であれば、最悪ケースを下回った場合は平均して120万円程度まで減ることを意味します。t分布のように裾の重い分布モデルでは、最悪ケースが同じでも期待ショートフォールはより低くなります。このアプリケーションでは、対数正規分布の場合は解析的に、その他の分布モデルの場合は数値積分で計算しています。'
+  },
   {
     id: 'mpt',
     title: 'MPT（現代ポートフォリオ理論）',
@@ -8,6 +8,7 @@ import { BsGearFill } from 'react-icons/bs'
 
 import pages from '@/pages'
 import setting from '@/setting'
+import { useSettings } from '@/contexts/SettingsContext'
 
 interface Props {
   currentPage: string | null
@@ -15,6 +16,7 @@ interface Props {
 
 function Menu (props: Props): React.JSX.Element {
   const { currentPage } = props
+  const { activeProfile } = useSettings()
 
   const [menuOpen, setMenuOpen] = useState<boolean>(false)
 
@@ -35,6 +37,14 @@ function Menu (props: Props): React.JSX.Element {
   return (
     <>
       <div id='Menu' className={menuOpen ? 'on' : ''}>
+        <Link
+          href='/settings/'
+          className='ActiveProfile'
+          title='選択中のプロファイル（設定ページで切り替え）'
+          onClick={handleMenuClose}
+        >
+          👤&nbsp;{activeProfile.name}
+        </Link>
         {pages.map((page, index: number) => (
           <Link
             key={index}
@@ -0,0 +1,189 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import Link from 'next/link'
+import { Card, Form, Table } from 'react-bootstrap'
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+} from 'chart.js'
+import { Scatter } from 'react-chartjs-2'
+
+import {
+  calculateCapitalMarketLine,
+  calculateCapitalMarketLinePoint
+} from '@/utils/riskFreeAsset'
+import { calculateSharpeRatio } from '@/utils/efficientFrontier'
+import {
+  calculateExpectedTotalAssets,
+  calculateWorstCaseTotalAssets,
+  type SleepLineParams
+} from '@/utils/sleepLineSolver'
+
+// Chart.jsの登録
+ChartJS.register(
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+)
+
+const ZERO = 0
+const ONE = 1
+const DECIMAL_FRACTION_DIGITS = 0
+const DECIMAL_TWO_DIGITS = 2
+const CHART_HEIGHT = '300px'
+const LINE_POINT_RADIUS = 3
+const CURRENT_POINT_RADIUS = 8
+const BORDER_WIDTH = 2
+const CML_DATASET_INDEX = 0
+const PERCENTAGE_DIVISOR = 100
+const TABLE_RATIO_STEP = 25
+
+interface ChartClickElement {
+  datasetIndex: number
+  index: number
+}
+
+interface TooltipContext {
+  parsed: { x: number | null, y: number | null }
+}
+
+interface Props {
+  params: SleepLineParams
+  onSelect: (investmentRatio: number) => void
+}
+
+export default function CapitalMarketLineCard (props: Props): React.JSX.Element {
+  const { params, onSelect } = props
+  const { investmentRatio, expectedReturn, risk, years, riskFreeRate = ZERO } = params
+
+  const linePoints = useMemo(() => calculateCapitalMarketLine(expectedReturn, risk, riskFreeRate), [expectedReturn, risk, riskFreeRate])
+  const current = calculateCapitalMarketLinePoint(investmentRatio, expectedReturn, risk, riskFreeRate)
+  const sharpeRatio = calculateSharpeRatio({ expectedReturn, risk }, riskFreeRate)
+
+  // 代表的な投資比率と現在の投資比率について、投資期間後の資産全体の期待値と最悪ケースを計算
+  const rows = useMemo(() => (
+    Array.from({ length: PERCENTAGE_DIVISOR / TABLE_RATIO_STEP + ONE }, (_, i) => i * TABLE_RATIO_STEP)
+      .concat(investmentRatio % TABLE_RATIO_STEP !== ZERO ? [investmentRatio] : [])
+      .sort((a, b) => a - b)
+      .map(ratio => ({
+        ...calculateCapitalMarketLinePoint(ratio, expectedReturn, risk, riskFreeRate),
+        expectedTotalAssets: calculateExpectedTotalAssets({ ...params, investmentRatio: ratio }),
+        worstCaseTotalAssets: calculateWorstCaseTotalAssets({ ...params, investmentRatio: ratio })
+      }))
+  ), [params, investmentRatio, expectedReturn, risk, riskFreeRate])
+
+  const chartData = {
+    datasets: [
+      {
+        label: '資本市場線',
+        data: linePoints.map(point => ({ x: point.risk, y: point.expectedReturn })),
+        borderColor: 'rgb(75, 192, 192)',
+        backgroundColor: 'rgba(75, 192, 192, 0.5)',
+        showLine: true,
+        borderWidth: BORDER_WIDTH,
+        pointRadius: LINE_POINT_RADIUS
+      },
+      {
+        label: `現在の投資比率（${investmentRatio}%）`,
+        data: [{ x: current.risk, y: current.expectedReturn }],
+        backgroundColor: 'rgb(0, 0, 255)',
+        pointStyle: 'triangle',
+        pointRadius: CURRENT_POINT_RADIUS
+      }
+    ]
+  }
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    onClick: (_event: unknown, elements: ChartClickElement[]) => {
+      // 資本市場線上の点をクリックした場合はその投資比率を選択
+      const lineElement = elements.find(element => element.datasetIndex === CML_DATASET_INDEX)
+      if (lineElement !== undefined) {
+        onSelect(linePoints[lineElement.index].investmentRatio)
+      }
+    },
+    plugins: {
+      legend: {
+        position: 'top' as const
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipContext) => {
+            const { parsed: { x: pointRisk, y: pointReturn } } = context
+            return `リスク ${(pointRisk ?? ZERO).toFixed(DECIMAL_TWO_DIGITS)}% / リターン ${(pointReturn ?? ZERO).toFixed(DECIMAL_TWO_DIGITS)}%`
+          }
+        }
+      }
+    },
+    scales: {
+      x: {
+        type: 'linear' as const,
+        min: ZERO,
+        title: {
+          display: true,
+          text: 'リスク (標準偏差 %/年)'
+        }
+      },
+      y: {
+        type: 'linear' as const,
+        title: {
+          display: true,
+          text: '期待リターン (%/年)'
+        }
+      }
+    }
+  }
+
+  const formatCurrency = (value: number): string => value.toLocaleString('ja-JP', { maximumFractionDigits: DECIMAL_FRACTION_DIGITS })
+
+  return (
+    <Card className="mb-4">
+      <Card.Body>
+        <h5>投資比率とリスク・リターン（資本市場線）</h5>
+        <p>
+          資産全体のうち、投資していない部分を無リスク金利 {riskFreeRate}% / 年で運用する場合、投資比率を変えたときのリスクとリターンは直線（資本市場線）の上を動きます。
+          <Link href="/words?q=tobin-separation" style={{ textDecoration: 'none' }}>トービンの分離定理</Link>のとおり、投資比率を下げるとリスクとリターンが同じ割合で小さくなり、リスクあたりのリターン（シャープレシオ {sharpeRatio.toFixed(DECIMAL_TWO_DIGITS)}）は変わりません。
+        </p>
+        <div style={{ height: CHART_HEIGHT }}>
+          <Scatter data={chartData} options={chartOptions} />
+        </div>
+        <Table striped bordered responsive size="sm" className="mt-3">
+          <thead>
+            <tr>
+              <th>投資比率</th>
+              <th>期待リターン</th>
+              <th>リスク</th>
+              <th>{years}年後の資産全体の期待値</th>
+              <th>{years}年後の資産全体の最悪ケース</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.investmentRatio} className={row.investmentRatio === investmentRatio ? 'table-primary' : ''}>
+                <td>{row.investmentRatio}%</td>
+                <td>{row.expectedReturn.toFixed(DECIMAL_TWO_DIGITS)}% / 年</td>
+                <td>{row.risk.toFixed(DECIMAL_TWO_DIGITS)}% / 年</td>
+                <td>{formatCurrency(row.expectedTotalAssets)} 円</td>
+                <td>{formatCurrency(row.worstCaseTotalAssets)} 円</td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+        <Form.Text className="text-muted d-block">
+          ※ グラフの点をクリックすると、その投資比率をスライダーに反映します。<br />
+          ※ 毎年投資比率を保つものとした年率のリターンとリスクです。資産全体の金額は名目値・税引前で、最悪ケースは選択中の分布モデルと確率閾値で計算しています。
+        </Form.Text>
+      </Card.Body>
+    </Card>
+  )
+}
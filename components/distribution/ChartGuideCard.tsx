@@ -0,0 +1,119 @@
+'use client'
+
+import React from 'react'
+import { Card, Table } from 'react-bootstrap'
+
+import { createTableHtml } from '@/utils/pdfReport'
+
+/**
+ * グラフの線の説明
+ */
+export interface ChartGuideEntry {
+  label: string
+  color: string
+  dashed: boolean
+  description: string
+}
+
+export const chartGuideEntries: ChartGuideEntry[] = [
+  {
+    label: '損益分岐点',
+    color: 'rgb(255, 0, 0)',
+    dashed: false,
+    description: '投資元本（初期投資額 + 積立累計額）の位置。この線より左側は損失、右側は利益を示します。'
+  },
+  {
+    label: '期待リターン',
+    color: 'rgb(0, 0, 255)',
+    dashed: false,
+    description: '期待される平均的な結果。最も起こりやすい資産額を示します。'
+  },
+  {
+    label: '税引後の分布',
+    color: 'rgb(255, 159, 64)',
+    dashed: true,
+    description: '投資期間の終わりにすべて売却し、利益に課税された後の資産額の分布。損益分岐点より右側が税金の分だけ左に縮みます。'
+  },
+  {
+    label: '過去データのブートストラップ',
+    color: 'rgb(153, 102, 255)',
+    dashed: false,
+    description: '過去の実際の月次リターンをつなぎ合わせてシミュレーションした資産額のヒストグラム（表示を選んだ場合のみ）。±3σの線より外側にどれだけはみ出すかで、実際の暴落とモデルの違いがわかります。'
+  },
+  {
+    label: '±1σ (標準偏差)',
+    color: 'rgb(0, 128, 0)',
+    dashed: true,
+    description: '2本の濃い緑の破線の間に約68%の確率で結果が収まります。'
+  },
+  {
+    label: '±2σ (標準偏差)',
+    color: 'rgb(0, 200, 0)',
+    dashed: true,
+    description: '2本の緑の破線の間に約95%の確率で結果が収まります。'
+  },
+  {
+    label: '±3σ (標準偏差)',
+    color: 'rgb(255, 255, 0)',
+    dashed: true,
+    description: '2本の黄色の破線の間に約99.7%の確率で結果が収まります。'
+  }
+]
+
+/**
+ * PDFレポート用の「グラフの見方」の表のHTMLを生成
+ * @param entries - グラフの線の説明
+ * @returns 表のHTML
+ */
+export function createChartGuideReportHtml (entries: ChartGuideEntry[] = chartGuideEntries): string {
+  return createTableHtml(['線の種類', '説明'], entries.map(entry => [
+    `
+      <div style="display: flex; align-items: center;">
+        <div style="width: 40px; height: 3px; ${entry.dashed ? `background-color: transparent; border-top: 3px dashed ${entry.color};` : `background-color: ${entry.color};`} margin-right: 10px;"></div>
+        ${entry.label}
+      </div>
+    `,
+    entry.description
+  ]))
+}
+
+interface Props {
+  entries?: ChartGuideEntry[]
+}
+
+export default function ChartGuideCard ({ entries = chartGuideEntries }: Props): React.JSX.Element {
+  return (
+    <Card className="mb-4">
+      <Card.Body>
+        <h5>グラフの見方</h5>
+        <Table striped bordered>
+          <thead>
+            <tr>
+              <th>線の種類</th>
+              <th>説明</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={entry.label}>
+                <td>
+                  <div style={{ display: 'flex', alignItems: 'center' }}>
+                    <div style={{
+                      width: '40px',
+                      height: '3px',
+                      backgroundColor: entry.dashed ? 'transparent' : entry.color,
+                      ...(entry.dashed ? { borderTop: `3px dashed ${entry.color}` } : {}),
+                      marginRight: '10px'
+                    }}></div>
+                    {entry.label}
+                  </div>
+                </td>
+                <td>{entry.description}</td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+      </Card.Body>
+    </Card>
+  )
+}
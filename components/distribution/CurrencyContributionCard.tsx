@@ -0,0 +1,133 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import Link from 'next/link'
+import { Card, Form, Table } from 'react-bootstrap'
+
+import {
+  calculateCurrencyVarianceShare,
+  calculateYenReturnAndRisk,
+  type CurrencySettings
+} from '@/utils/currency'
+import { calculateNetExpectedReturn } from '@/utils/taxAndCost'
+import { calculateWorstCase, type WorstCaseParams } from '@/utils/worstCase'
+
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const FULL_HEDGE_RATIO = 100
+const DECIMAL_FRACTION_DIGITS = 0
+const DECIMAL_ONE_DIGIT = 1
+const DECIMAL_TWO_DIGITS = 2
+
+interface Props {
+  params: WorstCaseParams // 最悪ケースの計算に用いるパラメータ（expectedReturn と risk は使用しない）
+  expectedReturn: number // 現地通貨建ての想定リターン（信託報酬控除前）
+  risk: number // 現地通貨建ての想定リスク
+  expenseRatio: number // 信託報酬 (%/年)
+  currency: CurrencySettings
+}
+
+interface CurrencyScenarioRow {
+  label: string
+  expectedReturn: number // 信託報酬控除後の円ベースの期待リターン
+  risk: number // 円ベースのリスク
+  worstCaseAssets: number // 最悪ケース（投資部分）
+  totalWorstCase: number // 最悪ケース（資産全体）
+}
+
+const formatCurrency = (value: number): string => value.toLocaleString('ja-JP', { maximumFractionDigits: DECIMAL_FRACTION_DIGITS })
+
+const getChangeSign = (value: number): string => (value >= ZERO ? '+' : '')
+
+const getColorStyle = (value: number): { color: string } => ({
+  color: value > ZERO ? 'green' : value < ZERO ? 'red' : 'black'
+})
+
+export default function CurrencyContributionCard (props: Props): React.JSX.Element {
+  const { params, expectedReturn, risk, expenseRatio, currency } = props
+
+  // 為替リスクなし・現在の設定・すべて為替ヘッジした場合を同じ条件で比較
+  const rows = useMemo<CurrencyScenarioRow[]>(() => {
+    const scenarios = [
+      { label: '為替リスクなし（現地通貨建て）', currency: { ...currency, foreignShare: ZERO } },
+      { label: '現在の設定', currency },
+      { label: 'すべて為替ヘッジした場合', currency: { ...currency, hedgeRatio: FULL_HEDGE_RATIO } }
+    ]
+    return scenarios.map(scenario => {
+      const yen = calculateYenReturnAndRisk(expectedReturn, risk, scenario.currency)
+      const netExpectedReturn = calculateNetExpectedReturn(yen.expectedReturn, expenseRatio)
+      const worstCase = calculateWorstCase({ ...params, expectedReturn: netExpectedReturn, risk: yen.risk })
+      return {
+        label: scenario.label,
+        expectedReturn: netExpectedReturn,
+        risk: yen.risk,
+        worstCaseAssets: worstCase.worstCaseAssets,
+        totalWorstCase: worstCase.worstCaseAssets + worstCase.nonInvestmentAssets
+      }
+    })
+  }, [params, expectedReturn, risk, expenseRatio, currency])
+
+  const [withoutCurrency] = rows
+  const currencyVarianceShare = calculateCurrencyVarianceShare(risk, currency)
+  // 為替と資産の相関が負の場合は、為替変動がリスクを下げることがある
+  const yenRisk = calculateYenReturnAndRisk(expectedReturn, risk, currency).risk
+  const tailPercentage = (PERCENTAGE_DIVISOR - params.probabilityThreshold).toFixed(DECIMAL_ONE_DIGIT)
+
+  return (
+    <Card className="mb-4">
+      <Card.Body>
+        <h5>💱 為替リスクの寄与</h5>
+        {currency.foreignShare <= ZERO
+          ? (
+            <p className="mb-0">
+              外貨建ての割合が0%のため、為替リスクは考慮していません。
+              <Link href="/settings" style={{ textDecoration: 'none' }}>設定</Link>で外貨建ての割合・為替リスク・為替ヘッジを設定すると、最悪ケースのうち為替による部分を確認できます。
+            </p>
+            )
+          : (
+            <>
+              <p>
+                {yenRisk < risk
+                  ? `外貨建て ${currency.foreignShare}%（為替ヘッジ ${currency.hedgeRatio}%）の為替変動は資産と逆方向に動くため（相関 ${currency.fxCorrelation}）、リスクを ${(risk - yenRisk).toFixed(DECIMAL_TWO_DIGITS)} ポイント下げています。`
+                  : `外貨建て ${currency.foreignShare}%（為替ヘッジ ${currency.hedgeRatio}%）の為替変動により、分散の ${(currencyVarianceShare * PERCENTAGE_DIVISOR).toFixed(DECIMAL_ONE_DIGIT)}% が生じています。`}
+                為替リスクがない場合と比べて、{params.years}年後の最悪ケース（下位{tailPercentage}%点）がどれだけ変わるかを示します。
+              </p>
+              <Table striped bordered responsive size="sm">
+                <thead>
+                  <tr>
+                    <th>条件</th>
+                    <th>期待リターン（円ベース）</th>
+                    <th>リスク（円ベース）</th>
+                    <th>最悪ケース（投資部分）</th>
+                    <th>最悪ケース（資産全体）</th>
+                    <th>為替による差</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => {
+                    const difference = row.worstCaseAssets - withoutCurrency.worstCaseAssets
+                    return (
+                      <tr key={row.label}>
+                        <td>{row.label}</td>
+                        <td>{row.expectedReturn.toFixed(DECIMAL_TWO_DIGITS)}%</td>
+                        <td>{row.risk.toFixed(DECIMAL_TWO_DIGITS)}%</td>
+                        <td>{formatCurrency(row.worstCaseAssets)} 円</td>
+                        <td>{formatCurrency(row.totalWorstCase)} 円</td>
+                        <td style={getColorStyle(difference)}>
+                          {getChangeSign(difference)}{formatCurrency(difference)} 円
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </Table>
+              <Form.Text className="text-muted d-block">
+                ※ 期待リターンは信託報酬と為替ヘッジのコストを差し引いた値です。為替レートの期待変化率は0としています。<br />
+                ※ 最悪ケースは選択中の分布モデル・表示基準・自己相関で計算しています。為替による差は、為替リスクなしの場合の最悪ケース（投資部分）との差額です。
+              </Form.Text>
+            </>
+            )}
+      </Card.Body>
+    </Card>
+  )
+}
@@ -0,0 +1,79 @@
+'use client'
+
+import React from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Alert, Button, Card, Col, Row } from 'react-bootstrap'
+import { toast } from 'react-toastify'
+
+import type { InvestmentSettings } from '@/contexts/SettingsContext'
+import { contributionFrequencyLabels } from '@/utils/contributions'
+import { settingLabels } from '@/utils/settingsSchema'
+import { SHARE_PATH, type SharedScenario } from '@/utils/shareLink'
+
+const ZERO = 0
+const DECIMAL_FRACTION_DIGITS = 0
+const DECIMAL_TWO_DIGITS = 2
+
+interface Props {
+  settings: InvestmentSettings // 表示中の設定（共有リンクの場合は共有された設定）
+  investmentAmount: number // 投資額 (円)
+  netExpectedReturn: number // 信託報酬控除後の期待リターン (%/年)
+  yenRisk: number // 為替を含む円ベースのリスク (%/年)
+  sharedScenario: SharedScenario | null // 共有リンクで開いた場合のシナリオ
+  onAdopt: (settings: InvestmentSettings) => void // 共有された設定を自分の設定に取り込む
+  onReturn: () => void // 自分の設定に戻る（共有された投資期間・スライダー・分布モデルなどの値を破棄する）
+}
+
+const formatCurrency = (value: number): string => value.toLocaleString('ja-JP', { maximumFractionDigits: DECIMAL_FRACTION_DIGITS })
+
+export default function CurrentSettingsCard (props: Props): React.JSX.Element {
+  const { settings, investmentAmount, netExpectedReturn, yenRisk, sharedScenario, onAdopt, onReturn } = props
+  const router = useRouter()
+
+  // 取り込んだ後は共有リンクのクエリを外し、自分の設定で表示する（スライダーの値はそのまま）
+  const handleAdopt = (): void => {
+    onAdopt(settings)
+    router.replace(SHARE_PATH)
+    toast.success('共有された設定を自分の設定に取り込みました。')
+  }
+
+  return (
+    <Card className="mb-4" border={sharedScenario !== null ? 'warning' : undefined}>
+      <Card.Body>
+        <h5>{sharedScenario !== null ? '🔗 共有されたシナリオ（読み取り専用）' : '現在の設定'}</h5>
+        {sharedScenario !== null && (
+          <Alert variant="warning">
+            共有リンクの設定・投資期間・スライダー・分布モデルなどの値で表示しています。あなたの設定は変更されていません。
+            読み取り専用のため、このページの値は変更できません。値を変えて試す場合は、自分の設定に取り込むか戻ってください。
+            {sharedScenario.isNewerVersion && (
+              <><br />新しいバージョンで作成されたリンクのため、このバージョンで扱えない項目はデフォルト値を使用しています。</>
+            )}
+            {sharedScenario.repairedKeys.length > ZERO && (
+              <><br />次の項目は不正な値だったため、デフォルト値を使用しています: {sharedScenario.repairedKeys.map(key => settingLabels[key]).join('、')}</>
+            )}
+            <div className="d-flex flex-wrap gap-2 mt-2">
+              <Button variant="warning" size="sm" onClick={handleAdopt}>
+                この設定を自分の設定に取り込む
+              </Button>
+              <Link href={SHARE_PATH} className="btn btn-outline-secondary btn-sm" onClick={onReturn}>
+                自分の設定に戻る
+              </Link>
+            </div>
+          </Alert>
+        )}
+        <Row>
+          <Col md={6}>
+            <ul className="mb-0">
+              <li>投資額: {formatCurrency(investmentAmount)} 円</li>
+              <li>期待リターン: {settings.expectedReturn}% / 年（信託報酬 {settings.expenseRatio}% 控除後: {netExpectedReturn.toFixed(DECIMAL_TWO_DIGITS)}% / 年）</li>
+              <li>リスク: {settings.risk}% / 年{settings.currency.foreignShare > ZERO && `（為替を含む円ベース: ${yenRisk.toFixed(DECIMAL_TWO_DIGITS)}% / 年）`}</li>
+              <li>無リスク金利（非投資部分の利回り）: {settings.riskFreeRate}% / 年</li>
+              <li>積立: {contributionFrequencyLabels[settings.contributionFrequency]} {formatCurrency(settings.contributionAmount)} 円（増加率 {settings.contributionGrowthRate}% / 年）</li>
+            </ul>
+          </Col>
+        </Row>
+      </Card.Body>
+    </Card>
+  )
+}
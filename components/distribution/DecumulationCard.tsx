@@ -0,0 +1,206 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import { Card, Form, Row, Col, Table } from 'react-bootstrap'
+
+import {
+  simulateDecumulation,
+  withdrawalMethodLabels,
+  type DecumulationParams,
+  type WithdrawalMethod
+} from '@/utils/decumulation'
+import type { StandardizedDistribution } from '@/utils/normalDistribution'
+
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const DEFAULT_WITHDRAWAL_RATE = 4
+const DECIMAL_FRACTION_DIGITS = 0
+const DECIMAL_ONE_DIGIT = 1
+const TABLE_YEAR_INTERVAL = 5
+const YEN_INPUT_STEP = 10_000
+const PERCENT_INPUT_STEP = 0.1
+
+const withdrawalMethods = Object.keys(withdrawalMethodLabels) as WithdrawalMethod[]
+
+type BaseParams = Pick<DecumulationParams, 'totalAssets' | 'investmentRatio' | 'expectedReturn' | 'risk' | 'years' | 'riskFreeRate'>
+
+interface Props {
+  params: BaseParams
+  inflationRate: number // 設定の物価上昇率 (%/年)
+  shockDistribution: StandardizedDistribution
+}
+
+// 表に表示する年（5年ごと + 最終年）
+function getTableYears (years: number): number[] {
+  const tableYears: number[] = []
+  for (let year = TABLE_YEAR_INTERVAL; year < years; year += TABLE_YEAR_INTERVAL) {
+    tableYears.push(year)
+  }
+  tableYears.push(years)
+  return tableYears
+}
+
+const formatCurrency = (value: number): string => value.toLocaleString('ja-JP', { maximumFractionDigits: DECIMAL_FRACTION_DIGITS })
+
+const formatProbability = (value: number): string => (value * PERCENTAGE_DIVISOR).toFixed(DECIMAL_ONE_DIGIT)
+
+export default function DecumulationCard (props: Props): React.JSX.Element {
+  const { params, inflationRate: defaultInflationRate, shockDistribution } = props
+
+  const [withdrawalMethod, setWithdrawalMethod] = useState<WithdrawalMethod>('fixed')
+  const [tempWithdrawalAmount, setTempWithdrawalAmount] = useState<number | null>(null)
+  const [withdrawalRate, setWithdrawalRate] = useState(DEFAULT_WITHDRAWAL_RATE)
+  const [inflationIndexed, setInflationIndexed] = useState(false)
+  const [tempInflationRate, setTempInflationRate] = useState<number | null>(null)
+
+  // 引き出し額が未入力の場合は資産総額の4%とする
+  const withdrawalAmount = tempWithdrawalAmount ?? params.totalAssets * DEFAULT_WITHDRAWAL_RATE / PERCENTAGE_DIVISOR
+  // 物価上昇率は設定の値を既定とする
+  const inflationRate = tempInflationRate ?? defaultInflationRate
+
+  const result = useMemo(() => simulateDecumulation(
+    { ...params, withdrawalMethod, withdrawalAmount, withdrawalRate, inflationIndexed, inflationRate },
+    { shockDistribution }
+  ), [params, shockDistribution, withdrawalMethod, withdrawalAmount, withdrawalRate, inflationIndexed, inflationRate])
+
+  const handleWithdrawalMethodChange = (e: React.ChangeEvent<HTMLSelectElement>): void => {
+    setWithdrawalMethod(e.target.value as WithdrawalMethod)
+  }
+
+  const handleWithdrawalAmountChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    const value = parseFloat(e.target.value)
+    setTempWithdrawalAmount(isNaN(value) ? ZERO : value)
+  }
+
+  const handleWithdrawalRateChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    const value = parseFloat(e.target.value)
+    setWithdrawalRate(isNaN(value) ? ZERO : value)
+  }
+
+  const handleInflationIndexedChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    setInflationIndexed(e.target.checked)
+  }
+
+  const handleInflationRateChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    const value = parseFloat(e.target.value)
+    setTempInflationRate(isNaN(value) ? ZERO : value)
+  }
+
+  return (
+    <Card className="mb-4">
+      <Card.Body>
+        <h5>🏦 取り崩しチェック</h5>
+        <p>
+          現在の資産総額（{formatCurrency(params.totalAssets)} 円）から毎年引き出しを行った場合に、{params.years}年以内に資産が尽きる確率を計算します。
+          投資部分は投資比率 {params.investmentRatio}% を保つように毎年調整するものとします。
+        </p>
+        <Row>
+          <Col md={6}>
+            <Form.Group className="mb-3">
+              <Form.Label>引き出し方法</Form.Label>
+              <Form.Select value={withdrawalMethod} onChange={handleWithdrawalMethodChange}>
+                {withdrawalMethods.map(method => (
+                  <option key={method} value={method}>{withdrawalMethodLabels[method]}</option>
+                ))}
+              </Form.Select>
+            </Form.Group>
+          </Col>
+          <Col md={6}>
+            {withdrawalMethod === 'fixed'
+              ? (
+                <Form.Group className="mb-3">
+                  <Form.Label>年間の引き出し額 (円)</Form.Label>
+                  <Form.Control
+                    type="number"
+                    value={withdrawalAmount}
+                    onChange={handleWithdrawalAmountChange}
+                    min={0}
+                    step={YEN_INPUT_STEP}
+                  />
+                </Form.Group>
+                )
+              : (
+                <Form.Group className="mb-3">
+                  <Form.Label>年間の引き出し率 (%)</Form.Label>
+                  <Form.Control
+                    type="number"
+                    value={withdrawalRate}
+                    onChange={handleWithdrawalRateChange}
+                    min={0}
+                    max={100}
+                    step={PERCENT_INPUT_STEP}
+                  />
+                  <Form.Text className="text-muted">
+                    毎年、期初の資産額に対してこの割合を引き出します。
+                  </Form.Text>
+                </Form.Group>
+                )}
+          </Col>
+        </Row>
+        {withdrawalMethod === 'fixed' && (
+          <Row>
+            <Col md={6}>
+              <Form.Check
+                type="checkbox"
+                id="decumulation-inflation-indexed"
+                className="mb-3"
+                label="引き出し額を物価上昇に合わせて増やす"
+                checked={inflationIndexed}
+                onChange={handleInflationIndexedChange}
+              />
+            </Col>
+            <Col md={6}>
+              <Form.Group className="mb-3">
+                <Form.Label>物価上昇率 (%/年)</Form.Label>
+                <Form.Control
+                  type="number"
+                  value={inflationRate}
+                  onChange={handleInflationRateChange}
+                  step={PERCENT_INPUT_STEP}
+                  disabled={!inflationIndexed}
+                />
+              </Form.Group>
+            </Col>
+          </Row>
+        )}
+        <ul>
+          <li>
+            {params.years}年以内に資産が尽きる確率: <strong>{formatProbability(result.ruinProbability)}%</strong>
+          </li>
+          <li>
+            資産が尽きる年の中央値:{' '}
+            <strong>
+              {result.medianDepletionYear !== null
+                ? `${result.medianDepletionYear}年目`
+                : `${params.years}年以内には尽きない`}
+            </strong>
+          </li>
+          <li>{params.years}年後の資産額（中央値）: {formatCurrency(result.medianTerminalBalance)} 円</li>
+          <li>引き出し総額（中央値）: {formatCurrency(result.medianTotalWithdrawn)} 円</li>
+        </ul>
+        <Table striped bordered size="sm">
+          <thead>
+            <tr>
+              <th>経過年数</th>
+              <th>資産が尽きている確率</th>
+            </tr>
+          </thead>
+          <tbody>
+            {getTableYears(params.years).map(year => (
+              <tr key={year}>
+                <td>{year}年</td>
+                <td>{formatProbability(result.cumulativeRuinProbabilities[year - ONE])}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+        <Form.Text className="text-muted d-block">
+          ※ 毎年期初に引き出しを行い、残りを1年間運用するものとしてモンテカルロ法で計算しています（パス数 2,000、選択中の分布モデルを使用）。<br />
+          ※ 定率の引き出しでは資産が0になることはありませんが、相場の下落に合わせて引き出し額も減少します。<br />
+          ※ 非投資部分は年 {params.riskFreeRate}%（無リスク金利、投資比率が100%を超える場合は借入金利）で増えるものとしています（利息への課税は考慮していません）。
+        </Form.Text>
+      </Card.Body>
+    </Card>
+  )
+}
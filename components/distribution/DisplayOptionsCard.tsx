@@ -0,0 +1,70 @@
+'use client'
+
+import React from 'react'
+import { Card, Form } from 'react-bootstrap'
+
+import { calculateDeflator, valueBasisLabels, type ValueBasis } from '@/utils/inflation'
+
+const DECIMAL_TWO_DIGITS = 2
+const RADIX = 10
+
+const valueBases = Object.keys(valueBasisLabels) as ValueBasis[]
+
+interface Props {
+  years: number // 投資期間
+  valueBasis: ValueBasis // 金額の表示（名目値・実質値）
+  inflationRate: number // 物価上昇率 (%/年)
+  onYearsChange: (years: number) => void
+  onValueBasisChange: (valueBasis: ValueBasis) => void
+}
+
+export default function DisplayOptionsCard (props: Props): React.JSX.Element {
+  const { years, valueBasis, inflationRate, onYearsChange, onValueBasisChange } = props
+
+  const handleYearsChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    onYearsChange(parseInt(e.target.value, RADIX))
+  }
+
+  const handleValueBasisChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    onValueBasisChange(e.target.value as ValueBasis)
+  }
+
+  return (
+    <Card className="mb-4">
+      <Card.Body>
+        <Form.Group className="mb-3">
+          <Form.Label>投資期間 (年): {years}年</Form.Label>
+          <Form.Range
+            min={1}
+            max={50}
+            step={1}
+            value={years}
+            onChange={handleYearsChange}
+          />
+          <Form.Text className="text-muted">
+            スライダーを動かして投資期間を変更できます。
+          </Form.Text>
+        </Form.Group>
+        <Form.Group>
+          <Form.Label className="me-3">金額の表示</Form.Label>
+          {valueBases.map(basis => (
+            <Form.Check
+              key={basis}
+              inline
+              type="radio"
+              id={`value-basis-${basis}`}
+              name="value-basis"
+              label={valueBasisLabels[basis]}
+              value={basis}
+              checked={valueBasis === basis}
+              onChange={handleValueBasisChange}
+            />
+          ))}
+          <Form.Text className="text-muted d-block">
+            実質値では、物価上昇率 {inflationRate}% / 年 が続くものとして、{years}年後の金額を現在の価値に割り引いて表示します（{years}年後の物価は現在の{calculateDeflator(inflationRate, years).toFixed(DECIMAL_TWO_DIGITS)}倍）。
+          </Form.Text>
+        </Form.Group>
+      </Card.Body>
+    </Card>
+  )
+}
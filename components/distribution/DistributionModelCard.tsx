@@ -0,0 +1,81 @@
+'use client'
+
+import React from 'react'
+import { Card, Form } from 'react-bootstrap'
+
+import {
+  distributionModelLabels,
+  type DistributionModelSettings,
+  type DistributionModelType
+} from '@/utils/distributionModels'
+
+const modelTypes = Object.keys(distributionModelLabels) as DistributionModelType[]
+
+interface Props {
+  value: DistributionModelSettings
+  onChange: (value: DistributionModelSettings) => void
+}
+
+export default function DistributionModelCard (props: Props): React.JSX.Element {
+  const { value, onChange } = props
+
+  const handleTypeChange = (e: React.ChangeEvent<HTMLSelectElement>): void => {
+    onChange({ ...value, type: e.target.value as DistributionModelType })
+  }
+
+  const handleDegreesOfFreedomChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    onChange({ ...value, degreesOfFreedom: parseFloat(e.target.value) })
+  }
+
+  const handleSkewnessChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    onChange({ ...value, skewness: parseFloat(e.target.value) })
+  }
+
+  return (
+    <Card className="mb-4">
+      <Card.Body>
+        <Form.Group className="mb-3">
+          <Form.Label>リターンの分布モデル</Form.Label>
+          <Form.Select value={value.type} onChange={handleTypeChange}>
+            {modelTypes.map(type => (
+              <option key={type} value={type}>{distributionModelLabels[type]}</option>
+            ))}
+          </Form.Select>
+          <Form.Text className="text-muted">
+            いずれのモデルも対数リターンの平均と標準偏差は同じで、分布の形（裾の厚さ・歪み）だけが異なります。
+          </Form.Text>
+        </Form.Group>
+        {value.type === 'studentT' && (
+          <Form.Group className="mb-3">
+            <Form.Label>自由度: {value.degreesOfFreedom}</Form.Label>
+            <Form.Range
+              min={3}
+              max={30}
+              step={1}
+              value={value.degreesOfFreedom}
+              onChange={handleDegreesOfFreedomChange}
+            />
+            <Form.Text className="text-muted">
+              自由度が小さいほど裾が厚くなり、極端な暴落・急騰が起こりやすくなります。
+            </Form.Text>
+          </Form.Group>
+        )}
+        {value.type === 'skewNormal' && (
+          <Form.Group className="mb-3">
+            <Form.Label>歪み（形状パラメータ）: {value.skewness}</Form.Label>
+            <Form.Range
+              min={-10}
+              max={10}
+              step={0.5}
+              value={value.skewness}
+              onChange={handleSkewnessChange}
+            />
+            <Form.Text className="text-muted">
+              マイナスにすると下落側の裾が長くなり、大きな下落が起こりやすくなります。
+            </Form.Text>
+          </Form.Group>
+        )}
+      </Card.Body>
+    </Card>
+  )
+}
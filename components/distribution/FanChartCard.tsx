@@ -0,0 +1,225 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import { Card, Form } from 'react-bootstrap'
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler
+} from 'chart.js'
+import annotationPlugin from 'chartjs-plugin-annotation'
+import { Line } from 'react-chartjs-2'
+
+import { calculateFanChart } from '@/utils/fanChart'
+import { createWorstCaseRows, type WorstCaseParams } from '@/utils/worstCase'
+
+// Chart.jsの登録
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler,
+  annotationPlugin
+)
+
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const TWO = 2
+const MAX_YEARS = 50 // 投資期間のスライダーの上限と同じ
+const MEDIAN_PERCENTILE = 50
+const DECIMAL_FRACTION_DIGITS = 0
+const DECIMAL_ONE_DIGIT = 1
+const CHART_HEIGHT = '400px'
+const BORDER_WIDTH = 2
+const BAND_BORDER_WIDTH = 0
+const POINT_RADIUS = 0
+const DASH_SEGMENT_LENGTH = 5
+const DASH_PATTERN: [number, number] = [DASH_SEGMENT_LENGTH, DASH_SEGMENT_LENGTH]
+const WIDE_BAND_COVERAGE = 95
+const MIDDLE_BAND_COVERAGE = 80
+const NARROW_BAND_COVERAGE = 50
+const FIRST_LINE_DATASET_INDEX = 6 // 帯（下限・上限 × 3）の後に中央値などの線を並べる
+
+// 外側から順に描画する帯（中央値を中心とした区間）
+const bands = [
+  { coverage: WIDE_BAND_COVERAGE, color: 'rgba(75, 192, 192, 0.15)' },
+  { coverage: MIDDLE_BAND_COVERAGE, color: 'rgba(75, 192, 192, 0.3)' },
+  { coverage: NARROW_BAND_COVERAGE, color: 'rgba(75, 192, 192, 0.45)' }
+]
+
+// 帯の下限・上限のパーセンタイル
+const getBandPercentiles = (coverage: number): [number, number] => [
+  (PERCENTAGE_DIVISOR - coverage) / TWO,
+  (PERCENTAGE_DIVISOR + coverage) / TWO
+]
+
+const fanChartPercentiles = bands.flatMap(band => getBandPercentiles(band.coverage)).concat(MEDIAN_PERCENTILE)
+
+interface TooltipContext {
+  dataIndex: number
+  datasetIndex: number
+  formattedValue: string
+  dataset: { label?: string }
+}
+
+interface ChartClickElement {
+  index: number
+}
+
+interface LegendItem {
+  text: string
+}
+
+interface Props {
+  params: WorstCaseParams
+  years: number // 現在の投資期間
+  isReal: boolean // 実質値で表示するかどうか
+  onSelectYears: (years: number) => void
+}
+
+const formatCurrency = (value: number): string => value.toLocaleString('ja-JP', { maximumFractionDigits: DECIMAL_FRACTION_DIGITS })
+
+const formatPercentage = (value: number, base: number): string => ((value / base) * PERCENTAGE_DIVISOR).toFixed(DECIMAL_ONE_DIGIT)
+
+const getChangeSign = (value: number): string => (value >= ZERO ? '+' : '')
+
+export default function FanChartCard (props: Props): React.JSX.Element {
+  const { params, years, isReal, onSelectYears } = props
+
+  const fanChart = useMemo(() => calculateFanChart(params, MAX_YEARS, fanChartPercentiles), [params])
+  const tailPercentage = (PERCENTAGE_DIVISOR - params.probabilityThreshold).toFixed(DECIMAL_ONE_DIGIT)
+
+  const bandDatasets = bands.flatMap(band => {
+    const [lower, upper] = getBandPercentiles(band.coverage)
+    const common = { borderWidth: BAND_BORDER_WIDTH, backgroundColor: band.color, pointRadius: POINT_RADIUS }
+    return [
+      { ...common, label: '', data: fanChart.map(point => point.percentiles[lower]), fill: false },
+      { ...common, label: `${band.coverage}%区間`, data: fanChart.map(point => point.percentiles[upper]), fill: '-1' }
+    ]
+  })
+
+  const chartData = {
+    labels: fanChart.map(point => `${point.year}年`),
+    datasets: [
+      ...bandDatasets,
+      {
+        label: '中央値',
+        data: fanChart.map(point => point.percentiles[MEDIAN_PERCENTILE]),
+        borderColor: 'rgb(0, 0, 255)',
+        borderWidth: BORDER_WIDTH,
+        pointRadius: POINT_RADIUS,
+        fill: false
+      },
+      {
+        label: `最悪ケース（下位${tailPercentage}%点）`,
+        data: fanChart.map(point => point.worstCase.worstCaseAssets),
+        borderColor: 'rgb(255, 0, 0)',
+        borderDash: DASH_PATTERN,
+        borderWidth: BORDER_WIDTH,
+        pointRadius: POINT_RADIUS,
+        fill: false
+      },
+      {
+        label: '損益分岐点（投資元本）',
+        data: fanChart.map(point => point.worstCase.totalContributions),
+        borderColor: 'rgb(128, 128, 128)',
+        borderWidth: BORDER_WIDTH,
+        pointRadius: POINT_RADIUS,
+        fill: false
+      }
+    ]
+  }
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      mode: 'index' as const,
+      intersect: false
+    },
+    onClick: (_event: unknown, elements: ChartClickElement[]) => {
+      // クリックした年を投資期間に反映
+      if (elements.length > ZERO) {
+        onSelectYears(fanChart[elements[ZERO].index].year)
+      }
+    },
+    plugins: {
+      legend: {
+        position: 'top' as const,
+        labels: {
+          // 帯の下限の凡例は表示しない
+          filter: (item: LegendItem) => item.text !== ''
+        }
+      },
+      title: {
+        display: true,
+        text: `投資部分のパーセンタイル点の推移（${isReal ? '実質値' : '名目値'}）`
+      },
+      annotation: {
+        annotations: {
+          yearsLine: {
+            type: 'line' as const,
+            xMin: years - ONE,
+            xMax: years - ONE,
+            borderColor: 'rgb(0, 0, 0)',
+            borderWidth: ONE,
+            borderDash: DASH_PATTERN
+          }
+        }
+      },
+      tooltip: {
+        // 帯は凡例と色で示し、ツールチップには中央値・最悪ケース・損益分岐点を表示する
+        filter: (context: TooltipContext) => context.datasetIndex >= FIRST_LINE_DATASET_INDEX,
+        callbacks: {
+          title: (context: TooltipContext[]) => `${fanChart[context[ZERO].dataIndex].year}年後`,
+          label: (context: TooltipContext) => `${context.dataset.label ?? ''}: ${context.formattedValue} 円`,
+          // 最悪ケースの表と同じ内容
+          afterBody: (context: TooltipContext[]) => createWorstCaseRows(fanChart[context[ZERO].dataIndex].worstCase).map(row => {
+            const change = row.value - row.principal
+            const shortfallChange = row.expectedShortfall - row.principal
+            return `${row.label}: ${formatCurrency(row.value)} 円（${getChangeSign(change)}${formatCurrency(change)} 円 / ${getChangeSign(change)}${formatPercentage(change, row.principal)}%）` +
+              ` / 期待ショートフォール ${formatCurrency(row.expectedShortfall)} 円（${getChangeSign(shortfallChange)}${formatPercentage(shortfallChange, row.principal)}%）`
+          })
+        }
+      }
+    },
+    scales: {
+      y: {
+        title: {
+          display: true,
+          text: isReal ? '投資資産額 (円・現在の価値)' : '投資資産額 (円)'
+        }
+      }
+    }
+  }
+
+  return (
+    <Card className="mb-4">
+      <Card.Body>
+        <h5>📊 年ごとの資産の広がり（ファンチャート）</h5>
+        <p>
+          1年後から{MAX_YEARS}年後までの投資部分の分布を、中央値と50% / 80% / 95%の区間で示します。
+          年にカーソルを合わせると、その年の最悪ケースの表と同じ値を表示します。
+        </p>
+        <div style={{ height: CHART_HEIGHT }}>
+          <Line data={chartData} options={chartOptions} />
+        </div>
+        <Form.Text className="text-muted d-block">
+          ※ グラフをクリックすると、その年を投資期間に反映します。黒の点線は現在の投資期間（{years}年）です。<br />
+          ※ 各区間・最悪ケースは選択中の分布モデルと確率閾値で計算しています。金額は税引前です（ツールチップの税引後の行を除く）。
+        </Form.Text>
+      </Card.Body>
+    </Card>
+  )
+}
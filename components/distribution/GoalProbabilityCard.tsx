@@ -0,0 +1,228 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import { Card, Form, Row, Col, Button } from 'react-bootstrap'
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+} from 'chart.js'
+import annotationPlugin from 'chartjs-plugin-annotation'
+import { Line } from 'react-chartjs-2'
+
+import {
+  calculateGoalProbabilityCurve,
+  findFirstYearAboveConfidence,
+  goalTargetLabels,
+  type GoalProbabilityParams,
+  type GoalTarget
+} from '@/utils/goalProbability'
+
+// Chart.jsの登録
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  annotationPlugin
+)
+
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const MAX_YEARS = 50 // 投資期間のスライダーの上限と同じ
+const DEFAULT_TARGET_MULTIPLIER = 2 // 目標金額の既定値（資産総額の何倍か）
+const DECIMAL_FRACTION_DIGITS = 0
+const DECIMAL_ONE_DIGIT = 1
+const YEN_INPUT_STEP = 1_000_000
+const PERCENT_INPUT_STEP = 1
+const CHART_HEIGHT = '300px'
+const BORDER_WIDTH = 2
+const POINT_RADIUS = 0
+const DASH_SEGMENT_LENGTH = 5
+const DASH_PATTERN: [number, number] = [DASH_SEGMENT_LENGTH, DASH_SEGMENT_LENGTH]
+
+const goalTargets = Object.keys(goalTargetLabels) as GoalTarget[]
+
+interface Props {
+  params: GoalProbabilityParams
+  years: number // 現在の投資期間
+  probabilityThreshold: number // 信頼水準の既定値 (%)
+  isReal: boolean // 実質値で判定するかどうか
+  onSelectYears: (years: number) => void
+}
+
+const formatCurrency = (value: number): string => value.toLocaleString('ja-JP', { maximumFractionDigits: DECIMAL_FRACTION_DIGITS })
+
+const formatProbability = (value: number): string => `${(value * PERCENTAGE_DIVISOR).toFixed(DECIMAL_ONE_DIGIT)}%`
+
+export default function GoalProbabilityCard (props: Props): React.JSX.Element {
+  const { params, years, probabilityThreshold, isReal, onSelectYears } = props
+
+  const [tempTargetAmount, setTempTargetAmount] = useState<number | null>(null)
+  const [target, setTarget] = useState<GoalTarget>('total')
+  const [tempConfidenceLevel, setTempConfidenceLevel] = useState<number | null>(null)
+
+  // 目標金額が未入力の場合は資産総額の2倍、信頼水準が未入力の場合は確率閾値とする
+  const targetAmount = tempTargetAmount ?? (params.initialAssets + params.nonInvestmentPrincipal) * DEFAULT_TARGET_MULTIPLIER
+  const confidenceLevel = tempConfidenceLevel ?? probabilityThreshold
+
+  const curve = useMemo(() => calculateGoalProbabilityCurve(params, targetAmount, target, MAX_YEARS), [params, targetAmount, target])
+  const firstYear = findFirstYearAboveConfidence(curve, confidenceLevel / PERCENTAGE_DIVISOR)
+  const currentPoint = curve.find(point => point.year === years)
+  const currentProbability = currentPoint?.probability ?? ZERO
+
+  const chartData = {
+    labels: curve.map(point => `${point.year}年`),
+    datasets: [
+      {
+        label: '目標金額の達成確率',
+        data: curve.map(point => point.probability * PERCENTAGE_DIVISOR),
+        borderColor: 'rgb(0, 128, 0)',
+        borderWidth: BORDER_WIDTH,
+        pointRadius: POINT_RADIUS
+      }
+    ]
+  }
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top' as const
+      },
+      title: {
+        display: true,
+        text: `${goalTargetLabels[target]}が ${formatCurrency(targetAmount)} 円以上になる確率の推移`
+      },
+      annotation: {
+        annotations: {
+          confidenceLine: {
+            type: 'line' as const,
+            yMin: confidenceLevel,
+            yMax: confidenceLevel,
+            borderColor: 'rgb(255, 0, 0)',
+            borderWidth: BORDER_WIDTH,
+            borderDash: DASH_PATTERN,
+            label: {
+              display: true,
+              content: `信頼水準 ${confidenceLevel}%`,
+              position: 'start' as const
+            }
+          },
+          yearsLine: {
+            type: 'line' as const,
+            xMin: years - ONE,
+            xMax: years - ONE,
+            borderColor: 'rgb(0, 0, 255)',
+            borderWidth: BORDER_WIDTH,
+            borderDash: DASH_PATTERN
+          }
+        }
+      }
+    },
+    scales: {
+      y: {
+        min: ZERO,
+        max: PERCENTAGE_DIVISOR,
+        title: {
+          display: true,
+          text: '達成確率 (%)'
+        }
+      }
+    }
+  }
+
+  const handleTargetAmountChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    const value = parseFloat(e.target.value)
+    setTempTargetAmount(isNaN(value) ? ZERO : value)
+  }
+
+  const handleTargetChange = (e: React.ChangeEvent<HTMLSelectElement>): void => {
+    setTarget(e.target.value as GoalTarget)
+  }
+
+  const handleConfidenceLevelChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    const value = parseFloat(e.target.value)
+    setTempConfidenceLevel(isNaN(value) ? ZERO : value)
+  }
+
+  return (
+    <Card className="mb-4">
+      <Card.Body>
+        <h5>🎯 目標金額の達成確率</h5>
+        <p>
+          目標金額を入力すると、一定の年数後に資産がその金額以上になる確率と、その確率が信頼水準を初めて上回る年を計算します。
+        </p>
+        <Row>
+          <Col md={4}>
+            <Form.Group className="mb-3">
+              <Form.Label>目標金額 (円{isReal ? '・現在の価値' : ''})</Form.Label>
+              <Form.Control
+                type="number"
+                value={targetAmount}
+                onChange={handleTargetAmountChange}
+                min={0}
+                step={YEN_INPUT_STEP}
+              />
+            </Form.Group>
+          </Col>
+          <Col md={4}>
+            <Form.Group className="mb-3">
+              <Form.Label>目標金額と比べる資産</Form.Label>
+              <Form.Select value={target} onChange={handleTargetChange}>
+                {goalTargets.map(option => (
+                  <option key={option} value={option}>{goalTargetLabels[option]}</option>
+                ))}
+              </Form.Select>
+            </Form.Group>
+          </Col>
+          <Col md={4}>
+            <Form.Group className="mb-3">
+              <Form.Label>信頼水準 (%)</Form.Label>
+              <Form.Control
+                type="number"
+                value={confidenceLevel}
+                onChange={handleConfidenceLevelChange}
+                min={0}
+                max={100}
+                step={PERCENT_INPUT_STEP}
+              />
+            </Form.Group>
+          </Col>
+        </Row>
+        <div className="alert alert-success" role="alert">
+          {years}年後に{goalTargetLabels[target]}が {formatCurrency(targetAmount)} 円以上になる確率は <strong>{formatProbability(currentProbability)}</strong> です。<br />
+          {firstYear === null
+            ? <>{MAX_YEARS}年以内に達成確率が {confidenceLevel}% を上回ることはありません。</>
+            : (
+              <>
+                達成確率が初めて {confidenceLevel}% を上回るのは <strong>{firstYear}年後</strong> です。
+                {firstYear !== years && (
+                  <Button variant="outline-success" size="sm" className="ms-2" onClick={() => { onSelectYears(firstYear) }}>
+                    投資期間を{firstYear}年にする
+                  </Button>
+                )}
+              </>
+              )}
+        </div>
+        <div style={{ height: CHART_HEIGHT }}>
+          <Line data={chartData} options={chartOptions} />
+        </div>
+        <Form.Text className="text-muted d-block">
+          ※ 定期積立を含めた投資部分を対数正規分布で近似して計算しています（分布モデルの選択は反映しません）。資産全体の場合、非投資部分は無リスク金利 {params.riskFreeRate}% / 年で運用するものとします。<br />
+          ※ 金額は{isReal ? '実質値（現在の価値）' : '名目値'}・税引前です。青の点線は現在の投資期間です。
+        </Form.Text>
+      </Card.Body>
+    </Card>
+  )
+}
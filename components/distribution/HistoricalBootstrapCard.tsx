@@ -0,0 +1,294 @@
+'use client'
+
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { Card, Form, Row, Col, Table, Alert, Button } from 'react-bootstrap'
+import { toast } from 'react-toastify'
+
+import setting from '@/setting'
+import { lognormalInverseCDF, type InvestmentDistributionParams } from '@/utils/normalDistribution'
+import { summarizeSimulation } from '@/utils/monteCarlo'
+import { assetClasses } from '@/utils/portfolio'
+import {
+  HISTORICAL_RETURNS_PATH,
+  calculateModelZScore,
+  calculatePortfolioLogReturns,
+  calculateRollingLogReturns,
+  getDatasetMonths,
+  parseHistoricalReturnsDataset,
+  parseHistoricalReturnsFile,
+  simulateBlockBootstrap,
+  type HistoricalReturnsDataset
+} from '@/utils/historicalBootstrap'
+
+const PERCENTAGE_DIVISOR = 100
+const MONTHS_PER_YEAR = 12
+const LOWER_CONFIDENCE_PERCENTILE = 2.5
+const UPPER_CONFIDENCE_PERCENTILE = 97.5
+const DECIMAL_FRACTION_DIGITS = 0
+const DECIMAL_ONE_DIGIT = 1
+const ONE_YEAR = 1
+const ZERO = 0
+const ONE = 1
+const RADIX = 10
+const EMPTY_STRING = ''
+
+const BLOCK_LENGTH_ONE_MONTH = 1
+const BLOCK_LENGTH_HALF_YEAR = 6
+const BLOCK_LENGTH_ONE_YEAR = 12
+const BLOCK_LENGTH_TWO_YEARS = 24
+const BLOCK_LENGTH_THREE_YEARS = 36
+
+const blockLengthOptions = [BLOCK_LENGTH_ONE_MONTH, BLOCK_LENGTH_HALF_YEAR, BLOCK_LENGTH_ONE_YEAR, BLOCK_LENGTH_TWO_YEARS, BLOCK_LENGTH_THREE_YEARS]
+
+// データセットの読み込み状態（読み込み中は undefined、読み込めなかった場合は null）
+type DatasetState = HistoricalReturnsDataset | null | undefined
+
+// シミュレーションできない場合の理由（できる場合は null）
+function getUnavailableReason (dataset: DatasetState, hasLogReturns: boolean): string | null {
+  if (dataset === undefined) {
+    return 'データを読み込んでいます...'
+  }
+  if (dataset === null) {
+    return '過去のリターンデータを読み込めませんでした。'
+  }
+  if (getDatasetMonths(dataset) === ZERO) {
+    return `データセットに月次リターンが収録されていません。指数の提供元などから入手した各資産クラスの月次リターンを public${HISTORICAL_RETURNS_PATH} と同じ形式のJSONファイルにまとめて読み込んでください。`
+  }
+  if (!hasLogReturns) {
+    const names = dataset.assets.map(asset => asset.name).join('・')
+    return `ポートフォリオの配分に、過去のデータが収録されていない資産クラスが含まれています。収録されている資産クラスは「${names}」です。設定ページでこれらの資産クラスだけの配分にするか、必要な資産クラスを含むJSONファイルを読み込んでください。`
+  }
+  return null
+}
+
+interface Props {
+  params: InvestmentDistributionParams
+  analytic: { mean: number, logMean: number, logStdDev: number }
+  probabilityThreshold: number
+  weights: number[] // ポートフォリオの配分 (%)
+  expenseRatio: number // 信託報酬 (%/年)、過去の平均のまま使う場合に差し引く
+  onResult: (terminalValues: number[] | null) => void // グラフに重ねる最終資産額（表示しない場合は null）
+}
+
+interface ComparisonRow {
+  label: string
+  analytic: number
+  bootstrap: number
+}
+
+const formatCurrency = (value: number): string => value.toLocaleString('ja-JP', { maximumFractionDigits: DECIMAL_FRACTION_DIGITS })
+
+// 累積対数リターンを増減率 (%) に変換
+const formatLogReturn = (logReturn: number): string => {
+  const change = (Math.exp(logReturn) - ONE) * PERCENTAGE_DIVISOR
+  return `${change >= ZERO ? '+' : ''}${change.toFixed(DECIMAL_ONE_DIGIT)}%`
+}
+
+export default function HistoricalBootstrapCard (props: Props): React.JSX.Element {
+  const { params, analytic, probabilityThreshold, weights, expenseRatio, onResult } = props
+
+  const [dataset, setDataset] = useState<DatasetState>(undefined)
+  const [isShownOnChart, setIsShownOnChart] = useState(false)
+  const [blockLength, setBlockLength] = useState(BLOCK_LENGTH_ONE_YEAR)
+  const [isRecentered, setIsRecentered] = useState(true)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // public/ 以下のデータセットを読み込む
+  useEffect(() => {
+    const basePath = setting.basePath ?? EMPTY_STRING
+    fetch(`${basePath}${HISTORICAL_RETURNS_PATH}`)
+      .then(async response => (await response.json()) as unknown)
+      .then((json: unknown) => { setDataset(parseHistoricalReturnsDataset(json)) })
+      .catch(() => { setDataset(null) })
+  }, [])
+
+  // ポートフォリオの配分で合成した月次の対数リターン（過去の平均のまま使う場合は信託報酬を差し引く）
+  const logReturns = useMemo(() => {
+    if (dataset === null || dataset === undefined) {
+      return null
+    }
+    const portfolioLogReturns = calculatePortfolioLogReturns(dataset, assetClasses, weights)
+    const monthlyCost = Math.log(ONE + expenseRatio / PERCENTAGE_DIVISOR) / MONTHS_PER_YEAR
+    return portfolioLogReturns?.map(value => value - monthlyCost) ?? null
+  }, [dataset, weights, expenseRatio])
+
+  const terminalValues = useMemo(() => (
+    logReturns === null
+      ? null
+      : simulateBlockBootstrap(params, logReturns, { blockLength, targetExpectedReturn: isRecentered ? params.expectedReturn : null })
+  ), [params, logReturns, blockLength, isRecentered])
+
+  // グラフに重ねる結果を親に渡す
+  useEffect(() => {
+    onResult(isShownOnChart ? terminalValues : null)
+  }, [isShownOnChart, terminalValues, onResult])
+
+  const worstCasePercentile = PERCENTAGE_DIVISOR - probabilityThreshold
+  const summary = useMemo(() => (
+    terminalValues === null
+      ? null
+      : summarizeSimulation(terminalValues, [LOWER_CONFIDENCE_PERCENTILE, UPPER_CONFIDENCE_PERCENTILE, worstCasePercentile])
+  ), [terminalValues, worstCasePercentile])
+
+  // 過去の実際の期間で最も悪かった1年間と投資期間
+  const worstPeriods = useMemo(() => {
+    if (logReturns === null) {
+      return []
+    }
+    return [ONE_YEAR, params.years].map(years => {
+      const rolling = calculateRollingLogReturns(logReturns, years * MONTHS_PER_YEAR)
+      return { years, worst: rolling.length > ZERO ? Math.min(...rolling) : null }
+    })
+  }, [logReturns, params.years])
+
+  const analyticPercentile = (percentile: number): number => (
+    lognormalInverseCDF(percentile / PERCENTAGE_DIVISOR, analytic.logMean, analytic.logStdDev)
+  )
+
+  const rows: ComparisonRow[] = summary === null
+    ? []
+    : [
+        { label: '平均（期待値）', analytic: analytic.mean, bootstrap: summary.mean },
+        { label: '中央値', analytic: Math.exp(analytic.logMean), bootstrap: summary.median },
+        { label: '95%信頼区間 下限', analytic: analyticPercentile(LOWER_CONFIDENCE_PERCENTILE), bootstrap: summary.percentiles[LOWER_CONFIDENCE_PERCENTILE] },
+        { label: '95%信頼区間 上限', analytic: analyticPercentile(UPPER_CONFIDENCE_PERCENTILE), bootstrap: summary.percentiles[UPPER_CONFIDENCE_PERCENTILE] },
+        { label: `最悪ケース（${probabilityThreshold}%）`, analytic: analyticPercentile(worstCasePercentile), bootstrap: summary.percentiles[worstCasePercentile] }
+      ]
+
+  // 利用者が用意したデータセットのファイルを読み込む
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = e.target.files?.[ZERO]
+    // 同じファイルを続けて選択できるように選択を解除
+    if (fileInputRef.current !== null) {
+      fileInputRef.current.value = ''
+    }
+    if (file === undefined) {
+      return
+    }
+    const text = await file.text().catch(() => null)
+    if (text === null) {
+      toast.error(`${file.name} を読み込めませんでした。`)
+      return
+    }
+    const loaded = parseHistoricalReturnsFile(text)
+    if (loaded === null || getDatasetMonths(loaded) === ZERO) {
+      toast.error('過去のリターンデータを読み込めませんでした。ファイルの形式を確認してください。')
+      return
+    }
+    setDataset(loaded)
+    toast.success(`${file.name} から${getDatasetMonths(loaded)}か月分のデータを読み込みました。`)
+  }
+
+  const handleShownOnChartChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    setIsShownOnChart(e.target.checked)
+  }
+
+  const handleBlockLengthChange = (e: React.ChangeEvent<HTMLSelectElement>): void => {
+    setBlockLength(parseInt(e.target.value, RADIX))
+  }
+
+  const handleRecenteredChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    setIsRecentered(e.target.checked)
+  }
+
+  const unavailableReason = getUnavailableReason(dataset, logReturns !== null)
+
+  return (
+    <Card className="mb-4">
+      <Card.Body>
+        <h5>📜 過去データによるブートストラップ</h5>
+        <p>
+          分布を仮定せずに、過去の実際の月次リターンから連続した期間（ブロック）を無作為に選んでつなぎ合わせ、{params.years}年後の資産をシミュレーションします。
+          暴落とその後の回復の続き方がそのまま反映されるため、対数正規分布の±3σとの違いを確認できます。
+        </p>
+        {unavailableReason !== null && <Alert variant="warning">{unavailableReason}</Alert>}
+        <div className="mb-3">
+          <Button variant="outline-primary" size="sm" onClick={() => { fileInputRef.current?.click() }}>
+            月次リターンのJSONファイルを読み込む
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="d-none"
+            onChange={(e) => { void handleFileChange(e) }}
+          />
+        </div>
+        {dataset !== null && dataset !== undefined && getDatasetMonths(dataset) > ZERO && (
+          <p className="text-muted">
+            収録データ: {dataset.startMonth} から {getDatasetMonths(dataset)}か月分（{(getDatasetMonths(dataset) / MONTHS_PER_YEAR).toFixed(DECIMAL_ONE_DIGIT)}年）/ {dataset.description}
+            （出典: {dataset.source !== EMPTY_STRING ? dataset.source : '未記載'}）
+          </p>
+        )}
+        <Row>
+          <Col md={4}>
+            <Form.Group className="mb-3">
+              <Form.Label>ブロックの長さ</Form.Label>
+              <Form.Select value={blockLength} onChange={handleBlockLengthChange}>
+                {blockLengthOptions.map(option => (
+                  <option key={option} value={option}>{option}か月</option>
+                ))}
+              </Form.Select>
+            </Form.Group>
+          </Col>
+          <Col md={8}>
+            <Form.Check
+              type="checkbox"
+              id="bootstrap-recentered"
+              className="mb-2"
+              label={`平均を想定リターン（${params.expectedReturn.toFixed(DECIMAL_ONE_DIGIT)}% / 年）に合わせる`}
+              checked={isRecentered}
+              onChange={handleRecenteredChange}
+            />
+            <Form.Check
+              type="checkbox"
+              id="bootstrap-shown-on-chart"
+              className="mb-3"
+              label="グラフに重ねて表示する"
+              checked={isShownOnChart}
+              onChange={handleShownOnChartChange}
+              disabled={terminalValues === null}
+            />
+          </Col>
+        </Row>
+        {summary !== null && (
+          <>
+            <Table striped bordered responsive>
+              <thead>
+                <tr>
+                  <th>指標</th>
+                  <th>対数正規分布</th>
+                  <th>ブートストラップ</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.label}>
+                    <td><strong>{row.label}</strong></td>
+                    <td>{formatCurrency(row.analytic)} 円</td>
+                    <td>{formatCurrency(row.bootstrap)} 円</td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+            <ul>
+              {worstPeriods.map(({ years, worst }) => (
+                <li key={years}>
+                  過去に実際にあった最悪の{years}年間:{' '}
+                  {worst === null
+                    ? 'データの期間が足りません'
+                    : `${formatLogReturn(worst)}（対数正規分布では平均から ${calculateModelZScore(worst, params.expectedReturn, params.risk, years).toFixed(DECIMAL_ONE_DIGIT)}σ）`}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+        <Form.Text className="text-muted d-block">
+          ※ 各資産クラスの月次リターンを設定ページのポートフォリオの配分で合成しています（毎月配分を保つものとします）。パス数は2,000です。<br />
+          ※ 平均を合わせない場合は過去の平均リターンから信託報酬を差し引いて使用します。最悪の期間は過去の実際のリターン（平均を合わせる前）です。<br />
+          ※ 過去に起きた値動きしか再現できないため、過去にない規模の暴落は含まれません。
+        </Form.Text>
+      </Card.Body>
+    </Card>
+  )
+}
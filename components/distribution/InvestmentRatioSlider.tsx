@@ -0,0 +1,79 @@
+'use client'
+
+import React from 'react'
+import { Alert, Badge, Form } from 'react-bootstrap'
+
+import { MAX_INVESTMENT_RATIO, calculateMarginCallDrop } from '@/utils/leverage'
+
+const PERCENTAGE_DIVISOR = 100
+const DECIMAL_FRACTION_DIGITS = 0
+const DECIMAL_ONE_DIGIT = 1
+const DECIMAL_TWO_DIGITS = 2
+// スライダーのつまみの幅（Bootstrap の $form-range-thumb-width）
+const RANGE_THUMB_WIDTH = '1rem'
+
+interface Props {
+  value: number // 投資比率 (%)
+  onChange: (value: number) => void
+  totalAssets: number // 資産総額（自己資金）
+  borrowingRate: number // 借入金利 (%/年)
+  maintenanceMargin: number // 最低維持率 (%)
+  recommendedRatio?: number // 危険回避度から求めた推奨の投資比率 (%)（指定した場合はスライダーの下に目印を表示）
+}
+
+const formatCurrency = (value: number): string => value.toLocaleString('ja-JP', { maximumFractionDigits: DECIMAL_FRACTION_DIGITS })
+
+export default function InvestmentRatioSlider (props: Props): React.JSX.Element {
+  const { value, onChange, totalAssets, borrowingRate, maintenanceMargin, recommendedRatio } = props
+
+  const isLeveraged = value > PERCENTAGE_DIVISOR
+  const investmentAmount = totalAssets * value / PERCENTAGE_DIVISOR
+  const borrowedAmount = investmentAmount - totalAssets
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    onChange(parseFloat(e.target.value))
+  }
+
+  return (
+    <Form.Group className="mb-3">
+      <Form.Label>
+        投資比率 (%): {value}%
+        {isLeveraged && <Badge bg="danger" className="ms-2">レバレッジ {(value / PERCENTAGE_DIVISOR).toFixed(DECIMAL_TWO_DIGITS)}倍</Badge>}
+      </Form.Label>
+      <Form.Range
+        min={0}
+        max={MAX_INVESTMENT_RATIO}
+        step={1}
+        value={value}
+        onChange={handleChange}
+      />
+      {recommendedRatio !== undefined && (
+        <div className="position-relative mb-2" style={{ height: '1.5rem' }}>
+          <span
+            className="position-absolute text-primary small text-nowrap"
+            style={{
+              left: `calc(${recommendedRatio / MAX_INVESTMENT_RATIO} * (100% - ${RANGE_THUMB_WIDTH}) + ${RANGE_THUMB_WIDTH} / 2)`,
+              transform: 'translateX(-50%)',
+              cursor: 'pointer'
+            }}
+            title="クリックすると推奨の投資比率を適用します"
+            onClick={() => { onChange(Math.round(recommendedRatio)) }}
+          >
+            ▲ 推奨 {recommendedRatio.toFixed(DECIMAL_ONE_DIGIT)}%
+          </span>
+        </div>
+      )}
+      <Form.Text className="text-muted">
+        スライダーを動かして投資比率を一時的に変更できます。この変更はこのページでのみ有効です。100%を超えると、超えた分を借り入れて投資します。
+      </Form.Text>
+      {isLeveraged && (
+        <Alert variant="danger" className="mt-2 mb-0">
+          <strong>⚠️ 借入による投資（レバレッジ）です。</strong><br />
+          資産総額を超える {formatCurrency(borrowedAmount)} 円を借入金利 {borrowingRate}% / 年で借り入れ、{formatCurrency(investmentAmount)} 円を投資します。
+          損益は自己資金に対して {(value / PERCENTAGE_DIVISOR).toFixed(DECIMAL_TWO_DIGITS)} 倍に拡大し、資産全体がマイナスになる可能性もあります。
+          評価額がおよそ {calculateMarginCallDrop(investmentAmount, borrowedAmount, maintenanceMargin).toFixed(DECIMAL_ONE_DIGIT)}% 下落すると最低維持率 {maintenanceMargin}% を下回り、追証や強制決済となります。
+        </Alert>
+      )}
+    </Form.Group>
+  )
+}
@@ -0,0 +1,153 @@
+'use client'
+
+import React, { useDeferredValue, useMemo } from 'react'
+import { Card, Form, Table } from 'react-bootstrap'
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler
+} from 'chart.js'
+import { Line } from 'react-chartjs-2'
+
+import {
+  calculateMarginCallDrop,
+  simulateMarginCalls,
+  type MarginCallParams
+} from '@/utils/leverage'
+import type { StandardizedDistribution } from '@/utils/normalDistribution'
+
+// Chart.jsの登録
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler
+)
+
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const DECIMAL_FRACTION_DIGITS = 0
+const DECIMAL_ONE_DIGIT = 1
+const DECIMAL_TWO_DIGITS = 2
+const CHART_HEIGHT = '300px'
+const BORDER_WIDTH = 2
+const POINT_RADIUS = 2
+const UPDATING_OPACITY = 0.5 // 再計算中の結果を薄く表示する不透明度
+
+interface TooltipContext {
+  formattedValue: string
+}
+
+interface Props {
+  params: MarginCallParams
+  shockDistribution: StandardizedDistribution
+}
+
+const formatCurrency = (value: number): string => value.toLocaleString('ja-JP', { maximumFractionDigits: DECIMAL_FRACTION_DIGITS })
+
+const formatProbability = (value: number): string => `${(value * PERCENTAGE_DIVISOR).toFixed(DECIMAL_ONE_DIGIT)}%`
+
+export default function MarginCallCard (props: Props): React.JSX.Element {
+  // シミュレーションは重いため、スライダーの操作を先に反映し、計算は後回しにする（計算中は前の結果を薄く表示する）
+  const params = useDeferredValue(props.params)
+  const shockDistribution = useDeferredValue(props.shockDistribution)
+  const isUpdating = params !== props.params || shockDistribution !== props.shockDistribution
+  const { initialAssets, borrowedAmount, borrowingRate, maintenanceMargin, years } = params
+
+  const result = useMemo(() => simulateMarginCalls(params, { shockDistribution }), [params, shockDistribution])
+  const leverage = initialAssets / (initialAssets - borrowedAmount)
+
+  const chartData = {
+    labels: result.cumulativeByYear.map((_, i) => `${i + ONE}年`),
+    datasets: [
+      {
+        label: 'その年までに追証となる確率',
+        data: result.cumulativeByYear.map(probability => probability * PERCENTAGE_DIVISOR),
+        borderColor: 'rgb(220, 53, 69)',
+        backgroundColor: 'rgba(220, 53, 69, 0.2)',
+        fill: true,
+        borderWidth: BORDER_WIDTH,
+        pointRadius: POINT_RADIUS
+      }
+    ]
+  }
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top' as const
+      },
+      title: {
+        display: true,
+        text: '追証が発生する確率（累積）'
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipContext) => `${context.formattedValue}%`
+        }
+      }
+    },
+    scales: {
+      y: {
+        min: ZERO,
+        title: {
+          display: true,
+          text: '確率 (%)'
+        }
+      }
+    }
+  }
+
+  return (
+    <Card className="mb-4" style={{ opacity: isUpdating ? UPDATING_OPACITY : ONE }}>
+      <Card.Body>
+        <h5>⚠️ 追証（強制決済）の確率</h5>
+        <p>
+          自己資金の {leverage.toFixed(DECIMAL_TWO_DIGITS)} 倍（借入 {formatCurrency(borrowedAmount)} 円、借入金利 {borrowingRate}% / 年）で投資した場合に、
+          評価額に対する自己資金の割合が最低維持率 {maintenanceMargin}% を下回る確率です。
+          投資期間の終わりの資産だけでなく、途中で一度でも下回れば追証となるため、期間中の確率のほうが高くなります。
+        </p>
+        <Table striped bordered responsive size="sm">
+          <tbody>
+            <tr>
+              <td>{years}年間に一度でも追証となる確率</td>
+              <td><strong>{formatProbability(result.pathProbability)}</strong></td>
+            </tr>
+            <tr>
+              <td>{years}年後の時点だけで判定した確率</td>
+              <td>{formatProbability(result.horizonProbability)}</td>
+            </tr>
+            <tr>
+              <td>追証となった場合の、発生までの年数（中央値）</td>
+              <td>{result.medianYearsToCall !== null ? `${result.medianYearsToCall.toFixed(DECIMAL_ONE_DIGIT)}年` : '-'}</td>
+            </tr>
+            <tr>
+              <td>すぐに追証となる評価額の下落率</td>
+              <td>{calculateMarginCallDrop(initialAssets, borrowedAmount, maintenanceMargin).toFixed(DECIMAL_ONE_DIGIT)}%</td>
+            </tr>
+          </tbody>
+        </Table>
+        <div style={{ height: CHART_HEIGHT }}>
+          <Line data={chartData} options={chartOptions} />
+        </div>
+        <Form.Text className="text-muted d-block">
+          ※ 月次の値動き（選択中の分布モデル）でパス数 2,000 のモンテカルロ法により計算しています。借入残高は借入金利で複利で増え、返済しないものとします。積立は自己資金で投資部分に加えます。<br />
+          ※ 最悪ケースの表や分布グラフは、追証による強制決済が起こらず持ち続けられた場合の値です。実際には強制決済で損失が確定し、その後の回復の恩恵を受けられません。
+        </Form.Text>
+      </Card.Body>
+    </Card>
+  )
+}
@@ -0,0 +1,254 @@
+'use client'
+
+import React, { useDeferredValue, useMemo } from 'react'
+import { Card, Form, Table } from 'react-bootstrap'
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler
+} from 'chart.js'
+import annotationPlugin from 'chartjs-plugin-annotation'
+import { Line } from 'react-chartjs-2'
+
+import {
+  calculateDrawdownExceedanceProbability,
+  simulateMaxDrawdowns,
+  summarizeMaxDrawdowns,
+  type MaxDrawdown,
+  type MaxDrawdownParams
+} from '@/utils/drawdown'
+import { calculateHistogramDensity } from '@/utils/historicalBootstrap'
+import type { StandardizedDistribution } from '@/utils/normalDistribution'
+
+// Chart.jsの登録
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler,
+  annotationPlugin
+)
+
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const TWO = 2
+const DECIMAL_FRACTION_DIGITS = 0
+const DECIMAL_ONE_DIGIT = 1
+const CHART_HEIGHT = '300px'
+const BORDER_WIDTH = 2
+const POINT_RADIUS = 0
+const DASH_SEGMENT_LENGTH = 5
+const DASH_PATTERN: [number, number] = [DASH_SEGMENT_LENGTH, DASH_SEGMENT_LENGTH]
+const HISTOGRAM_BIN_WIDTH = 2 // ヒストグラムの区間の幅 (%ポイント)
+const EXCEEDANCE_LEVEL_STEP = 10 // 下落率の確率を表示する水準の間隔 (%ポイント)
+const EXCEEDANCE_LEVEL_COUNT = 5
+const UPDATING_OPACITY = 0.5 // 再計算中の結果を薄く表示する不透明度
+
+// ヒストグラムの各区間の中央の下落率 (%)
+const binCenters = Array.from({ length: PERCENTAGE_DIVISOR / HISTOGRAM_BIN_WIDTH }, (_, i) => (i + ONE / TWO) * HISTOGRAM_BIN_WIDTH)
+
+// 確率を表示する下落率の水準 (10%, 20%, ...)
+const exceedanceLevels = Array.from({ length: EXCEEDANCE_LEVEL_COUNT }, (_, i) => (i + ONE) * EXCEEDANCE_LEVEL_STEP)
+
+interface TooltipContext {
+  dataIndex: number
+  formattedValue: string
+  dataset: { label?: string }
+}
+
+interface Props {
+  params: MaxDrawdownParams
+  probabilityThreshold: number
+  shockDistribution: StandardizedDistribution
+}
+
+const formatCurrency = (value: number): string => value.toLocaleString('ja-JP', { maximumFractionDigits: DECIMAL_FRACTION_DIGITS })
+
+const formatRate = (value: number): string => `${value.toFixed(DECIMAL_ONE_DIGIT)}%`
+
+// 最大下落率のヒストグラム（各区間に入る確率 %）
+const calculateRateHistogram = (drawdowns: MaxDrawdown[]): number[] => (
+  calculateHistogramDensity(drawdowns.map(drawdown => drawdown.rate), binCenters)
+    .map(density => density * HISTOGRAM_BIN_WIDTH * PERCENTAGE_DIVISOR)
+)
+
+// 下落率が含まれるヒストグラムの区間のインデックス
+const findBinIndex = (rate: number): number => Math.min(Math.floor(rate / HISTOGRAM_BIN_WIDTH), binCenters.length - ONE)
+
+// 確率閾値での最大下落率を示す線
+function createWorstRateLine (rate: number, color: string): Record<string, unknown> {
+  const index = findBinIndex(rate)
+  return {
+    type: 'line' as const,
+    xMin: index,
+    xMax: index,
+    borderColor: color,
+    borderWidth: BORDER_WIDTH,
+    borderDash: DASH_PATTERN
+  }
+}
+
+export default function MaxDrawdownCard (props: Props): React.JSX.Element {
+  const { probabilityThreshold } = props
+  // シミュレーションは重いため、スライダーの操作を先に反映し、計算は後回しにする（計算中は前の結果を薄く表示する）
+  const params = useDeferredValue(props.params)
+  const shockDistribution = useDeferredValue(props.shockDistribution)
+  const isUpdating = params !== props.params || shockDistribution !== props.shockDistribution
+
+  const drawdowns = useMemo(() => simulateMaxDrawdowns(params, { shockDistribution }), [params, shockDistribution])
+  const investmentSummary = useMemo(() => summarizeMaxDrawdowns(drawdowns.investment, probabilityThreshold), [drawdowns, probabilityThreshold])
+  const totalSummary = useMemo(() => summarizeMaxDrawdowns(drawdowns.total, probabilityThreshold), [drawdowns, probabilityThreshold])
+
+  const rows = [
+    { label: '中央値', investment: [investmentSummary.medianRate, investmentSummary.medianAmount], total: [totalSummary.medianRate, totalSummary.medianAmount] },
+    { label: `最悪ケース（${probabilityThreshold}%の確率でこれ以内）`, investment: [investmentSummary.worstRate, investmentSummary.worstAmount], total: [totalSummary.worstRate, totalSummary.worstAmount] }
+  ]
+
+  const chartData = {
+    labels: binCenters.map(center => `${center - HISTOGRAM_BIN_WIDTH / TWO}〜${center + HISTOGRAM_BIN_WIDTH / TWO}%`),
+    datasets: [
+      {
+        label: '投資部分',
+        data: calculateRateHistogram(drawdowns.investment),
+        borderColor: 'rgb(75, 192, 192)',
+        backgroundColor: 'rgba(75, 192, 192, 0.2)',
+        fill: true,
+        stepped: 'middle' as const,
+        borderWidth: BORDER_WIDTH,
+        pointRadius: POINT_RADIUS
+      },
+      {
+        label: '資産全体',
+        data: calculateRateHistogram(drawdowns.total),
+        borderColor: 'rgb(255, 99, 132)',
+        backgroundColor: 'rgba(255, 99, 132, 0.2)',
+        fill: true,
+        stepped: 'middle' as const,
+        borderWidth: BORDER_WIDTH,
+        pointRadius: POINT_RADIUS
+      }
+    ]
+  }
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top' as const
+      },
+      title: {
+        display: true,
+        text: `${params.years}年間の最大下落率の分布`
+      },
+      annotation: {
+        annotations: {
+          investmentWorstLine: createWorstRateLine(investmentSummary.worstRate, 'rgb(75, 192, 192)'),
+          totalWorstLine: createWorstRateLine(totalSummary.worstRate, 'rgb(255, 99, 132)')
+        }
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipContext) => `${context.dataset.label ?? ''}: ${context.formattedValue}%`
+        }
+      }
+    },
+    scales: {
+      x: {
+        title: {
+          display: true,
+          text: '途中の高値からの最大下落率'
+        }
+      },
+      y: {
+        min: ZERO,
+        title: {
+          display: true,
+          text: '確率 (%)'
+        }
+      }
+    }
+  }
+
+  return (
+    <Card className="mb-4" style={{ opacity: isUpdating ? UPDATING_OPACITY : ONE }}>
+      <Card.Body>
+        <h5>📉 途中の最大下落（最大ドローダウン）</h5>
+        <p>
+          {params.years}年後の金額だけでなく、途中で高値からどこまで下がり得るかを示します。
+          {probabilityThreshold}%の確率内での最悪ケースでは、資産全体が途中で一時的に{' '}
+          <strong style={{ color: 'red' }}>-{formatCurrency(totalSummary.worstAmount)} 円（-{formatRate(totalSummary.worstRate)}）</strong>
+          下がる可能性があります。
+        </p>
+        <div style={{ height: CHART_HEIGHT }}>
+          <Line data={chartData} options={chartOptions} />
+        </div>
+        <Table striped bordered responsive size="sm" className="mt-3">
+          <thead>
+            <tr>
+              <th rowSpan={2}>最大ドローダウン</th>
+              <th colSpan={2}>投資部分</th>
+              <th colSpan={2}>資産全体</th>
+            </tr>
+            <tr>
+              <th>下落率</th>
+              <th>下落額</th>
+              <th>下落率</th>
+              <th>下落額</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.label}>
+                <td>{row.label}</td>
+                {[...row.investment, ...row.total].map((value, index) => (
+                  <td key={index}>-{index % TWO === ZERO ? formatRate(value) : `${formatCurrency(value)} 円`}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+        <Table striped bordered responsive size="sm">
+          <thead>
+            <tr>
+              <th>途中で高値から下がる確率</th>
+              {exceedanceLevels.map(level => (
+                <th key={level}>{level}%以上</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <td>投資部分</td>
+              {exceedanceLevels.map(level => (
+                <td key={level}>{formatRate(calculateDrawdownExceedanceProbability(drawdowns.investment, level))}</td>
+              ))}
+            </tr>
+            <tr>
+              <td>資産全体</td>
+              {exceedanceLevels.map(level => (
+                <td key={level}>{formatRate(calculateDrawdownExceedanceProbability(drawdowns.total, level))}</td>
+              ))}
+            </tr>
+          </tbody>
+        </Table>
+        <Form.Text className="text-muted d-block">
+          ※ 投資部分は月次の値動き（選択中の分布モデル）、非投資部分は無リスク金利 {params.riskFreeRate}% / 年で運用し、パス数 2,000 のモンテカルロ法で計算しています。点線は確率閾値での最大下落率です。<br />
+          ※ 定期積立による増加も高値に含めます。下落率と下落額はそれぞれ最も大きくなった時点の値のため、同じ時点とは限りません。<br />
+          ※ 金額は名目値・税引前です。
+        </Form.Text>
+      </Card.Body>
+    </Card>
+  )
+}
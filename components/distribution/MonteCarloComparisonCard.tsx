@@ -0,0 +1,158 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import { Card, Form, Row, Col, Table } from 'react-bootstrap'
+
+import { lognormalInverseCDF, type InvestmentDistributionParams } from '@/utils/normalDistribution'
+import {
+  simulatePaths,
+  summarizeSimulation,
+  type SimulationFrequency
+} from '@/utils/monteCarlo'
+
+const PERCENTAGE_DIVISOR = 100
+const DEFAULT_NUM_PATHS = 2000
+const DEFAULT_SEED = 42
+const LOWER_CONFIDENCE_PERCENTILE = 2.5
+const UPPER_CONFIDENCE_PERCENTILE = 97.5
+const DECIMAL_FRACTION_DIGITS = 0
+const DECIMAL_ONE_DIGIT = 1
+const ZERO = 0
+const RADIX = 10
+
+const NUM_PATHS_SMALL = 1000
+const NUM_PATHS_LARGE = 5000
+const NUM_PATHS_HUGE = 10000
+
+const numPathsOptions = [NUM_PATHS_SMALL, DEFAULT_NUM_PATHS, NUM_PATHS_LARGE, NUM_PATHS_HUGE]
+
+interface Props {
+  params: InvestmentDistributionParams
+  probabilityThreshold: number
+  analytic: { mean: number, stdDev: number, logMean: number, logStdDev: number }
+}
+
+interface ComparisonRow {
+  label: string
+  analytic: number
+  simulated: number
+}
+
+export default function MonteCarloComparisonCard (props: Props): React.JSX.Element {
+  const { params, probabilityThreshold, analytic } = props
+
+  const [numPaths, setNumPaths] = useState(DEFAULT_NUM_PATHS)
+  const [frequency, setFrequency] = useState<SimulationFrequency>('yearly')
+  const [seed, setSeed] = useState(DEFAULT_SEED)
+
+  // 確率閾値に対応する下位パーセンタイル
+  const worstCasePercentile = PERCENTAGE_DIVISOR - probabilityThreshold
+
+  // 確率閾値を変えても再計算しないように、シミュレーションと要約を分けてメモ化する
+  const terminalValues = useMemo(() => (
+    simulatePaths(params, { numPaths, frequency, seed, storesPaths: false }).terminalValues
+  ), [params, numPaths, frequency, seed])
+
+  const summary = useMemo(() => (
+    summarizeSimulation(terminalValues, [LOWER_CONFIDENCE_PERCENTILE, UPPER_CONFIDENCE_PERCENTILE, worstCasePercentile])
+  ), [terminalValues, worstCasePercentile])
+
+  const analyticPercentile = (percentile: number): number => (
+    lognormalInverseCDF(percentile / PERCENTAGE_DIVISOR, analytic.logMean, analytic.logStdDev)
+  )
+
+  const rows: ComparisonRow[] = [
+    { label: '平均（期待値）', analytic: analytic.mean, simulated: summary.mean },
+    { label: '標準偏差', analytic: analytic.stdDev, simulated: summary.stdDev },
+    { label: '中央値', analytic: Math.exp(analytic.logMean), simulated: summary.median },
+    { label: '95%信頼区間 下限', analytic: analyticPercentile(LOWER_CONFIDENCE_PERCENTILE), simulated: summary.percentiles[LOWER_CONFIDENCE_PERCENTILE] },
+    { label: '95%信頼区間 上限', analytic: analyticPercentile(UPPER_CONFIDENCE_PERCENTILE), simulated: summary.percentiles[UPPER_CONFIDENCE_PERCENTILE] },
+    { label: `最悪ケース（${probabilityThreshold}%）`, analytic: analyticPercentile(worstCasePercentile), simulated: summary.percentiles[worstCasePercentile] }
+  ]
+
+  const handleNumPathsChange = (e: React.ChangeEvent<HTMLSelectElement>): void => {
+    setNumPaths(parseInt(e.target.value, RADIX))
+  }
+
+  const handleFrequencyChange = (e: React.ChangeEvent<HTMLSelectElement>): void => {
+    setFrequency(e.target.value as SimulationFrequency)
+  }
+
+  const handleSeedChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    const value = parseInt(e.target.value, RADIX)
+    setSeed(isNaN(value) ? ZERO : value)
+  }
+
+  const formatCurrency = (value: number): string => value.toLocaleString('ja-JP', { maximumFractionDigits: DECIMAL_FRACTION_DIGITS })
+
+  const formatDifference = (row: ComparisonRow): string => {
+    if (row.analytic === ZERO) {
+      return '-'
+    }
+    const difference = (row.simulated - row.analytic) / row.analytic * PERCENTAGE_DIVISOR
+    return `${difference >= ZERO ? '+' : ''}${difference.toFixed(DECIMAL_ONE_DIGIT)}%`
+  }
+
+  return (
+    <Card className="mb-4">
+      <Card.Body>
+        <h5>🎲 モンテカルロ・シミュレーションとの比較</h5>
+        <p>
+          同じ前提条件で資産推移のパスを乱数で生成し、解析解（対数正規分布）と一致するかを確認します。
+        </p>
+        <Row>
+          <Col md={4}>
+            <Form.Group className="mb-3">
+              <Form.Label>パス数</Form.Label>
+              <Form.Select value={numPaths} onChange={handleNumPathsChange}>
+                {numPathsOptions.map(option => (
+                  <option key={option} value={option}>{option.toLocaleString()}</option>
+                ))}
+              </Form.Select>
+            </Form.Group>
+          </Col>
+          <Col md={4}>
+            <Form.Group className="mb-3">
+              <Form.Label>時間刻み</Form.Label>
+              <Form.Select value={frequency} onChange={handleFrequencyChange}>
+                <option value="yearly">年次</option>
+                <option value="monthly">月次</option>
+              </Form.Select>
+            </Form.Group>
+          </Col>
+          <Col md={4}>
+            <Form.Group className="mb-3">
+              <Form.Label>シード値</Form.Label>
+              <Form.Control type="number" value={seed} onChange={handleSeedChange} step={1} />
+            </Form.Group>
+          </Col>
+        </Row>
+        <Table striped bordered responsive>
+          <thead>
+            <tr>
+              <th>指標</th>
+              <th>解析解</th>
+              <th>シミュレーション</th>
+              <th>差</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.label}>
+                <td><strong>{row.label}</strong></td>
+                <td>{formatCurrency(row.analytic)} 円</td>
+                <td>{formatCurrency(row.simulated)} 円</td>
+                <td>{formatDifference(row)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+        <Form.Text className="text-muted d-block">
+          ※ シミュレーション結果は乱数によるばらつきを含みます。パス数を増やすほど解析解に近づきます。同じシード値では常に同じ結果になります。<br />
+          ※ 定期積立がある場合、解析解は平均と分散を合わせた対数正規分布による近似です。年次のシミュレーションでは、その年の積立を期初にまとめて行います。<br />
+          ※ シミュレーションの最小値: {formatCurrency(summary.min)} 円 / 最大値: {formatCurrency(summary.max)} 円
+        </Form.Text>
+      </Card.Body>
+    </Card>
+  )
+}
@@ -0,0 +1,256 @@
+'use client'
+
+import React, { useDeferredValue, useMemo, useState } from 'react'
+import { Card, Form, Row, Col, Table } from 'react-bootstrap'
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+} from 'chart.js'
+import { Line } from 'react-chartjs-2'
+
+import {
+  calculateYearlyPercentiles,
+  rebalancingPolicyLabels,
+  simulateRebalancing,
+  type RebalancingParams,
+  type RebalancingPolicy
+} from '@/utils/rebalancing'
+import { summarizeSimulation } from '@/utils/monteCarlo'
+import type { StandardizedDistribution } from '@/utils/normalDistribution'
+
+// Chart.jsの登録
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+)
+
+const PERCENTAGE_DIVISOR = 100
+const MEDIAN_PERCENTILE = 50
+const ZERO = 0
+const DEFAULT_THRESHOLD_BAND = 5
+const DECIMAL_FRACTION_DIGITS = 0
+const DECIMAL_ONE_DIGIT = 1
+const PERCENT_INPUT_STEP = 1
+const CHART_HEIGHT = '300px'
+const BORDER_WIDTH = 2
+const POINT_RADIUS = 0
+const DASH_SEGMENT_LENGTH = 5
+const DASH_PATTERN: [number, number] = [DASH_SEGMENT_LENGTH, DASH_SEGMENT_LENGTH]
+const UPDATING_OPACITY = 0.5 // 再計算中の結果を薄く表示する不透明度
+const FULL_OPACITY = 1
+
+// 比較対象となる方針（リバランスなしは常に比較の基準として表示する）
+const comparedPolicies = (Object.keys(rebalancingPolicyLabels) as RebalancingPolicy[]).filter(policy => policy !== 'none')
+
+type BaseParams = Omit<RebalancingParams, 'policy' | 'thresholdBand'>
+
+interface Props {
+  params: BaseParams
+  probabilityThreshold: number
+  shockDistribution: StandardizedDistribution
+}
+
+const formatCurrency = (value: number): string => value.toLocaleString('ja-JP', { maximumFractionDigits: DECIMAL_FRACTION_DIGITS })
+
+const formatRatio = (value: number): string => `${value.toFixed(DECIMAL_ONE_DIGIT)}%`
+
+const formatCount = (value: number): string => `${value.toFixed(DECIMAL_ONE_DIGIT)}回`
+
+const formatYen = (value: number): string => `${formatCurrency(value)} 円`
+
+const getChangeSign = (value: number): string => (value >= ZERO ? '+' : '')
+
+export default function RebalancingCard (props: Props): React.JSX.Element {
+  const { params, probabilityThreshold, shockDistribution } = props
+
+  const [policy, setPolicy] = useState<RebalancingPolicy>('annual')
+  const [thresholdBand, setThresholdBand] = useState(DEFAULT_THRESHOLD_BAND)
+
+  // 下位(100-閾値)%点を最悪ケースとする
+  const worstPercentile = PERCENTAGE_DIVISOR - probabilityThreshold
+
+  // シミュレーションは重いため、入力の変更を先に反映し、計算は後回しにする（計算中は前の結果を薄く表示する）
+  const deferredParams = useDeferredValue(params)
+  const deferredShockDistribution = useDeferredValue(shockDistribution)
+  const deferredPolicy = useDeferredValue(policy)
+  const deferredThresholdBand = useDeferredValue(thresholdBand)
+  const isUpdating = deferredParams !== params || deferredShockDistribution !== shockDistribution ||
+    deferredPolicy !== policy || deferredThresholdBand !== thresholdBand
+
+  // 同じシードを使い、同じ相場の下でリバランスの有無を比較する
+  const withoutRebalancing = useMemo(() => simulateRebalancing(
+    { ...deferredParams, policy: 'none', thresholdBand: ZERO },
+    { shockDistribution: deferredShockDistribution }
+  ), [deferredParams, deferredShockDistribution])
+  const withRebalancing = useMemo(() => simulateRebalancing(
+    { ...deferredParams, policy: deferredPolicy, thresholdBand: deferredThresholdBand },
+    { shockDistribution: deferredShockDistribution }
+  ), [deferredParams, deferredPolicy, deferredThresholdBand, deferredShockDistribution])
+
+  const summaries = useMemo(() => [withoutRebalancing, withRebalancing].map(result => ({
+    ...summarizeSimulation(result.terminalValues, [worstPercentile]),
+    averageRebalanceCount: result.averageRebalanceCount,
+    averageFinalInvestmentRatio: result.averageFinalInvestmentRatio
+  })), [withoutRebalancing, withRebalancing, worstPercentile])
+  const [without, withPolicy] = summaries
+
+  const rows = [
+    { label: '平均', values: summaries.map(summary => summary.mean), format: formatYen },
+    { label: '中央値', values: summaries.map(summary => summary.median), format: formatYen },
+    { label: `最悪ケース（下位${worstPercentile.toFixed(DECIMAL_ONE_DIGIT)}%）`, values: summaries.map(summary => summary.percentiles[worstPercentile]), format: formatYen },
+    { label: '期間終了時の投資比率（平均）', values: summaries.map(summary => summary.averageFinalInvestmentRatio), format: formatRatio },
+    { label: 'リバランス回数（平均）', values: summaries.map(summary => summary.averageRebalanceCount), format: formatCount }
+  ]
+  const worstCaseDifference = withPolicy.percentiles[worstPercentile] - without.percentiles[worstPercentile]
+
+  const chartData = {
+    labels: withRebalancing.yearlyTotals.map((_, year) => `${year}年`),
+    datasets: [
+      {
+        label: `中央値（${rebalancingPolicyLabels[deferredPolicy]}）`,
+        data: calculateYearlyPercentiles(withRebalancing.yearlyTotals, MEDIAN_PERCENTILE),
+        borderColor: 'rgb(0, 0, 255)',
+        borderWidth: BORDER_WIDTH,
+        pointRadius: POINT_RADIUS
+      },
+      {
+        label: '中央値（リバランスなし）',
+        data: calculateYearlyPercentiles(withoutRebalancing.yearlyTotals, MEDIAN_PERCENTILE),
+        borderColor: 'rgb(128, 128, 128)',
+        borderWidth: BORDER_WIDTH,
+        pointRadius: POINT_RADIUS
+      },
+      {
+        label: `最悪ケース（${rebalancingPolicyLabels[deferredPolicy]}）`,
+        data: calculateYearlyPercentiles(withRebalancing.yearlyTotals, worstPercentile),
+        borderColor: 'rgb(255, 0, 0)',
+        borderDash: DASH_PATTERN,
+        borderWidth: BORDER_WIDTH,
+        pointRadius: POINT_RADIUS
+      },
+      {
+        label: '最悪ケース（リバランスなし）',
+        data: calculateYearlyPercentiles(withoutRebalancing.yearlyTotals, worstPercentile),
+        borderColor: 'rgb(128, 128, 128)',
+        borderDash: DASH_PATTERN,
+        borderWidth: BORDER_WIDTH,
+        pointRadius: POINT_RADIUS
+      }
+    ]
+  }
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top' as const
+      },
+      title: {
+        display: true,
+        text: '資産全体の推移'
+      }
+    },
+    scales: {
+      y: {
+        title: {
+          display: true,
+          text: '資産全体 (円)'
+        }
+      }
+    }
+  }
+
+  const handlePolicyChange = (e: React.ChangeEvent<HTMLSelectElement>): void => {
+    setPolicy(e.target.value as RebalancingPolicy)
+  }
+
+  const handleThresholdBandChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    const value = parseFloat(e.target.value)
+    setThresholdBand(isNaN(value) ? ZERO : value)
+  }
+
+  return (
+    <Card className="mb-4">
+      <Card.Body>
+        <h5>⚖️ リバランスの効果</h5>
+        <p>
+          投資比率 {params.investmentRatio}% で始めた資産全体を{params.years}年間運用したとき、値動きでずれた投資比率を元に戻す（リバランスする）場合としない場合を比べます。
+        </p>
+        <Row>
+          <Col md={6}>
+            <Form.Group className="mb-3">
+              <Form.Label>リバランスの方針</Form.Label>
+              <Form.Select value={policy} onChange={handlePolicyChange}>
+                {comparedPolicies.map(option => (
+                  <option key={option} value={option}>{rebalancingPolicyLabels[option]}</option>
+                ))}
+              </Form.Select>
+            </Form.Group>
+          </Col>
+          <Col md={6}>
+            <Form.Group className="mb-3">
+              <Form.Label>許容幅 (±%ポイント)</Form.Label>
+              <Form.Control
+                type="number"
+                value={thresholdBand}
+                onChange={handleThresholdBandChange}
+                min={0}
+                step={PERCENT_INPUT_STEP}
+                disabled={policy !== 'threshold'}
+              />
+              <Form.Text className="text-muted">
+                投資比率が {params.investmentRatio}% ± {thresholdBand}% の範囲を外れた月末にリバランスします。
+              </Form.Text>
+            </Form.Group>
+          </Col>
+        </Row>
+        <div style={{ opacity: isUpdating ? UPDATING_OPACITY : FULL_OPACITY }}>
+          <div style={{ height: CHART_HEIGHT }}>
+            <Line data={chartData} options={chartOptions} />
+          </div>
+          <Table striped bordered responsive size="sm" className="mt-3">
+            <thead>
+              <tr>
+                <th>{deferredParams.years}年後</th>
+                <th>リバランスなし</th>
+                <th>{rebalancingPolicyLabels[deferredPolicy]}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.label}>
+                  <td>{row.label}</td>
+                  {row.values.map((value, index) => (
+                    <td key={index}>{row.format(value)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+          <p className="mb-2">
+            {rebalancingPolicyLabels[deferredPolicy]}にすると、{probabilityThreshold}%の確率内での最悪ケースは{' '}
+            <strong>{getChangeSign(worstCaseDifference)}{formatCurrency(worstCaseDifference)} 円</strong>
+            変わります（安眠ラインへの影響）。
+          </p>
+        </div>
+        <Form.Text className="text-muted d-block">
+          ※ リスク資産は月次の値動き（選択中の分布モデル）、非投資部分は年 {params.riskFreeRate}%（無リスク金利、投資比率が100%を超える場合は借入金利）で増えるものとし、パス数 2,000 のモンテカルロ法で計算しています。<br />
+          ※ リバランスしない場合は値上がりしたリスク資産の比率が高まっていくため、上方向にも下方向にも振れ幅が大きくなります。<br />
+          ※ 定期積立、売買手数料、リバランス時の売却益への課税は考慮していません。金額は名目値・税引前です。
+        </Form.Text>
+      </Card.Body>
+    </Card>
+  )
+}
@@ -0,0 +1,317 @@
+'use client'
+
+import React, { useDeferredValue, useMemo, useState } from 'react'
+import { Card, Form, Row, Col, Table } from 'react-bootstrap'
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler
+} from 'chart.js'
+import { Line } from 'react-chartjs-2'
+
+import {
+  calculateCrisisProbability,
+  calculateLongRunMoments,
+  calibrateRegimeSwitching,
+  regimeSwitchingPresets,
+  simulateRegimeSwitching,
+  type Regime,
+  type RegimeSwitchingPreset,
+  type RegimeSwitchingSettings
+} from '@/utils/regimeSwitching'
+import {
+  calculateEmpiricalExpectedShortfall,
+  calculatePercentile,
+  simulatePaths,
+  summarizeSimulation
+} from '@/utils/monteCarlo'
+import { calculateMaxDrawdown, summarizeMaxDrawdowns } from '@/utils/drawdown'
+import { calculateHistogramDensity } from '@/utils/historicalBootstrap'
+import type { InvestmentDistributionParams } from '@/utils/normalDistribution'
+
+// Chart.jsの登録
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler
+)
+
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const LOWER_CONFIDENCE_PERCENTILE = 2.5
+const UPPER_CONFIDENCE_PERCENTILE = 97.5
+const CHART_LOWER_PERCENTILE = 0.5
+const CHART_UPPER_PERCENTILE = 99.5
+const HISTOGRAM_BINS = 60
+const DECIMAL_FRACTION_DIGITS = 0
+const DECIMAL_ONE_DIGIT = 1
+const DECIMAL_TWO_DIGITS = 2
+const PERCENT_INPUT_STEP = 0.1
+const CHART_HEIGHT = '300px'
+const BORDER_WIDTH = 2
+const POINT_RADIUS = 0
+const MAX_TICKS_LIMIT = 6
+const UPDATING_OPACITY = 0.5 // 再計算中の結果を薄く表示する不透明度
+
+const presets = Object.keys(regimeSwitchingPresets) as RegimeSwitchingPreset[]
+
+type RegimeKey = 'calm' | 'crisis'
+type TransitionKey = 'calmToCrisis' | 'crisisToCalm'
+
+interface Props {
+  params: InvestmentDistributionParams
+  probabilityThreshold: number
+}
+
+interface SimulationSummaryRow {
+  label: string
+  values: [number, number] // [独立な対数正規分布, レジーム・スイッチング]
+  isRate?: boolean // 下落率 (%) の行かどうか
+}
+
+const formatCurrency = (value: number): string => value.toLocaleString('ja-JP', { maximumFractionDigits: DECIMAL_FRACTION_DIGITS })
+
+const formatValue = (value: number, isRate = false): string => (
+  isRate ? `-${value.toFixed(DECIMAL_ONE_DIGIT)}%` : `${formatCurrency(value)} 円`
+)
+
+// 最終資産額の要約（パーセンタイル点・期待ショートフォール・最大ドローダウン）
+function summarizeTerminalValues (terminalValues: number[], worstPercentile: number): { sorted: number[], summary: ReturnType<typeof summarizeSimulation>, expectedShortfall: number } {
+  const sorted = [...terminalValues].sort((a, b) => a - b)
+  return {
+    sorted,
+    summary: summarizeSimulation(sorted, [LOWER_CONFIDENCE_PERCENTILE, UPPER_CONFIDENCE_PERCENTILE, worstPercentile]),
+    expectedShortfall: calculateEmpiricalExpectedShortfall(sorted, worstPercentile)
+  }
+}
+
+export default function RegimeSwitchingCard (props: Props): React.JSX.Element {
+  const { params, probabilityThreshold } = props
+
+  const [preset, setPreset] = useState<RegimeSwitchingPreset>('standard')
+  const [tempSettings, setTempSettings] = useState<RegimeSwitchingSettings | null>(null)
+
+  // 編集していない場合は、プリセットを設定の期待リターンとリスクに合わせたものを使う
+  const settings = useMemo(
+    () => tempSettings ?? calibrateRegimeSwitching(preset, params.expectedReturn, params.risk),
+    [tempSettings, preset, params.expectedReturn, params.risk]
+  )
+  const longRun = calculateLongRunMoments(settings)
+  const crisisProbability = calculateCrisisProbability(settings)
+  const worstPercentile = PERCENTAGE_DIVISOR - probabilityThreshold
+
+  // シミュレーションは重いため、入力の変更を先に反映し、計算は後回しにする（計算中は前の結果を薄く表示する）
+  const deferredParams = useDeferredValue(params)
+  const deferredSettings = useDeferredValue(settings)
+  const isUpdating = deferredParams !== params || deferredSettings !== settings
+
+  // 同じ投資パラメータで、独立な対数正規分布（月次）とレジーム・スイッチングを比較
+  const baseline = useMemo(() => {
+    const { paths, terminalValues } = simulatePaths(deferredParams, { frequency: 'monthly' })
+    return { terminalValues, drawdowns: paths.map(path => calculateMaxDrawdown(path)) }
+  }, [deferredParams])
+  const regime = useMemo(() => simulateRegimeSwitching(deferredParams, deferredSettings), [deferredParams, deferredSettings])
+
+  const [baselineSummary, regimeSummary] = [baseline, regime].map(result => ({
+    ...summarizeTerminalValues(result.terminalValues, worstPercentile),
+    drawdown: summarizeMaxDrawdowns(result.drawdowns, probabilityThreshold)
+  }))
+
+  const rows: SimulationSummaryRow[] = [
+    { label: '平均', values: [baselineSummary.summary.mean, regimeSummary.summary.mean] },
+    { label: '中央値', values: [baselineSummary.summary.median, regimeSummary.summary.median] },
+    { label: '95%信頼区間 下限', values: [baselineSummary.summary.percentiles[LOWER_CONFIDENCE_PERCENTILE], regimeSummary.summary.percentiles[LOWER_CONFIDENCE_PERCENTILE]] },
+    { label: '95%信頼区間 上限', values: [baselineSummary.summary.percentiles[UPPER_CONFIDENCE_PERCENTILE], regimeSummary.summary.percentiles[UPPER_CONFIDENCE_PERCENTILE]] },
+    { label: `最悪ケース（下位${worstPercentile.toFixed(DECIMAL_ONE_DIGIT)}%点）`, values: [baselineSummary.summary.percentiles[worstPercentile], regimeSummary.summary.percentiles[worstPercentile]] },
+    { label: `期待ショートフォール（下位${worstPercentile.toFixed(DECIMAL_ONE_DIGIT)}%の平均）`, values: [baselineSummary.expectedShortfall, regimeSummary.expectedShortfall] },
+    { label: '途中の最大下落率（中央値）', values: [baselineSummary.drawdown.medianRate, regimeSummary.drawdown.medianRate], isRate: true },
+    { label: `途中の最大下落率（${probabilityThreshold}%の確率でこれ以内）`, values: [baselineSummary.drawdown.worstRate, regimeSummary.drawdown.worstRate], isRate: true }
+  ]
+
+  // 両方の結果が収まる範囲で、最終資産額のヒストグラムを作成
+  const chartMin = Math.min(calculatePercentile(baselineSummary.sorted, CHART_LOWER_PERCENTILE), calculatePercentile(regimeSummary.sorted, CHART_LOWER_PERCENTILE))
+  const chartMax = Math.max(calculatePercentile(baselineSummary.sorted, CHART_UPPER_PERCENTILE), calculatePercentile(regimeSummary.sorted, CHART_UPPER_PERCENTILE))
+  const chartPoints = Array.from({ length: HISTOGRAM_BINS }, (_, i) => chartMin + (chartMax - chartMin) * i / (HISTOGRAM_BINS - ONE))
+
+  const chartData = {
+    labels: chartPoints.map(point => formatCurrency(point)),
+    datasets: [
+      {
+        label: '対数正規分布（独立）',
+        data: calculateHistogramDensity(baselineSummary.sorted, chartPoints),
+        borderColor: 'rgb(75, 192, 192)',
+        backgroundColor: 'rgba(75, 192, 192, 0.2)',
+        fill: true,
+        stepped: 'middle' as const,
+        borderWidth: BORDER_WIDTH,
+        pointRadius: POINT_RADIUS
+      },
+      {
+        label: 'レジーム・スイッチング',
+        data: calculateHistogramDensity(regimeSummary.sorted, chartPoints),
+        borderColor: 'rgb(255, 99, 132)',
+        backgroundColor: 'rgba(255, 99, 132, 0.2)',
+        fill: true,
+        stepped: 'middle' as const,
+        borderWidth: BORDER_WIDTH,
+        pointRadius: POINT_RADIUS
+      }
+    ]
+  }
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top' as const
+      },
+      title: {
+        display: true,
+        text: `${deferredParams.years}年後の投資資産の分布（シミュレーション）`
+      }
+    },
+    scales: {
+      x: {
+        title: {
+          display: true,
+          text: '投資資産額 (円)'
+        },
+        ticks: {
+          maxTicksLimit: MAX_TICKS_LIMIT
+        }
+      },
+      y: {
+        title: {
+          display: true,
+          text: '確率密度'
+        },
+        ticks: {
+          display: false
+        }
+      }
+    }
+  }
+
+  const handlePresetChange = (e: React.ChangeEvent<HTMLSelectElement>): void => {
+    setPreset(e.target.value as RegimeSwitchingPreset)
+    setTempSettings(null)
+  }
+
+  const handleRegimeChange = (regimeKey: RegimeKey, field: keyof Regime) => (e: React.ChangeEvent<HTMLInputElement>): void => {
+    const value = parseFloat(e.target.value)
+    setTempSettings({ ...settings, [regimeKey]: { ...settings[regimeKey], [field]: isNaN(value) ? ZERO : value } })
+  }
+
+  const handleTransitionChange = (transitionKey: TransitionKey) => (e: React.ChangeEvent<HTMLInputElement>): void => {
+    const value = parseFloat(e.target.value)
+    setTempSettings({ ...settings, [transitionKey]: isNaN(value) ? ZERO : Math.min(Math.max(value, ZERO), PERCENTAGE_DIVISOR) })
+  }
+
+  const regimeInputs: Array<{ key: RegimeKey, label: string }> = [
+    { key: 'calm', label: '平常時' },
+    { key: 'crisis', label: '危機時' }
+  ]
+  const transitionInputs: Array<{ key: TransitionKey, label: string }> = [
+    { key: 'calmToCrisis', label: '平常時 → 危機時 (%/月)' },
+    { key: 'crisisToCalm', label: '危機時 → 平常時 (%/月)' }
+  ]
+
+  return (
+    <Card className="mb-4">
+      <Card.Body>
+        <h5>🌪️ ボラティリティ・クラスタリング（レジーム・スイッチング）</h5>
+        <p>
+          相場には値動きの穏やかな時期（平常時）と荒い時期（危機時）があり、荒い時期はしばらく続きます。
+          2つの局面を確率的に行き来するモデルで{params.years}年後の資産と途中の下落をシミュレーションし、毎月の値動きが独立な対数正規分布と比べます。
+        </p>
+        <Form.Group className="mb-3">
+          <Form.Label>プリセット</Form.Label>
+          <Form.Select value={preset} onChange={handlePresetChange}>
+            {presets.map(option => (
+              <option key={option} value={option}>
+                {regimeSwitchingPresets[option].label}（{regimeSwitchingPresets[option].description}）
+              </option>
+            ))}
+          </Form.Select>
+          <Form.Text className="text-muted">
+            プリセットを選ぶと、長期の平均とリスクが設定（{params.expectedReturn.toFixed(DECIMAL_TWO_DIGITS)}% / {params.risk}%）と一致するように平常時の値を決めます。
+          </Form.Text>
+        </Form.Group>
+        <Row>
+          {regimeInputs.map(({ key, label }) => (
+            <Col md={6} key={key}>
+              <Row>
+                <Col xs={6}>
+                  <Form.Group className="mb-3">
+                    <Form.Label>{label}の期待リターン (%/年)</Form.Label>
+                    <Form.Control type="number" step={PERCENT_INPUT_STEP} value={settings[key].expectedReturn.toFixed(DECIMAL_TWO_DIGITS)} onChange={handleRegimeChange(key, 'expectedReturn')} />
+                  </Form.Group>
+                </Col>
+                <Col xs={6}>
+                  <Form.Group className="mb-3">
+                    <Form.Label>{label}のリスク (%/年)</Form.Label>
+                    <Form.Control type="number" min={0} step={PERCENT_INPUT_STEP} value={settings[key].risk.toFixed(DECIMAL_TWO_DIGITS)} onChange={handleRegimeChange(key, 'risk')} />
+                  </Form.Group>
+                </Col>
+              </Row>
+            </Col>
+          ))}
+          {transitionInputs.map(({ key, label }) => (
+            <Col md={6} key={key}>
+              <Form.Group className="mb-3">
+                <Form.Label>{label}</Form.Label>
+                <Form.Control type="number" min={0} max={100} step={PERCENT_INPUT_STEP} value={settings[key]} onChange={handleTransitionChange(key)} />
+              </Form.Group>
+            </Col>
+          ))}
+        </Row>
+        <p className="text-muted">
+          長期の平均 {longRun.expectedReturn.toFixed(DECIMAL_TWO_DIGITS)}% / 年・リスク {longRun.risk.toFixed(DECIMAL_TWO_DIGITS)}% / 年、
+          危機時の割合 {(crisisProbability * PERCENTAGE_DIVISOR).toFixed(DECIMAL_ONE_DIGIT)}%（シミュレーションでは {(regime.averageCrisisShare * PERCENTAGE_DIVISOR).toFixed(DECIMAL_ONE_DIGIT)}%）、
+          危機時の平均継続期間 {settings.crisisToCalm > ZERO ? `${(PERCENTAGE_DIVISOR / settings.crisisToCalm).toFixed(DECIMAL_ONE_DIGIT)}か月` : '終わらない'}
+        </p>
+        <div style={{ opacity: isUpdating ? UPDATING_OPACITY : ONE }}>
+          <div style={{ height: CHART_HEIGHT }}>
+            <Line data={chartData} options={chartOptions} />
+          </div>
+          <Table striped bordered responsive size="sm" className="mt-3">
+            <thead>
+              <tr>
+                <th>{deferredParams.years}年後</th>
+                <th>対数正規分布（独立）</th>
+                <th>レジーム・スイッチング</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.label}>
+                  <td>{row.label}</td>
+                  {row.values.map((value, index) => (
+                    <td key={index}>{formatValue(value, row.isRate)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        </div>
+        <Form.Text className="text-muted d-block">
+          ※ どちらも投資部分（定期積立を含む）をパス数 2,000・月次でシミュレーションしています。各局面の中では値動きは正規分布（対数リターン）に従います。<br />
+          ※ 長期の平均とリスクが同じでも、荒い値動きが続くと下落が深くなりやすく、最悪ケースや途中の下落に差が出ます。金額は名目値・税引前です。
+        </Form.Text>
+      </Card.Body>
+    </Card>
+  )
+}
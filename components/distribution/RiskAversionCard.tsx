@@ -0,0 +1,150 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Button, Card, Form, Table } from 'react-bootstrap'
+
+import {
+  LOTTERY_GAIN,
+  MAX_RISK_AVERSION,
+  MIN_RISK_AVERSION,
+  calculateCertaintyEquivalent,
+  calculateIndifferenceRiskAversion,
+  calculateOptimalInvestmentRatio,
+  type RiskAversionParams
+} from '@/utils/riskAversion'
+
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const RISK_AVERSION_STEP = 0.5
+const DECIMAL_FRACTION_DIGITS = 0
+const DECIMAL_ONE_DIGIT = 1
+const DECIMAL_TWO_DIGITS = 2
+const LOW_RISK_AVERSION = 2
+const HIGH_RISK_AVERSION = 5
+const ROUNDING_FACTOR = 10
+const LOSS_5_PERCENT = 5
+const LOSS_10_PERCENT = 10
+const LOSS_15_PERCENT = 15
+const LOSS_20_PERCENT = 20
+const LOSS_25_PERCENT = 25
+const LOSS_30_PERCENT = 30
+const LOSS_40_PERCENT = 40
+
+// 質問の選択肢（受け入れられる最大の損失 %）
+const lotteryLosses = [LOSS_5_PERCENT, LOSS_10_PERCENT, LOSS_15_PERCENT, LOSS_20_PERCENT, LOSS_25_PERCENT, LOSS_30_PERCENT, LOSS_40_PERCENT]
+
+interface Props {
+  params: RiskAversionParams
+  investmentRatio: number // 現在の投資比率 (%)
+  riskAversion: number // 相対的危険回避度 γ
+  onRiskAversionChange: (value: number) => void
+  onApply: (investmentRatio: number) => void
+}
+
+const formatCurrency = (value: number): string => value.toLocaleString('ja-JP', { maximumFractionDigits: DECIMAL_FRACTION_DIGITS })
+
+const describeRiskAversion = (value: number): string => {
+  if (value < LOW_RISK_AVERSION) {
+    return '低い（リスクを取りやすい）'
+  }
+  if (value <= HIGH_RISK_AVERSION) {
+    return '標準的'
+  }
+  return '高い（損失を強く避けたい）'
+}
+
+// 質問の回答から求めた危険回避度を、スライダーの範囲に収めて小数第1位に丸める
+const toRiskAversion = (loss: number): number => {
+  const value = Math.round(calculateIndifferenceRiskAversion(loss) * ROUNDING_FACTOR) / ROUNDING_FACTOR
+  return Math.min(Math.max(value, MIN_RISK_AVERSION), MAX_RISK_AVERSION)
+}
+
+export default function RiskAversionCard (props: Props): React.JSX.Element {
+  const { params, investmentRatio, riskAversion, onRiskAversionChange, onApply } = props
+  const [lotteryLoss, setLotteryLoss] = useState('')
+
+  const optimalRatio = calculateOptimalInvestmentRatio(params, riskAversion)
+  const recommendedRatio = Math.round(optimalRatio)
+  const columns = [
+    { label: `推奨（${recommendedRatio}%）`, ratio: recommendedRatio },
+    { label: `現在（${investmentRatio}%）`, ratio: investmentRatio },
+    { label: '投資しない（0%）', ratio: ZERO }
+  ].map(column => ({ ...column, certaintyEquivalent: calculateCertaintyEquivalent(params, column.ratio, riskAversion) }))
+
+  const handleRiskAversionChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    setLotteryLoss('')
+    onRiskAversionChange(parseFloat(e.target.value))
+  }
+
+  const handleLotteryChange = (e: React.ChangeEvent<HTMLSelectElement>): void => {
+    const { value } = e.target
+    setLotteryLoss(value)
+    if (value !== '') {
+      onRiskAversionChange(toRiskAversion(parseFloat(value)))
+    }
+  }
+
+  return (
+    <Card className="mb-4">
+      <Card.Body>
+        <h5>🎯 危険回避度から求める推奨の投資比率</h5>
+        <p>
+          リスクをどれだけ嫌うか（相対的危険回避度 γ）から、効用（満足度）が最も高くなる投資比率と、
+          不確実な資産と同じ満足度をもたらす確実な金額（確実性等価）を計算します。
+        </p>
+        <Form.Group className="mb-3">
+          <Form.Label>質問: 50%の確率で資産が {LOTTERY_GAIN}% 増え、50%の確率で資産が減る賭けがあります。受けてもよいと思える最大の損失はどれですか？</Form.Label>
+          <Form.Select value={lotteryLoss} onChange={handleLotteryChange}>
+            <option value="">回答を選択すると危険回避度を設定します</option>
+            {lotteryLosses.map(loss => (
+              <option key={loss} value={loss}>{loss}% まで（γ ≒ {toRiskAversion(loss).toFixed(DECIMAL_ONE_DIGIT)}）</option>
+            ))}
+          </Form.Select>
+        </Form.Group>
+        <Form.Group className="mb-3">
+          <Form.Label>相対的危険回避度 γ: {riskAversion.toFixed(DECIMAL_ONE_DIGIT)}（{describeRiskAversion(riskAversion)}）</Form.Label>
+          <Form.Range
+            min={MIN_RISK_AVERSION}
+            max={MAX_RISK_AVERSION}
+            step={RISK_AVERSION_STEP}
+            value={riskAversion}
+            onChange={handleRiskAversionChange}
+          />
+          <Form.Text className="text-muted">
+            γ が大きいほどリスクを嫌います。γ = 1 は対数効用で、一般的には 2〜5 程度とされます。
+          </Form.Text>
+        </Form.Group>
+        <div className="alert alert-primary" role="alert">
+          効用が最も高くなる投資比率は <strong>{optimalRatio.toFixed(DECIMAL_ONE_DIGIT)}%</strong> です
+          （期待リターン {params.expectedReturn.toFixed(DECIMAL_TWO_DIGITS)}%、リスク {params.risk.toFixed(DECIMAL_TWO_DIGITS)}%、無リスク金利 {params.riskFreeRate}% / 年）。
+          {optimalRatio > PERCENTAGE_DIVISOR && <><br />⚠️ 100%を超える部分は借入金利 {params.borrowingRate}% / 年で借り入れる前提です。追証の確率も確認してください。</>}
+        </div>
+        <Table striped bordered responsive size="sm">
+          <thead>
+            <tr>
+              <th>投資比率</th>
+              {columns.map(column => <th key={column.label}>{column.label}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <td>{params.years}年後の確実性等価</td>
+              {columns.map(column => <td key={column.label}>{formatCurrency(column.certaintyEquivalent.wealth)} 円</td>)}
+            </tr>
+            <tr>
+              <td>確実性等価の年率</td>
+              {columns.map(column => <td key={column.label}>{column.certaintyEquivalent.rate.toFixed(DECIMAL_TWO_DIGITS)}%</td>)}
+            </tr>
+          </tbody>
+        </Table>
+        <Button variant="outline-primary" size="sm" onClick={() => { onApply(recommendedRatio) }} disabled={recommendedRatio === investmentRatio}>
+          推奨の投資比率（{recommendedRatio}%）をスライダーに適用
+        </Button>
+        <Form.Text className="text-muted d-block mt-2">
+          ※ CRRA効用（u(W) = W^(1-γ)/(1-γ)）で、投資比率を一定に保つ（リバランスする）場合のマートンの公式 w* = (μ - r) / (γσ²) により計算しています。<br />
+          ※ 確実性等価は資産総額 {formatCurrency(params.totalAssets)} 円に対する値で、定期積立・税金・分布モデルは考慮していません。推奨値は目安であり、安眠チェックや最悪ケースとあわせて判断してください。
+        </Form.Text>
+      </Card.Body>
+    </Card>
+  )
+}
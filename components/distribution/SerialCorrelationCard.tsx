@@ -0,0 +1,132 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import Link from 'next/link'
+import { Card, Form, Table } from 'react-bootstrap'
+
+import {
+  MAX_AUTOCORRELATION,
+  MIN_AUTOCORRELATION,
+  calculateVarianceRatio
+} from '@/utils/serialCorrelation'
+import { calculateWorstCase, type WorstCaseParams } from '@/utils/worstCase'
+
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const AUTOCORRELATION_STEP = 0.05
+const DECIMAL_FRACTION_DIGITS = 0
+const DECIMAL_ONE_DIGIT = 1
+const DECIMAL_TWO_DIGITS = 2
+const SHORT_HORIZON = 1
+const HORIZON_3_YEARS = 3
+const HORIZON_5_YEARS = 5
+const HORIZON_10_YEARS = 10
+const HORIZON_20_YEARS = 20
+const HORIZON_30_YEARS = 30
+const LONG_HORIZON = 50
+
+// 比較する投資期間（短期から長期まで）
+const horizons = [SHORT_HORIZON, HORIZON_3_YEARS, HORIZON_5_YEARS, HORIZON_10_YEARS, HORIZON_20_YEARS, HORIZON_30_YEARS, LONG_HORIZON]
+
+interface Props {
+  value: number // 自己相関係数
+  onChange: (value: number) => void
+  params: WorstCaseParams // 最悪ケースの計算に用いるパラメータ（years と autocorrelation は使用しない）
+}
+
+interface HorizonRow {
+  years: number
+  varianceRatio: number
+  independent: number // 独立な場合の最悪ケース（投資部分）
+  correlated: number // 自己相関がある場合の最悪ケース（投資部分）
+}
+
+const formatCurrency = (value: number): string => value.toLocaleString('ja-JP', { maximumFractionDigits: DECIMAL_FRACTION_DIGITS })
+
+const getChangeSign = (value: number): string => (value >= ZERO ? '+' : '')
+
+const getColorStyle = (value: number): { color: string } => ({
+  color: value > ZERO ? 'green' : value < ZERO ? 'red' : 'black'
+})
+
+const describeAutocorrelation = (value: number): string => {
+  if (value < ZERO) {
+    return '平均回帰（下落の翌年は戻りやすい）'
+  }
+  if (value > ZERO) {
+    return 'モメンタム（上昇・下落が続きやすい）'
+  }
+  return '独立（前年の成績は翌年に影響しない）'
+}
+
+export default function SerialCorrelationCard (props: Props): React.JSX.Element {
+  const { value, onChange, params } = props
+
+  const rows = useMemo<HorizonRow[]>(() => horizons.map(years => ({
+    years,
+    varianceRatio: calculateVarianceRatio(value, years),
+    independent: calculateWorstCase({ ...params, years, autocorrelation: ZERO }).worstCaseAssets,
+    correlated: calculateWorstCase({ ...params, years, autocorrelation: value }).worstCaseAssets
+  })), [params, value])
+
+  const tailPercentage = (PERCENTAGE_DIVISOR - params.probabilityThreshold).toFixed(DECIMAL_ONE_DIGIT)
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    onChange(parseFloat(e.target.value))
+  }
+
+  return (
+    <Card className="mb-4">
+      <Card.Body>
+        <Form.Group className="mb-3">
+          <Form.Label>年ごとのリターンの自己相関係数: {value.toFixed(DECIMAL_TWO_DIGITS)}（{describeAutocorrelation(value)}）</Form.Label>
+          <Form.Range
+            min={MIN_AUTOCORRELATION}
+            max={MAX_AUTOCORRELATION}
+            step={AUTOCORRELATION_STEP}
+            value={value}
+            onChange={handleChange}
+          />
+          <Form.Text className="text-muted">
+            前年の対数リターンと翌年の対数リターンの相関（AR(1)）です。1年ごとのリスクは変わりませんが、複数年の分散の増え方が変わります。
+            マイナスでは長期の分散が投資期間に比例するより小さく、プラスでは大きくなります（
+            <Link href="/notes" style={{ textDecoration: 'none' }}>前提条件と注意事項</Link>の「各年の価格変動の独立性」を参照）。
+          </Form.Text>
+        </Form.Group>
+        <Table striped bordered responsive size="sm">
+          <thead>
+            <tr>
+              <th>投資期間</th>
+              <th>分散比</th>
+              <th>年率換算のリスク</th>
+              <th>最悪ケース（独立・下位{tailPercentage}%点）</th>
+              <th>最悪ケース（自己相関あり）</th>
+              <th>差額</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => {
+              const difference = row.correlated - row.independent
+              return (
+                <tr key={row.years} className={row.years === params.years ? 'table-primary' : undefined}>
+                  <td>{row.years}年</td>
+                  <td>{row.varianceRatio.toFixed(DECIMAL_TWO_DIGITS)}倍</td>
+                  <td>{(params.risk * Math.sqrt(row.varianceRatio)).toFixed(DECIMAL_ONE_DIGIT)}%</td>
+                  <td>{formatCurrency(row.independent)} 円</td>
+                  <td>{formatCurrency(row.correlated)} 円</td>
+                  <td style={getColorStyle(difference)}>
+                    {getChangeSign(difference)}{formatCurrency(difference)} 円（{getChangeSign(difference)}{(difference / row.independent * PERCENTAGE_DIVISOR).toFixed(DECIMAL_ONE_DIGIT)}%）
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </Table>
+        <Form.Text className="text-muted d-block">
+          ※ 分散比は、その期間の対数リターンの分散が独立な場合の何倍になるかを表します。1年では自己相関の影響はなく、期間が長いほど差が広がります。<br />
+          ※ 最悪ケースは投資部分（定期積立を含む）の金額で、選択中の分布モデルと表示基準で計算しています。自己相関はグラフやシミュレーションを含むページ全体に反映されます。
+        </Form.Text>
+      </Card.Body>
+    </Card>
+  )
+}
@@ -0,0 +1,36 @@
+'use client'
+
+import React from 'react'
+import { Button } from 'react-bootstrap'
+import { toast } from 'react-toastify'
+
+import type { InvestmentSettings } from '@/contexts/SettingsContext'
+import { createShareQuery, createShareUrl, type SharedView } from '@/utils/shareLink'
+
+interface Props {
+  settings: InvestmentSettings
+  view: SharedView // スライダー・分布モデルなどの表示の状態
+}
+
+export default function ShareLinkButton (props: Props): React.JSX.Element {
+  const { settings, view } = props
+
+  // 設定と表示の状態を含む共有リンクをクリップボードにコピー
+  const copyShareLink = async (): Promise<void> => {
+    const query = createShareQuery(settings, view)
+    const url = createShareUrl(window.location.origin, window.location.pathname, query)
+    try {
+      await navigator.clipboard.writeText(url)
+      toast.success('共有リンクをコピーしました。リンクを開くと、このシナリオを読み取り専用で表示します。')
+    } catch (error) {
+      console.error('Clipboard error:', error)
+      toast.error('共有リンクをコピーできませんでした。')
+    }
+  }
+
+  return (
+    <Button variant="outline-primary" onClick={() => { void copyShareLink() }}>
+      🔗 共有リンクをコピー
+    </Button>
+  )
+}
@@ -0,0 +1,45 @@
+'use client'
+
+import React from 'react'
+import Link from 'next/link'
+
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const DECIMAL_FRACTION_DIGITS = 0
+const DECIMAL_ONE_DIGIT = 1
+
+interface Props {
+  probabilityThreshold: number // 確率閾値 (%)
+  totalAssetsWorstCase: number // 最悪ケースの資産全体 (円)
+  totalPrincipal: number // 資産全体の元本 (円)
+}
+
+const formatCurrency = (value: number): string => value.toLocaleString('ja-JP', { maximumFractionDigits: DECIMAL_FRACTION_DIGITS })
+
+const getChangeSign = (value: number): string => (value >= ZERO ? '+' : '')
+
+export default function SleepCheckAlert (props: Props): React.JSX.Element {
+  const { probabilityThreshold, totalAssetsWorstCase, totalPrincipal } = props
+  const totalAssetsChange = totalAssetsWorstCase - totalPrincipal
+  const changePercentage = (totalAssetsChange / totalPrincipal * PERCENTAGE_DIVISOR).toFixed(DECIMAL_ONE_DIGIT)
+
+  return (
+    <div className="alert alert-info mt-3" role="alert">
+      <strong>💤 安眠チェック</strong><br />
+      通常起こり得る確率範囲（{probabilityThreshold}%）での最悪のケースで、資産全体が{' '}
+      <strong>{formatCurrency(totalAssetsWorstCase)} 円</strong>
+      （<strong>{getChangeSign(totalAssetsChange)}{formatCurrency(totalAssetsChange)} 円</strong> /
+      <strong>{getChangeSign(totalAssetsChange)}{changePercentage}%</strong>）
+      にまで{totalAssetsChange >= ZERO ? '増加' : '減少'}する可能性があります。
+      <br />
+      <br />
+      <strong>安眠できますか？</strong><br />
+      できない場合は、投資比率を下げてください。
+      <br />
+      <br />
+      よりローリスク・ローリターンにして対応することもできますが、<Link href="/words?q=mpt" style={{ textDecoration: 'none' }}>MPT</Link>の観点からは投資比率を下げることが推奨されます。
+      <br />
+      詳しく知りたい方は<Link href="/words?q=tobin-separation" style={{ textDecoration: 'none' }}>トービンの分離定理</Link>を調べてみてください。
+    </div>
+  )
+}
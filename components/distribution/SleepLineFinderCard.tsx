@@ -0,0 +1,186 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import { Card, Form, Row, Col, Button, InputGroup } from 'react-bootstrap'
+
+import {
+  findYearRangesWithinTolerance,
+  solveSleepLine,
+  type SleepLineParams,
+  type SleepLineTarget,
+  type YearRange
+} from '@/utils/sleepLineSolver'
+
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const FIRST_ELEMENT_INDEX = 0
+const DEFAULT_MAX_LOSS_PERCENTAGE = 20
+const PROBABILITY_ROUNDING_MULTIPLIER = 10
+const DECIMAL_FRACTION_DIGITS = 0
+const DECIMAL_ONE_DIGIT = 1
+const RADIX = 10
+const PERCENT_INPUT_STEP = 0.1
+const YEN_INPUT_STEP = 10_000
+
+type LossUnit = 'yen' | 'percent'
+
+interface TargetOption {
+  value: SleepLineTarget
+  label: string
+  unit: string
+  description: string
+}
+
+const targetOptions: TargetOption[] = [
+  {
+    value: 'investmentRatio',
+    label: '投資比率',
+    unit: '%',
+    description: '現在の投資期間・確率閾値で、許容損失に収まる最大の投資比率'
+  },
+  {
+    value: 'years',
+    label: '投資期間',
+    unit: '年',
+    description: '現在の投資比率・確率閾値で、1年目から途切れずにすべての年で許容損失に収まる最長の投資期間'
+  },
+  {
+    value: 'probabilityThreshold',
+    label: '確率閾値',
+    unit: '%',
+    description: '現在の投資比率・投資期間で、最悪ケースが許容損失に収まる確率閾値の上限'
+  }
+]
+
+// スライダーの刻みに合わせて、許容損失を超えない側に丸める
+function roundDownForSlider (target: SleepLineTarget, value: number): number {
+  if (target === 'probabilityThreshold') {
+    return Math.floor(value * PROBABILITY_ROUNDING_MULTIPLIER) / PROBABILITY_ROUNDING_MULTIPLIER
+  }
+  return Math.floor(value)
+}
+
+const formatYen = (value: number): string => value.toLocaleString('ja-JP', { maximumFractionDigits: DECIMAL_FRACTION_DIGITS })
+
+// 年の範囲を「3〜5年、8年」の形式で表示
+function formatYearRanges (ranges: YearRange[]): string {
+  return ranges.map(range => (range.from === range.to ? `${range.from}年` : `${range.from}〜${range.to}年`)).join('、')
+}
+
+interface Props {
+  params: SleepLineParams
+  onApply: (target: SleepLineTarget, value: number) => void
+}
+
+export default function SleepLineFinderCard (props: Props): React.JSX.Element {
+  const { params, onApply } = props
+
+  const [target, setTarget] = useState<SleepLineTarget>('investmentRatio')
+  const [lossUnit, setLossUnit] = useState<LossUnit>('percent')
+  const [maxLossInput, setMaxLossInput] = useState(DEFAULT_MAX_LOSS_PERCENTAGE)
+
+  // 許容損失を円に換算（% は積立を含まない現在の資産総額に対する割合とする。積立累計額は投資期間によって変わるため）
+  const maxLoss = lossUnit === 'percent'
+    ? params.totalAssets * maxLossInput / PERCENTAGE_DIVISOR
+    : maxLossInput
+
+  const result = useMemo(() => {
+    const solved = solveSleepLine(target, params, maxLoss)
+    return solved === null ? null : roundDownForSlider(target, solved)
+  }, [target, params, maxLoss])
+
+  // 最悪ケースは期間に対して単調ではないため、投資期間はすべての年を調べて収まる範囲も表示する
+  const yearRanges = useMemo(() => (
+    target === 'years' ? findYearRangesWithinTolerance(params, maxLoss) : []
+  ), [target, params, maxLoss])
+  // 1年目から続く範囲以外で、許容損失に収まる年
+  const laterYearRanges = yearRanges.filter(range => result === null || range.from > result)
+
+  const selectedOption = targetOptions.find(option => option.value === target) ?? targetOptions[FIRST_ELEMENT_INDEX]
+
+  const handleTargetChange = (e: React.ChangeEvent<HTMLSelectElement>): void => {
+    setTarget(e.target.value as SleepLineTarget)
+  }
+
+  const handleLossUnitChange = (e: React.ChangeEvent<HTMLSelectElement>): void => {
+    setLossUnit(e.target.value as LossUnit)
+  }
+
+  const handleMaxLossChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    const value = parseFloat(e.target.value)
+    setMaxLossInput(isNaN(value) ? ZERO : value)
+  }
+
+  const formatResult = (value: number): string => (
+    target === 'probabilityThreshold' ? value.toFixed(DECIMAL_ONE_DIGIT) : value.toString(RADIX)
+  )
+
+  return (
+    <Card className="mb-4">
+      <Card.Body>
+        <h5>🔍 安眠ライン逆算</h5>
+        <p>
+          安眠できる資産全体の最大損失を入力すると、その損失に収まる限界値を逆算します。
+        </p>
+        <Row>
+          <Col md={6}>
+            <Form.Group className="mb-3">
+              <Form.Label>許容できる最大損失</Form.Label>
+              <InputGroup>
+                <Form.Control
+                  type="number"
+                  value={maxLossInput}
+                  onChange={handleMaxLossChange}
+                  min={0}
+                  step={lossUnit === 'percent' ? PERCENT_INPUT_STEP : YEN_INPUT_STEP}
+                />
+                <Form.Select value={lossUnit} onChange={handleLossUnitChange} style={{ maxWidth: '6rem' }}>
+                  <option value="percent">%</option>
+                  <option value="yen">円</option>
+                </Form.Select>
+              </InputGroup>
+              <Form.Text className="text-muted">
+                {lossUnit === 'percent' && `% は現在の資産総額（${formatYen(params.totalAssets)} 円）に対する割合です。`}
+                資産全体の元本（資産総額 + 積立累計額）からの損失が {formatYen(maxLoss)} 円以内となる条件を求めます。
+              </Form.Text>
+            </Form.Group>
+          </Col>
+          <Col md={6}>
+            <Form.Group className="mb-3">
+              <Form.Label>逆算する項目</Form.Label>
+              <Form.Select value={target} onChange={handleTargetChange}>
+                {targetOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </Form.Select>
+              <Form.Text className="text-muted">
+                {selectedOption.description}を求めます。
+              </Form.Text>
+            </Form.Group>
+          </Col>
+        </Row>
+        {result !== null
+          ? (
+            <div className="alert alert-success d-flex justify-content-between align-items-center mb-0" role="alert">
+              <span>
+                {target === 'years' && '1年目から'}
+                {selectedOption.label}: <strong>{formatResult(result)}{selectedOption.unit}</strong>
+                {target === 'probabilityThreshold' ? ' 以下' : ' まで'}
+                であれば、{target === 'years' ? 'どの年で見ても' : ''}最悪ケースでも損失が許容範囲に収まります。
+                {laterYearRanges.length > ZERO && <><br />一度許容損失を超えた後、{formatYearRanges(laterYearRanges)}では再び収まります。</>}
+              </span>
+              <Button variant="outline-success" size="sm" onClick={() => { onApply(target, result) }}>
+                スライダーに反映
+              </Button>
+            </div>
+            )
+          : (
+            <div className="alert alert-warning mb-0" role="alert">
+              条件を満たす{selectedOption.label}が見つかりません。許容損失を大きくするか、他の条件を見直してください。
+              {laterYearRanges.length > ZERO && <><br />1年目からは収まりませんが、{formatYearRanges(laterYearRanges)}では最悪ケースでも許容範囲に収まります。</>}
+            </div>
+            )}
+      </Card.Body>
+    </Card>
+  )
+}
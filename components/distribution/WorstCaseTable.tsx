@@ -0,0 +1,74 @@
+'use client'
+
+import React from 'react'
+import Link from 'next/link'
+import { Table } from 'react-bootstrap'
+
+import type { WorstCaseRow } from '@/utils/worstCase'
+
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const DECIMAL_FRACTION_DIGITS = 0
+const DECIMAL_ONE_DIGIT = 1
+
+interface Props {
+  rows: WorstCaseRow[]
+  probabilityThreshold: number
+}
+
+const formatCurrency = (value: number): string => value.toLocaleString('ja-JP', { maximumFractionDigits: DECIMAL_FRACTION_DIGITS })
+
+const formatPercentage = (value: number, base: number): string => ((value / base) * PERCENTAGE_DIVISOR).toFixed(DECIMAL_ONE_DIGIT)
+
+const getChangeSign = (value: number): string => (value >= ZERO ? '+' : '')
+
+const getColorStyle = (value: number): { color: string } => ({
+  color: value > ZERO ? 'green' : value < ZERO ? 'red' : 'black'
+})
+
+export default function WorstCaseTable ({ rows, probabilityThreshold }: Props): React.JSX.Element {
+  const tailPercentage = (PERCENTAGE_DIVISOR - probabilityThreshold).toFixed(DECIMAL_ONE_DIGIT)
+
+  return (
+    <Table striped bordered responsive>
+      <thead>
+        <tr>
+          <th rowSpan={2}>観点</th>
+          <th colSpan={3}>最悪ケース（下位{tailPercentage}%点）</th>
+          <th colSpan={2}>
+            <Link href="/words?q=expected-shortfall" style={{ textDecoration: 'none' }}>期待ショートフォール</Link>（下位{tailPercentage}%の平均）
+          </th>
+        </tr>
+        <tr>
+          <th>金額</th>
+          <th>増減額</th>
+          <th>増減率</th>
+          <th>金額</th>
+          <th>増減率</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => {
+          const change = row.value - row.principal
+          const shortfallChange = row.expectedShortfall - row.principal
+          return (
+            <tr key={row.label}>
+              <td><strong>{row.label}</strong></td>
+              <td>{formatCurrency(row.value)} 円</td>
+              <td style={getColorStyle(change)}>
+                {getChangeSign(change)}{formatCurrency(change)} 円
+              </td>
+              <td style={getColorStyle(change)}>
+                {getChangeSign(change)}{formatPercentage(change, row.principal)}%
+              </td>
+              <td>{formatCurrency(row.expectedShortfall)} 円</td>
+              <td style={getColorStyle(shortfallChange)}>
+                {getChangeSign(shortfallChange)}{formatPercentage(shortfallChange, row.principal)}%
+              </td>
+            </tr>
+          )
+        })}
+      </tbody>
+    </Table>
+  )
+}
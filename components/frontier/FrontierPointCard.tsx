@@ -0,0 +1,72 @@
+'use client'
+
+import React from 'react'
+import { Card, Form, Table, Button } from 'react-bootstrap'
+
+import { assetClasses, roundWeights } from '@/utils/portfolio'
+import { calculateSharpeRatio, type FrontierPoint } from '@/utils/efficientFrontier'
+
+const ZERO = 0
+const DECIMAL_TWO_DIGITS = 2
+
+interface Props {
+  point: FrontierPoint
+  riskFreeRate: number
+  isTangency: boolean // 表示中の点が接点ポートフォリオか
+  onApply: (point: FrontierPoint) => void
+  onSelectTangency: (() => void) | null // 接点ポートフォリオに戻す操作（戻せない場合は null）
+}
+
+// 配分を「資産クラス名 xx%」の形式で表示
+function formatWeights (weights: number[]): string {
+  return weights
+    .map((weight, index) => ({ name: assetClasses[index].name, weight }))
+    .filter(({ weight }) => weight > ZERO)
+    .map(({ name, weight }) => `${name} ${weight}%`)
+    .join(' / ')
+}
+
+export default function FrontierPointCard (props: Props): React.JSX.Element {
+  const { point, riskFreeRate, isTangency, onApply, onSelectTangency } = props
+
+  return (
+    <Card className="mb-4">
+      <Card.Body>
+        <h5>{isTangency ? '接点ポートフォリオ' : '選択中の点'}</h5>
+        <Table striped bordered size="sm">
+          <tbody>
+            <tr>
+              <th>期待リターン</th>
+              <td>{point.expectedReturn.toFixed(DECIMAL_TWO_DIGITS)}% / 年</td>
+            </tr>
+            <tr>
+              <th>リスク</th>
+              <td>{point.risk.toFixed(DECIMAL_TWO_DIGITS)}% / 年</td>
+            </tr>
+            <tr>
+              <th>シャープレシオ</th>
+              <td>{calculateSharpeRatio(point, riskFreeRate).toFixed(DECIMAL_TWO_DIGITS)}</td>
+            </tr>
+            <tr>
+              <th>配分</th>
+              <td>{formatWeights(roundWeights(point.weights))}</td>
+            </tr>
+          </tbody>
+        </Table>
+        <div className="d-flex gap-2">
+          <Button variant="primary" onClick={() => { onApply(point) }}>
+            この点を設定に反映
+          </Button>
+          {onSelectTangency !== null && (
+            <Button variant="outline-danger" onClick={onSelectTangency}>
+              接点ポートフォリオを選択
+            </Button>
+          )}
+        </div>
+        <Form.Text className="text-muted d-block mt-2">
+          配分を1%単位に丸めてから、想定リターン・想定リスク・ポートフォリオの配分と相関係数を設定に保存します。
+        </Form.Text>
+      </Card.Body>
+    </Card>
+  )
+}
@@ -0,0 +1,77 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import { Alert, Form, Table } from 'react-bootstrap'
+
+import { assetClasses, isValidCorrelationMatrix, updateCorrelation } from '@/utils/portfolio'
+
+const ZERO = 0
+const DECIMAL_TWO = 2
+const CORRELATION_STEP = 0.05
+const CORRELATION_MIN = -1
+const CORRELATION_MAX = 1
+
+interface Props {
+  value: number[][]
+  onChange: (value: number[][]) => void
+}
+
+export default function CorrelationMatrixTable (props: Props): React.JSX.Element {
+  const { value, onChange } = props
+
+  const isValid = useMemo(() => isValidCorrelationMatrix(value), [value])
+
+  const handleCorrelationChange = (i: number, j: number) => (e: React.ChangeEvent<HTMLInputElement>): void => {
+    const correlation = parseFloat(e.target.value)
+    onChange(updateCorrelation(value, i, j, isNaN(correlation) ? ZERO : correlation))
+  }
+
+  return (
+    <>
+      <Table bordered responsive size="sm">
+        <thead>
+          <tr>
+            <th></th>
+            {assetClasses.map(assetClass => (
+              <th key={assetClass.name}>{assetClass.name}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {assetClasses.map((rowAsset, i) => (
+            <tr key={rowAsset.name}>
+              <th>{rowAsset.name}</th>
+              {assetClasses.map((columnAsset, j) => (
+                <td key={columnAsset.name}>
+                  {j > i
+                    ? (
+                      <Form.Control
+                        type="number"
+                        size="sm"
+                        value={value[i][j]}
+                        onChange={handleCorrelationChange(i, j)}
+                        min={CORRELATION_MIN}
+                        max={CORRELATION_MAX}
+                        step={CORRELATION_STEP}
+                        style={{ minWidth: '5rem' }}
+                      />
+                      )
+                    : <span className="text-muted">{value[i][j].toFixed(DECIMAL_TWO)}</span>}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </Table>
+      <Form.Text className="text-muted d-block mb-3">
+        右上の三角部分を編集すると、左下の対称な位置にも反映されます。
+      </Form.Text>
+      {!isValid && (
+        <Alert variant="danger">
+          相関行列が正しくありません。相関係数は-1〜1の範囲で、行列全体が半正定値（どの組み合わせでも分散が負にならない）である必要があります。
+          互いに矛盾する相関係数（例: AとBが強い正の相関、BとCが強い正の相関なのに、AとCが強い負の相関）を見直してください。
+        </Alert>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,178 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Card, Form, Row, Col, Button, Collapse } from 'react-bootstrap'
+import { BsChevronDown, BsChevronUp } from 'react-icons/bs'
+
+import {
+  calculateCurrencyVarianceShare,
+  calculateLocalRisk,
+  calculateYenReturnAndRisk,
+  type CurrencySettings
+} from '@/utils/currency'
+import { assetClasses, calculatePortfolioForeignShare } from '@/utils/portfolio'
+
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const DECIMAL_ONE = 1
+const DECIMAL_TWO = 2
+const SHARE_STEP = 5
+const CORRELATION_STEP = 0.05
+
+interface Props {
+  value: CurrencySettings
+  onChange: (value: CurrencySettings) => void
+  expectedReturn: number // フォームの想定リターン（現地通貨建て）
+  risk: number // フォームの想定リスク（現地通貨建て）
+  portfolioWeights: number[] // ポートフォリオの配分（外貨建ての割合の計算に使う）
+  onApplyLocalRisk: (risk: number) => void
+}
+
+export default function CurrencyRiskCard (props: Props): React.JSX.Element {
+  const { value, onChange, expectedReturn, risk, portfolioWeights, onApplyLocalRisk } = props
+
+  const [isOpen, setIsOpen] = useState(false)
+
+  const yen = calculateYenReturnAndRisk(expectedReturn, risk, value)
+  const currencyVarianceShare = calculateCurrencyVarianceShare(risk, value)
+  const portfolioForeignShare = calculatePortfolioForeignShare(assetClasses, portfolioWeights)
+
+  const handleChange = (field: keyof CurrencySettings) => (e: React.ChangeEvent<HTMLInputElement>): void => {
+    const fieldValue = parseFloat(e.target.value)
+    onChange({ ...value, [field]: isNaN(fieldValue) ? ZERO : fieldValue })
+  }
+
+  const handleApplyPortfolioForeignShare = (): void => {
+    onChange({ ...value, foreignShare: Math.round(portfolioForeignShare) })
+  }
+
+  const handleApplyLocalRisk = (): void => {
+    onApplyLocalRisk(calculateLocalRisk(risk, value))
+  }
+
+  return (
+    <Card className="mb-4">
+      <Card.Header
+        onClick={() => { setIsOpen(!isOpen) }}
+        style={{ cursor: 'pointer' }}
+        className="d-flex justify-content-between align-items-center"
+      >
+        <h6 className="mb-0">外貨建て資産の為替リスク</h6>
+        {isOpen ? <BsChevronUp /> : <BsChevronDown />}
+      </Card.Header>
+      <Collapse in={isOpen}>
+        <Card.Body>
+          <p>
+            外貨建ての割合を0%より大きくすると、上の想定リターンとリスクを為替変動を除いた現地通貨建ての値とみなし、
+            為替レートの変動と為替ヘッジを加えた円ベースの値で資産分布を計算します。
+          </p>
+          <Row>
+            <Col md={6}>
+              <Form.Group className="mb-3">
+                <Form.Label>外貨建ての割合 (%)</Form.Label>
+                <Form.Control
+                  type="number"
+                  value={value.foreignShare}
+                  onChange={handleChange('foreignShare')}
+                  min={0}
+                  max={100}
+                  step={SHARE_STEP}
+                />
+                <Form.Text className="text-muted">
+                  ポートフォリオの配分では {portfolioForeignShare.toFixed(DECIMAL_ONE)}%（
+                  <Button variant="link" size="sm" className="p-0 align-baseline" onClick={handleApplyPortfolioForeignShare}>
+                    この値を使う
+                  </Button>
+                  ）
+                </Form.Text>
+              </Form.Group>
+            </Col>
+            <Col md={6}>
+              <Form.Group className="mb-3">
+                <Form.Label>為替リスク (標準偏差 %/年)</Form.Label>
+                <Form.Control
+                  type="number"
+                  value={value.fxRisk}
+                  onChange={handleChange('fxRisk')}
+                  min={0}
+                  step={0.5}
+                />
+                <Form.Text className="text-muted">
+                  円と外貨の為替レートの年間の変動。ドル円はおおむね10%前後です。
+                </Form.Text>
+              </Form.Group>
+            </Col>
+          </Row>
+          <Row>
+            <Col md={4}>
+              <Form.Group className="mb-3">
+                <Form.Label>為替と資産の相関係数</Form.Label>
+                <Form.Control
+                  type="number"
+                  value={value.fxCorrelation}
+                  onChange={handleChange('fxCorrelation')}
+                  min={-1}
+                  max={1}
+                  step={CORRELATION_STEP}
+                />
+                <Form.Text className="text-muted">
+                  円安を正とした相関。株安の局面で円高になりやすい場合はプラスです。
+                </Form.Text>
+              </Form.Group>
+            </Col>
+            <Col md={4}>
+              <Form.Group className="mb-3">
+                <Form.Label>為替ヘッジの割合 (%)</Form.Label>
+                <Form.Control
+                  type="number"
+                  value={value.hedgeRatio}
+                  onChange={handleChange('hedgeRatio')}
+                  min={0}
+                  max={100}
+                  step={SHARE_STEP}
+                />
+                <Form.Text className="text-muted">
+                  外貨建て部分のうち為替ヘッジする割合。
+                </Form.Text>
+              </Form.Group>
+            </Col>
+            <Col md={4}>
+              <Form.Group className="mb-3">
+                <Form.Label>為替ヘッジのコスト (%/年)</Form.Label>
+                <Form.Control
+                  type="number"
+                  value={value.hedgeCost}
+                  onChange={handleChange('hedgeCost')}
+                  step={0.1}
+                />
+                <Form.Text className="text-muted">
+                  おおむね円と外貨の短期金利の差です。ヘッジした部分のリターンから差し引きます。
+                </Form.Text>
+              </Form.Group>
+            </Col>
+          </Row>
+
+          <p className="mb-3">
+            円ベース: 想定リターン <strong>{yen.expectedReturn.toFixed(DECIMAL_TWO)}%</strong> / 年、
+            想定リスク <strong>{yen.risk.toFixed(DECIMAL_TWO)}%</strong> / 年
+            {yen.risk < risk
+              ? `（為替が資産と逆方向に動くため、為替を考慮しない場合よりリスクが ${(risk - yen.risk).toFixed(DECIMAL_TWO)} ポイント低くなります）`
+              : `（分散のうち為替による部分 ${(currencyVarianceShare * PERCENTAGE_DIVISOR).toFixed(DECIMAL_ONE)}%）`}
+          </p>
+          <Button
+            variant="outline-primary"
+            size="sm"
+            disabled={value.foreignShare <= ZERO}
+            onClick={handleApplyLocalRisk}
+          >
+            現在の想定リスクを円ベースとみなして為替を除いた値に置き換える
+          </Button>
+          <Form.Text className="text-muted d-block mt-2">
+            代表的な資産クラスやポートフォリオの想定リスクは、為替変動を含む円ベースの値です。それらを適用した後に外貨建ての割合を設定する場合は、
+            このボタンで為替変動の分を取り除いてください（為替ヘッジの設定は使わずに逆算します）。為替レートの期待変化率は0としています。
+          </Form.Text>
+        </Card.Body>
+      </Collapse>
+    </Card>
+  )
+}
@@ -0,0 +1,135 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import { Card, Form, Table, Button, Alert, Collapse } from 'react-bootstrap'
+import { BsChevronDown, BsChevronUp } from 'react-icons/bs'
+
+import CorrelationMatrixTable from '@/components/settings/CorrelationMatrixTable'
+import {
+  assetClasses,
+  calculatePortfolioReturnAndRisk,
+  calculateTotalWeight,
+  defaultCorrelationMatrix,
+  isValidCorrelationMatrix,
+  isValidWeights,
+  type PortfolioSettings
+} from '@/utils/portfolio'
+
+const ZERO = 0
+const DECIMAL_ONE = 1
+const DECIMAL_TWO = 2
+const WEIGHT_STEP = 5
+
+interface Props {
+  value: PortfolioSettings
+  onChange: (value: PortfolioSettings) => void
+  onApply: (expectedReturn: number, risk: number) => void
+}
+
+export default function PortfolioBuilderCard (props: Props): React.JSX.Element {
+  const { value, onChange, onApply } = props
+
+  const [isOpen, setIsOpen] = useState(false)
+
+  const totalWeight = calculateTotalWeight(value.weights)
+  const isCorrelationValid = useMemo(() => isValidCorrelationMatrix(value.correlations), [value.correlations])
+  const isWeightValid = isValidWeights(value.weights)
+  const { expectedReturn, risk } = calculatePortfolioReturnAndRisk(assetClasses, value)
+
+  const handleWeightChange = (index: number) => (e: React.ChangeEvent<HTMLInputElement>): void => {
+    const weight = parseFloat(e.target.value)
+    onChange({
+      ...value,
+      weights: value.weights.map((current, i) => (i === index ? (isNaN(weight) ? ZERO : weight) : current))
+    })
+  }
+
+  const handleCorrelationsChange = (correlations: number[][]): void => {
+    onChange({ ...value, correlations })
+  }
+
+  const handleResetCorrelations = (): void => {
+    onChange({ ...value, correlations: defaultCorrelationMatrix })
+  }
+
+  return (
+    <Card className="mb-4">
+      <Card.Header
+        onClick={() => { setIsOpen(!isOpen) }}
+        style={{ cursor: 'pointer' }}
+        className="d-flex justify-content-between align-items-center"
+      >
+        <h6 className="mb-0">複数の資産クラスを組み合わせる（ポートフォリオ）</h6>
+        {isOpen ? <BsChevronUp /> : <BsChevronDown />}
+      </Card.Header>
+      <Collapse in={isOpen}>
+        <Card.Body>
+          <Table striped bordered responsive size="sm">
+            <thead>
+              <tr>
+                <th>資産クラス</th>
+                <th>想定リターン (%/年)</th>
+                <th>想定リスク (%/年)</th>
+                <th>配分 (%)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {assetClasses.map((assetClass, index) => (
+                <tr key={assetClass.name}>
+                  <td>{assetClass.name}</td>
+                  <td>{assetClass.expectedReturn.toFixed(DECIMAL_ONE)}%</td>
+                  <td>{assetClass.risk.toFixed(DECIMAL_ONE)}%</td>
+                  <td>
+                    <Form.Control
+                      type="number"
+                      size="sm"
+                      value={value.weights[index]}
+                      onChange={handleWeightChange(index)}
+                      min={0}
+                      max={100}
+                      step={WEIGHT_STEP}
+                    />
+                  </td>
+                </tr>
+              ))}
+              <tr>
+                <td colSpan={3}><strong>合計</strong></td>
+                <td className={isWeightValid ? '' : 'text-danger'}><strong>{totalWeight}%</strong></td>
+              </tr>
+            </tbody>
+          </Table>
+
+          <h6 className="mt-3">相関係数</h6>
+          <CorrelationMatrixTable value={value.correlations} onChange={handleCorrelationsChange} />
+
+          {!isWeightValid && (
+            <Alert variant="warning">
+              配分は0%以上で、合計が100%になるように入力してください。
+            </Alert>
+          )}
+
+          <p className="mb-3">
+            ポートフォリオ全体: 想定リターン <strong>{expectedReturn.toFixed(DECIMAL_TWO)}%</strong> / 年、
+            想定リスク <strong>{risk.toFixed(DECIMAL_TWO)}%</strong> / 年
+          </p>
+          <div className="d-flex gap-2">
+            <Button
+              variant="outline-primary"
+              size="sm"
+              disabled={!isCorrelationValid || !isWeightValid}
+              onClick={() => { onApply(expectedReturn, risk) }}
+            >
+              このポートフォリオを適用
+            </Button>
+            <Button variant="outline-secondary" size="sm" onClick={handleResetCorrelations}>
+              相関係数を初期値に戻す
+            </Button>
+          </div>
+          <Form.Text className="text-muted d-block mt-2">
+            各資産の配分と相関係数から、ポートフォリオ全体のリターンとリスクを計算してフォームに適用します。
+          </Form.Text>
+        </Card.Body>
+      </Collapse>
+    </Card>
+  )
+}
@@ -0,0 +1,163 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Card, Form, Button, Badge } from 'react-bootstrap'
+import { toast } from 'react-toastify'
+
+import Modal from '@/components/Modal'
+import type { SettingsProfile } from '@/contexts/SettingsContext'
+
+export const MAX_PROFILE_NAME_LENGTH = 30
+const MIN_PROFILES = 1
+
+interface Props {
+  profiles: SettingsProfile[]
+  activeProfile: SettingsProfile
+  hasUnsavedChanges: boolean // 未保存の変更がある場合は、切り替え時に破棄されることを表示する
+  onSwitch: (id: string) => void
+  onCreate: (name: string) => void
+  onDuplicate: (name: string) => void
+  onRename: (id: string, name: string) => void
+  onDelete: (id: string) => void
+}
+
+// プロファイル名を検証（問題がない場合は null）
+function validateProfileName (name: string, profiles: SettingsProfile[], excludeId: string | null = null): string | null {
+  if (name === '') {
+    return 'プロファイル名を入力してください。'
+  }
+  if (name.length > MAX_PROFILE_NAME_LENGTH) {
+    return `プロファイル名は${MAX_PROFILE_NAME_LENGTH}文字以内で入力してください。`
+  }
+  if (profiles.some(profile => profile.name === name && profile.id !== excludeId)) {
+    return '同じ名前のプロファイルがすでにあります。'
+  }
+  return null
+}
+
+export default function ProfileManagerCard (props: Props): React.JSX.Element {
+  const { profiles, activeProfile, hasUnsavedChanges, onSwitch, onCreate, onDuplicate, onRename, onDelete } = props
+
+  const [profileName, setProfileName] = useState('')
+  const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false)
+
+  const trimmedName = profileName.trim()
+
+  // 名前を検証し、問題がなければ操作を実行して入力欄を空にする
+  const runWithName = (action: (name: string) => void, message: string, excludeId: string | null = null): void => {
+    const error = validateProfileName(trimmedName, profiles, excludeId)
+    if (error !== null) {
+      toast.error(error)
+      return
+    }
+    action(trimmedName)
+    setProfileName('')
+    toast.success(message)
+  }
+
+  const handleSwitch = (e: React.ChangeEvent<HTMLSelectElement>): void => {
+    const { value: id } = e.target
+    onSwitch(id)
+    const name = profiles.find(profile => profile.id === id)?.name ?? ''
+    toast.info(`プロファイル「${name}」に切り替えました。`)
+  }
+
+  const handleCreate = (): void => {
+    runWithName(onCreate, `プロファイル「${trimmedName}」を作成しました。`)
+  }
+
+  const handleDuplicate = (): void => {
+    runWithName(onDuplicate, `「${activeProfile.name}」を複製して「${trimmedName}」を作成しました。`)
+  }
+
+  const handleRename = (): void => {
+    runWithName(name => { onRename(activeProfile.id, name) }, `プロファイル名を「${trimmedName}」に変更しました。`, activeProfile.id)
+  }
+
+  const handleDeleteConfirm = (): void => {
+    onDelete(activeProfile.id)
+    setIsDeleteModalOpen(false)
+    toast.info(`プロファイル「${activeProfile.name}」を削除しました。`)
+  }
+
+  const handleDeleteCancel = (): void => {
+    setIsDeleteModalOpen(false)
+  }
+
+  return (
+    <Card className="mb-4">
+      <Card.Body>
+        <h5>
+          👤 プロファイル
+          <Badge bg="primary" className="ms-2">{activeProfile.name}</Badge>
+        </h5>
+        <p className="text-muted small">
+          自分用・家族用・NISA用など、複数の設定を名前を付けて保存できます。設定はプロファイルごとに保存され、すべてのページで選択中のプロファイルの設定を使用します。
+        </p>
+        <Form.Group className="mb-3">
+          <Form.Label>使用するプロファイル</Form.Label>
+          <Form.Select value={activeProfile.id} onChange={handleSwitch}>
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </Form.Select>
+          {hasUnsavedChanges && (
+            <Form.Text className="text-danger">
+              未保存の変更があります。プロファイルを切り替えたり作成したりすると、保存していない変更は破棄されます。
+            </Form.Text>
+          )}
+        </Form.Group>
+        <Form.Group className="mb-3">
+          <Form.Label>プロファイル名</Form.Label>
+          <Form.Control
+            type="text"
+            value={profileName}
+            maxLength={MAX_PROFILE_NAME_LENGTH}
+            placeholder="例: 両親用、積極的なNISA"
+            onChange={(e) => { setProfileName(e.target.value) }}
+          />
+        </Form.Group>
+        <div className="d-flex flex-wrap gap-2">
+          <Button variant="outline-primary" size="sm" onClick={handleCreate}>
+            新規作成（デフォルト値）
+          </Button>
+          <Button variant="outline-primary" size="sm" onClick={handleDuplicate}>
+            選択中のプロファイルを複製
+          </Button>
+          <Button variant="outline-secondary" size="sm" onClick={handleRename}>
+            選択中のプロファイルの名前を変更
+          </Button>
+          <Button
+            variant="outline-danger"
+            size="sm"
+            onClick={() => { setIsDeleteModalOpen(true) }}
+            disabled={profiles.length <= MIN_PROFILES}
+          >
+            選択中のプロファイルを削除
+          </Button>
+        </div>
+      </Card.Body>
+
+      <Modal
+        modalIsOpen={isDeleteModalOpen}
+        closeModal={handleDeleteCancel}
+        contentLabel="プロファイル削除確認"
+      >
+        <div className="p-4">
+          <h4 className="mb-3">プロファイル「{activeProfile.name}」を削除しますか？</h4>
+          <p className="mb-4">
+            このプロファイルに保存した設定も削除されます。この操作は取り消せません。
+          </p>
+          <div className="d-flex gap-2 justify-content-end">
+            <Button variant="secondary" onClick={handleDeleteCancel}>
+              キャンセル
+            </Button>
+            <Button variant="danger" onClick={handleDeleteConfirm}>
+              削除
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </Card>
+  )
+}
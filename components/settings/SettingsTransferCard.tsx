@@ -0,0 +1,247 @@
+'use client'
+
+import React, { useRef, useState } from 'react'
+import { Card, Form, Button, Table, Alert } from 'react-bootstrap'
+import { toast } from 'react-toastify'
+
+import Modal from '@/components/Modal'
+import { MAX_PROFILE_NAME_LENGTH } from '@/components/settings/ProfileManagerCard'
+import { defaultSettings, type InvestmentSettings, type SettingsProfile } from '@/contexts/SettingsContext'
+import { contributionFrequencyLabels } from '@/utils/contributions'
+import { assetClasses } from '@/utils/portfolio'
+import {
+  createSettingsFile,
+  findChangedSettingKeys,
+  parseSettingsFile,
+  settingLabels,
+  type ImportedProfile,
+  type SettingsFileProfile
+} from '@/utils/settingsSchema'
+
+const ZERO = 0
+const FILE_DATE_LENGTH = 10
+const SINGLE_PROFILE = 1
+const ONE = 1
+const FIRST_DUPLICATE_NUMBER = 2
+const REVOKE_URL_DELAY = 1000 // ダウンロードが始まる前にURLを無効にしないよう遅らせる (ms)
+const DEFAULT_IMPORTED_PROFILE_NAME = 'インポートした設定'
+
+interface Props {
+  settings: InvestmentSettings // 選択中のプロファイルの保存済みの設定
+  profiles: SettingsProfile[]
+  activeProfile: SettingsProfile
+  getAllProfileSettings: () => Array<{ profile: SettingsProfile, settings: InvestmentSettings }>
+  hasUnsavedChanges: boolean
+  onApply: (settings: InvestmentSettings) => void
+  onImportProfiles: (imported: SettingsFileProfile[]) => void
+}
+
+// 差分の表に表示する値
+const formatSettingValue = (key: keyof InvestmentSettings, settings: InvestmentSettings): string => {
+  const { [key]: value } = settings
+  if (typeof value === 'number') {
+    return value.toLocaleString()
+  }
+  if (key === 'contributionFrequency') {
+    return contributionFrequencyLabels[settings.contributionFrequency]
+  }
+  if (key === 'portfolio') {
+    const allocation = settings.portfolio.weights
+      .map((weight, i) => (weight > ZERO ? `${assetClasses[i].name} ${weight}%` : ''))
+      .filter(label => label !== '')
+      .join('、')
+    return `${allocation}（相関行列を含む）`
+  }
+  const { currency } = settings
+  return `外貨建て ${currency.foreignShare}%、為替リスク ${currency.fxRisk}%、相関 ${currency.fxCorrelation}、ヘッジ ${currency.hedgeRatio}%（コスト ${currency.hedgeCost}%）`
+}
+
+// 文字列をファイルとしてダウンロードする
+const downloadFile = (content: string, fileName: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  setTimeout(() => { URL.revokeObjectURL(url) }, REVOKE_URL_DELAY)
+}
+
+// 既存のプロファイルや他のインポートするプロファイルと重ならない名前を付ける（「名前（2）」のように番号を付ける）
+const createUniqueProfileNames = (imported: ImportedProfile[], profiles: SettingsProfile[]): string[] => {
+  const usedNames = new Set(profiles.map(profile => profile.name))
+  return imported.map(profile => {
+    const trimmedName = profile.name.trim()
+    const baseName = (trimmedName !== '' ? trimmedName : DEFAULT_IMPORTED_PROFILE_NAME).slice(ZERO, MAX_PROFILE_NAME_LENGTH)
+    let name = baseName
+    for (let number = FIRST_DUPLICATE_NUMBER; usedNames.has(name); number += ONE) {
+      const suffix = `（${number}）`
+      name = `${baseName.slice(ZERO, MAX_PROFILE_NAME_LENGTH - suffix.length)}${suffix}`
+    }
+    usedNames.add(name)
+    return name
+  })
+}
+
+export default function SettingsTransferCard (props: Props): React.JSX.Element {
+  const { settings, profiles, activeProfile, getAllProfileSettings, hasUnsavedChanges, onApply, onImportProfiles } = props
+
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [importedProfiles, setImportedProfiles] = useState<ImportedProfile[] | null>(null)
+  const [selectedIndex, setSelectedIndex] = useState(ZERO)
+
+  const selected = importedProfiles?.[selectedIndex] ?? null
+  const changedKeys = selected !== null ? findChangedSettingKeys(settings, selected.settings) : []
+
+  // 選択中のプロファイルを先頭にして、すべてのプロファイルをエクスポート
+  const handleExport = (): void => {
+    const profiles = getAllProfileSettings()
+      .sort((a, b) => Number(b.profile.id === activeProfile.id) - Number(a.profile.id === activeProfile.id))
+      .map(({ profile, settings: profileSettings }) => ({ name: profile.name, settings: profileSettings }))
+    const exportedAt = new Date()
+    downloadFile(createSettingsFile(profiles, exportedAt), `investment-settings-${exportedAt.toISOString().slice(ZERO, FILE_DATE_LENGTH)}.json`)
+    toast.success(`${profiles.length}件のプロファイルの設定をエクスポートしました。`)
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = e.target.files?.[ZERO]
+    // 同じファイルを続けて選択できるように選択を解除
+    if (fileInputRef.current !== null) {
+      fileInputRef.current.value = ''
+    }
+    if (file === undefined) {
+      return
+    }
+    const text = await file.text().catch(() => null)
+    if (text === null) {
+      toast.error(`${file.name} を読み込めませんでした。`)
+      return
+    }
+    const profiles = parseSettingsFile(text, defaultSettings)
+    if (profiles === null) {
+      toast.error('設定ファイルを読み込めませんでした。エクスポートしたJSONファイルを選択してください。')
+      return
+    }
+    setSelectedIndex(ZERO)
+    setImportedProfiles(profiles)
+  }
+
+  const handleImportCancel = (): void => {
+    setImportedProfiles(null)
+  }
+
+  const handleImportConfirm = (): void => {
+    if (selected === null) {
+      return
+    }
+    onApply(selected.settings)
+    setImportedProfiles(null)
+    toast.success(`インポートした設定をプロファイル「${activeProfile.name}」に適用しました。`)
+  }
+
+  // 読み込んだすべてのプロファイルを、新しいプロファイルとして追加する
+  const handleImportAsProfiles = (): void => {
+    if (importedProfiles === null) {
+      return
+    }
+    const names = createUniqueProfileNames(importedProfiles, profiles)
+    onImportProfiles(importedProfiles.map((profile, i) => ({ name: names[i], settings: profile.settings })))
+    setImportedProfiles(null)
+    toast.success(`${names.length}件のプロファイル（${names.join('、')}）を追加し、「${names[ZERO]}」に切り替えました。`)
+  }
+
+  return (
+    <Card className="mt-4">
+      <Card.Body>
+        <h5>📁 設定のエクスポート・インポート</h5>
+        <p className="text-muted small">
+          設定をJSONファイルに保存して、他の端末や他の人と共有できます。エクスポートにはすべてのプロファイルが含まれます。インポートでは、選んだ設定を選択中のプロファイル「{activeProfile.name}」に適用するか、ファイルのすべてのプロファイルを新しいプロファイルとして追加できます。
+        </p>
+        <div className="d-flex flex-wrap gap-2">
+          <Button variant="outline-primary" onClick={handleExport}>
+            JSONファイルをエクスポート
+          </Button>
+          <Button variant="outline-primary" onClick={() => { fileInputRef.current?.click() }}>
+            JSONファイルをインポート
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="d-none"
+            onChange={(e) => { void handleFileChange(e) }}
+          />
+        </div>
+      </Card.Body>
+
+      <Modal
+        modalIsOpen={importedProfiles !== null}
+        closeModal={handleImportCancel}
+        contentLabel="設定インポート確認"
+      >
+        <div className="p-4">
+          <h4 className="mb-3">この設定をインポートしますか？</h4>
+          {importedProfiles !== null && importedProfiles.length > SINGLE_PROFILE && (
+            <Form.Group className="mb-3">
+              <Form.Label>インポートするプロファイル</Form.Label>
+              <Form.Select value={selectedIndex} onChange={(e) => { setSelectedIndex(Number(e.target.value)) }}>
+                {importedProfiles.map((profile, index) => (
+                  <option key={index} value={index}>{profile.name}</option>
+                ))}
+              </Form.Select>
+            </Form.Group>
+          )}
+          {selected?.isNewerVersion === true && (
+            <Alert variant="warning">
+              新しいバージョンでエクスポートされた設定です。このバージョンで扱えない項目は読み込まず、デフォルト値を使用します。
+            </Alert>
+          )}
+          {selected !== null && selected.repairedKeys.length > ZERO && (
+            <Alert variant="warning">
+              次の項目は不正な値だったため、デフォルト値を使用します: {selected.repairedKeys.map(key => settingLabels[key]).join('、')}
+            </Alert>
+          )}
+          {selected !== null && changedKeys.length > ZERO
+            ? (
+              <Table striped bordered responsive size="sm">
+                <thead>
+                  <tr>
+                    <th>項目</th>
+                    <th>現在（{activeProfile.name}）</th>
+                    <th>インポート後</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changedKeys.map(key => (
+                    <tr key={key}>
+                      <td>{settingLabels[key]}</td>
+                      <td>{formatSettingValue(key, settings)}</td>
+                      <td><strong>{formatSettingValue(key, selected.settings)}</strong></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </Table>
+              )
+            : (
+              <p>現在の設定と同じです。</p>
+              )}
+          {hasUnsavedChanges && (
+            <p className="text-danger small">設定ページの未保存の変更は破棄されます。</p>
+          )}
+          <div className="d-flex gap-2 justify-content-end">
+            <Button variant="secondary" onClick={handleImportCancel}>
+              キャンセル
+            </Button>
+            {importedProfiles !== null && (
+              <Button variant="outline-primary" onClick={handleImportAsProfiles}>
+                {importedProfiles.length > SINGLE_PROFILE ? `すべて（${importedProfiles.length}件）を` : ''}新しいプロファイルとして追加
+              </Button>
+            )}
+            <Button variant="primary" onClick={handleImportConfirm} disabled={changedKeys.length === ZERO}>
+              「{activeProfile.name}」に適用
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </Card>
+  )
+}
@@ -1,13 +1,36 @@
 'use client'
 
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react'
+import { toast } from 'react-toastify'
+
+import type { ContributionFrequency } from '@/utils/normalDistribution'
+import { defaultPortfolioSettings, type PortfolioSettings } from '@/utils/portfolio'
+import { defaultCurrencySettings, type CurrencySettings } from '@/utils/currency'
+import {
+  restoreSettings,
+  serializeSettings,
+  settingLabels,
+  type LoadedSettings,
+  type SettingsFileProfile
+} from '@/utils/settingsSchema'
 
 export interface InvestmentSettings {
   totalAssets: number // 資産総額
-  investmentRatio: number // 投資比率 (0-100)
+  investmentRatio: number // 投資比率 (0-300、100を超える部分は借入)
   probabilityThreshold: number // 何%の可能性まで考慮するか (0-100)
   expectedReturn: number // リターン (%)
   risk: number // リスク (%)
+  contributionAmount: number // 1回あたりの積立額 (円)
+  contributionFrequency: ContributionFrequency // 積立頻度
+  contributionGrowthRate: number // 積立額の年間増加率 (%)
+  inflationRate: number // 物価上昇率 (%/年)
+  riskFreeRate: number // 投資していない部分の利回り（無リスク金利 %/年）
+  borrowingRate: number // 投資比率が100%を超える場合の借入金利 (%/年)
+  maintenanceMargin: number // 借入による投資の最低維持率 (%)
+  expenseRatio: number // 信託報酬 (%/年)
+  nisaAllowance: number // 投資元本のうちNISAで保有する金額 (円)
+  portfolio: PortfolioSettings // 複数の資産クラスの配分と相関行列
+  currency: CurrencySettings // 外貨建て資産の為替リスクと為替ヘッジ
 }
 
 const DEFAULT_TOTAL_ASSETS = 1_000_000
@@ -15,67 +38,295 @@ const DEFAULT_INVESTMENT_RATIO = 50
 const DEFAULT_PROBABILITY_THRESHOLD = 99.5
 const DEFAULT_EXPECTED_RETURN = 7.5
 const DEFAULT_RISK = 18.0
+const DEFAULT_CONTRIBUTION_AMOUNT = 0
+const DEFAULT_CONTRIBUTION_GROWTH_RATE = 0
+const DEFAULT_INFLATION_RATE = 2.0
+const DEFAULT_RISK_FREE_RATE = 0
+const DEFAULT_BORROWING_RATE = 3.0
+const DEFAULT_MAINTENANCE_MARGIN = 25
+const DEFAULT_EXPENSE_RATIO = 0
+const DEFAULT_NISA_ALLOWANCE = 0
 
 export const defaultSettings: InvestmentSettings = {
   totalAssets: DEFAULT_TOTAL_ASSETS,
   investmentRatio: DEFAULT_INVESTMENT_RATIO,
   probabilityThreshold: DEFAULT_PROBABILITY_THRESHOLD,
   expectedReturn: DEFAULT_EXPECTED_RETURN,
-  risk: DEFAULT_RISK
+  risk: DEFAULT_RISK,
+  contributionAmount: DEFAULT_CONTRIBUTION_AMOUNT,
+  contributionFrequency: 'monthly',
+  contributionGrowthRate: DEFAULT_CONTRIBUTION_GROWTH_RATE,
+  inflationRate: DEFAULT_INFLATION_RATE,
+  riskFreeRate: DEFAULT_RISK_FREE_RATE,
+  borrowingRate: DEFAULT_BORROWING_RATE,
+  maintenanceMargin: DEFAULT_MAINTENANCE_MARGIN,
+  expenseRatio: DEFAULT_EXPENSE_RATIO,
+  nisaAllowance: DEFAULT_NISA_ALLOWANCE,
+  portfolio: defaultPortfolioSettings,
+  currency: defaultCurrencySettings
+}
+
+/**
+ * 名前付きの設定（プロファイル）
+ */
+export interface SettingsProfile {
+  id: string
+  name: string
+}
+
+// プロファイルの一覧と、選択中のプロファイル
+interface ProfileIndex {
+  activeProfileId: string
+  profiles: SettingsProfile[]
 }
 
 interface SettingsContextType {
-  settings: InvestmentSettings
+  settings: InvestmentSettings // 選択中のプロファイルの設定
   updateSettings: (newSettings: Partial<InvestmentSettings>) => void
   resetSettings: () => void
+  profiles: SettingsProfile[]
+  activeProfile: SettingsProfile
+  createProfile: (name: string) => void // デフォルト値の設定で作成して切り替える
+  duplicateProfile: (name: string) => void // 選択中のプロファイルの設定を複製して切り替える
+  renameProfile: (id: string, name: string) => void
+  deleteProfile: (id: string) => void // 最後の1つは削除できない
+  switchProfile: (id: string) => void
+  importProfiles: (imported: SettingsFileProfile[]) => void // 新しいプロファイルとして追加し、先頭のプロファイルに切り替える
+  getAllProfileSettings: () => Array<{ profile: SettingsProfile, settings: InvestmentSettings }> // すべてのプロファイルの保存済みの設定
 }
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined)
 
 const STORAGE_KEY = 'investment-settings'
+const PROFILES_STORAGE_KEY = 'investment-profiles'
+const DEFAULT_PROFILE_ID = 'default'
+const DEFAULT_PROFILE_NAME = 'デフォルト'
+const ID_RADIX = 36
+const ID_RANDOM_START = 2
+const ID_RANDOM_END = 8
+const MIN_PROFILES = 1
+const ZERO = 0
+
+const defaultProfile: SettingsProfile = { id: DEFAULT_PROFILE_ID, name: DEFAULT_PROFILE_NAME }
+
+const defaultProfileIndex: ProfileIndex = {
+  activeProfileId: DEFAULT_PROFILE_ID,
+  profiles: [defaultProfile]
+}
+
+// プロファイルごとの保存先のキー
+// 既定のプロファイルは従来のキーに保存し、プロファイル導入前の設定をそのまま引き継ぐ
+const getProfileStorageKey = (id: string): string => (
+  id === DEFAULT_PROFILE_ID ? STORAGE_KEY : `${STORAGE_KEY}:${id}`
+)
+
+const createProfileId = (): string => (
+  `profile-${Date.now().toString(ID_RADIX)}-${Math.random().toString(ID_RADIX).slice(ID_RANDOM_START, ID_RANDOM_END)}`
+)
+
+// プロファイルの設定をlocalStorageから読み込む
+// 古い形式はマイグレーションし、不正な項目は項目ごとにデフォルト値に戻す
+function loadProfileSettings (id: string): LoadedSettings {
+  const stored = localStorage.getItem(getProfileStorageKey(id))
+  if (stored === null) {
+    return { settings: defaultSettings, repairedKeys: [], isNewerVersion: false }
+  }
+
+  try {
+    return restoreSettings(JSON.parse(stored), defaultSettings)
+  } catch {
+    // 設定のパースに失敗した場合はすべての項目をデフォルトに戻す
+    return restoreSettings(null, defaultSettings)
+  }
+}
+
+function saveProfileSettings (id: string, settings: InvestmentSettings): void {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(getProfileStorageKey(id), serializeSettings(settings))
+  }
+}
+
+function removeProfileSettings (id: string): void {
+  if (typeof window !== 'undefined') {
+    localStorage.removeItem(getProfileStorageKey(id))
+  }
+}
+
+// 値がプロファイル（文字列の ID と名前）かどうか
+const isSettingsProfile = (value: unknown): value is SettingsProfile => (
+  typeof value === 'object' && value !== null &&
+  'id' in value && typeof value.id === 'string' &&
+  'name' in value && typeof value.name === 'string'
+)
+
+// 保存されていたプロファイルの一覧を検証する
+// 不正なプロファイルと重複した ID のプロファイルは除き、選択中のプロファイルが残っていない場合は先頭のプロファイルを選ぶ
+function parseProfileIndex (value: unknown): ProfileIndex | null {
+  if (typeof value !== 'object' || value === null || !('profiles' in value) || !Array.isArray(value.profiles)) {
+    return null
+  }
+  const profiles = value.profiles
+    .filter(isSettingsProfile)
+    .filter((profile, index, all) => all.findIndex(item => item.id === profile.id) === index)
+  if (profiles.length < MIN_PROFILES) {
+    return null
+  }
+  const activeProfile = profiles.find(profile => 'activeProfileId' in value && profile.id === value.activeProfileId) ?? profiles[ZERO]
+  return { activeProfileId: activeProfile.id, profiles }
+}
+
+// プロファイルの一覧をlocalStorageから読み込む（壊れている場合は既定のプロファイルのみ）
+function loadProfileIndex (): ProfileIndex {
+  const stored = localStorage.getItem(PROFILES_STORAGE_KEY)
+  if (stored === null) {
+    return defaultProfileIndex
+  }
+
+  try {
+    return parseProfileIndex(JSON.parse(stored)) ?? defaultProfileIndex
+  } catch {
+    return defaultProfileIndex
+  }
+}
+
+function saveProfileIndex (index: ProfileIndex): void {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(index))
+  }
+}
+
+// プロファイルの設定を読み込み、不正な項目を修復した場合は修復後の設定を保存して通知する（新しいバージョンの設定は保存し直さない）
+function readProfileSettings (id: string): InvestmentSettings {
+  const { settings, repairedKeys, isNewerVersion } = loadProfileSettings(id)
+  if (isNewerVersion) {
+    // 新しいバージョンのアプリで保存された設定は、扱えない項目を失わないように保存し直さない
+    toast.warning('新しいバージョンで保存された設定です。このバージョンで扱えない項目は読み込まず、デフォルト値を使用します。')
+    return settings
+  }
+  if (repairedKeys.length > ZERO) {
+    saveProfileSettings(id, settings)
+    toast.warning(`保存されていた設定の一部が不正だったため、デフォルト値に戻しました: ${repairedKeys.map(key => settingLabels[key]).join('、')}`)
+  }
+  return settings
+}
 
 export function SettingsProvider ({ children }: { children: React.ReactNode }): React.JSX.Element {
   const [settings, setSettings] = useState<InvestmentSettings>(defaultSettings)
+  const [profileIndex, setProfileIndex] = useState<ProfileIndex>(defaultProfileIndex)
+  const { activeProfileId, profiles } = profileIndex
 
-  // 初回マウント時にlocalStorageから設定を読み込む
+  // 初回マウント時にlocalStorageからプロファイルの一覧と選択中のプロファイルの設定を読み込む
   useEffect(() => {
     if (typeof window === 'undefined') {
       return
     }
 
-    const stored = localStorage.getItem(STORAGE_KEY)
-    if (stored === null) {
-      return
-    }
+    const index = loadProfileIndex()
+    setProfileIndex(index)
+    setSettings(readProfileSettings(index.activeProfileId))
+  }, [])
 
-    try {
-      const parsed: unknown = JSON.parse(stored)
-      setSettings(parsed as InvestmentSettings)
-    } catch {
-      // 設定のパースに失敗した場合はデフォルトを使用
-    }
+  const applyProfileIndex = useCallback((index: ProfileIndex): void => {
+    saveProfileIndex(index)
+    setProfileIndex(index)
   }, [])
 
   const updateSettings = useCallback((newSettings: Partial<InvestmentSettings>): void => {
     setSettings(prev => {
       const updated = { ...prev, ...newSettings }
       // localStorageに保存（丸め処理は呼び出し側で実施済み）
-      if (typeof window !== 'undefined') {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(updated))
-      }
+      saveProfileSettings(activeProfileId, updated)
       return updated
     })
-  }, [])
+  }, [activeProfileId])
 
   const resetSettings = useCallback((): void => {
     setSettings(defaultSettings)
     // localStorageから削除
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem(STORAGE_KEY)
+    removeProfileSettings(activeProfileId)
+  }, [activeProfileId])
+
+  const switchProfile = useCallback((id: string): void => {
+    if (!profiles.some(profile => profile.id === id)) {
+      return
     }
-  }, [])
+    applyProfileIndex({ activeProfileId: id, profiles })
+    setSettings(readProfileSettings(id))
+  }, [profiles, applyProfileIndex])
+
+  // 新しいプロファイルを指定した設定で保存し、切り替える
+  const addProfile = useCallback((name: string, initialSettings: InvestmentSettings): void => {
+    const id = createProfileId()
+    saveProfileSettings(id, initialSettings)
+    applyProfileIndex({ activeProfileId: id, profiles: [...profiles, { id, name }] })
+    setSettings(initialSettings)
+  }, [profiles, applyProfileIndex])
 
-  const contextValue = { settings, updateSettings, resetSettings }
+  const importProfiles = useCallback((imported: SettingsFileProfile[]): void => {
+    if (imported.length === ZERO) {
+      return
+    }
+    const added = imported.map(profile => {
+      const id = createProfileId()
+      saveProfileSettings(id, profile.settings)
+      return { id, name: profile.name }
+    })
+    const [{ id: firstId }] = added
+    applyProfileIndex({ activeProfileId: firstId, profiles: [...profiles, ...added] })
+    setSettings(imported[ZERO].settings)
+  }, [profiles, applyProfileIndex])
+
+  const createProfile = useCallback((name: string): void => {
+    addProfile(name, defaultSettings)
+  }, [addProfile])
+
+  const duplicateProfile = useCallback((name: string): void => {
+    addProfile(name, settings)
+  }, [addProfile, settings])
+
+  const renameProfile = useCallback((id: string, name: string): void => {
+    applyProfileIndex({
+      activeProfileId,
+      profiles: profiles.map(profile => (profile.id === id ? { ...profile, name } : profile))
+    })
+  }, [activeProfileId, profiles, applyProfileIndex])
+
+  const deleteProfile = useCallback((id: string): void => {
+    const remaining = profiles.filter(profile => profile.id !== id)
+    if (remaining.length < MIN_PROFILES || remaining.length === profiles.length) {
+      return
+    }
+    removeProfileSettings(id)
+    // 選択中のプロファイルを削除した場合は、残りの先頭のプロファイルに切り替える
+    const [{ id: firstId }] = remaining
+    const nextActiveId = id === activeProfileId ? firstId : activeProfileId
+    applyProfileIndex({ activeProfileId: nextActiveId, profiles: remaining })
+    if (nextActiveId !== activeProfileId) {
+      setSettings(readProfileSettings(nextActiveId))
+    }
+  }, [activeProfileId, profiles, applyProfileIndex])
+
+  const getAllProfileSettings = useCallback(() => profiles.map(profile => ({
+    profile,
+    settings: profile.id === activeProfileId ? settings : loadProfileSettings(profile.id).settings
+  })), [activeProfileId, profiles, settings])
+
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId) ?? defaultProfile
+
+  const contextValue = {
+    settings,
+    updateSettings,
+    resetSettings,
+    profiles,
+    activeProfile,
+    createProfile,
+    duplicateProfile,
+    renameProfile,
+    deleteProfile,
+    switchProfile,
+    importProfiles,
+    getAllProfileSettings
+  }
 
   return (
     <SettingsContext.Provider value={contextValue}>
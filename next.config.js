@@ -14,6 +14,10 @@ export default {
   publicRuntimeConfig: {
     basePath: isProd ? SUB_DIRECTORY : ''
   },
+  /* クライアント側でも basePath を参照できるようにビルド時に埋め込む */
+  env: {
+    NEXT_PUBLIC_BASE_PATH: isProd ? SUB_DIRECTORY : ''
+  },
   trailingSlash: true,
   images: {
     unoptimized: true
@@ -30,6 +30,11 @@ const pages: Page[] = [
     path: '/distribution/',
     name: 'Distribution'
   },
+  {
+    emoji: '📈',
+    path: '/frontier/',
+    name: 'Frontier'
+  },
   {
     emoji: '📚',
     path: '/words/',
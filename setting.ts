@@ -3,7 +3,8 @@ const isProd = process.env.NODE_ENV === 'production'
 
 export default {
   isProd,
-  basePath: Env.basePath,
+  // process.env.SUB_DIRECTORY はクライアント側のコードに埋め込まれないため、next.config.js の env で埋め込んだ値を優先する
+  basePath: process.env.NEXT_PUBLIC_BASE_PATH ?? Env.basePath,
   apiPath: isProd ? '' : 'http://localhost:8000',
   title: '💤 安眠ラインを探せ！ 💤',
   description: '安眠ラインを探せ！ 💤💤💤',
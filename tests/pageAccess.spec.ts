@@ -3,3 +3,7 @@ import { test } from '@playwright/test'
 test('can access index page', async ({ page }) => {
   await page.goto('/')
 })
+
+test('can access frontier page', async ({ page }) => {
+  await page.goto('/frontier/')
+})
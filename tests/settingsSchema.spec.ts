@@ -0,0 +1,47 @@
+import { test, expect } from '@playwright/test'
+
+import { defaultSettings } from '@/contexts/SettingsContext'
+import { SETTINGS_SCHEMA_VERSION, restoreSettings, serializeSettings } from '@/utils/settingsSchema'
+
+const CHANGED_TOTAL_ASSETS = 20_000_000
+const TOTAL_LOSS_RETURN = -100
+const FULL_MAINTENANCE_MARGIN = 100
+const ONE = 1
+const NEXT_VERSION = SETTINGS_SCHEMA_VERSION + ONE
+const CHANGED_BORROWING_RATE = defaultSettings.borrowingRate + ONE
+
+test('restores stored settings of the current version as they were', () => {
+  const settings = { ...defaultSettings, totalAssets: CHANGED_TOTAL_ASSETS }
+  const restored = restoreSettings(JSON.parse(serializeSettings(settings)), defaultSettings)
+  expect(restored).toEqual({ settings, repairedKeys: [], isNewerVersion: false })
+})
+
+test('migrates unversioned settings and fills missing fields with defaults', () => {
+  const restored = restoreSettings({ totalAssets: CHANGED_TOTAL_ASSETS }, defaultSettings)
+  expect(restored.settings).toEqual({ ...defaultSettings, totalAssets: CHANGED_TOTAL_ASSETS })
+  expect(restored.repairedKeys).toEqual([])
+})
+
+test('repairs invalid fields and reports them', () => {
+  const restored = restoreSettings({
+    version: SETTINGS_SCHEMA_VERSION,
+    settings: { totalAssets: CHANGED_TOTAL_ASSETS, expectedReturn: TOTAL_LOSS_RETURN, contributionGrowthRate: TOTAL_LOSS_RETURN, risk: 'high' }
+  }, defaultSettings)
+  expect(restored.settings).toEqual({ ...defaultSettings, totalAssets: CHANGED_TOTAL_ASSETS })
+  expect([...restored.repairedKeys].sort()).toEqual(['contributionGrowthRate', 'expectedReturn', 'risk'])
+})
+
+test('validates loaded fields together and repairs only the field at fault', () => {
+  const restored = restoreSettings({
+    version: SETTINGS_SCHEMA_VERSION,
+    settings: { borrowingRate: CHANGED_BORROWING_RATE, maintenanceMargin: FULL_MAINTENANCE_MARGIN }
+  }, defaultSettings)
+  expect(restored.settings).toEqual({ ...defaultSettings, borrowingRate: CHANGED_BORROWING_RATE })
+  expect(restored.repairedKeys).toEqual(['maintenanceMargin'])
+})
+
+test('flags settings saved by a newer version', () => {
+  const restored = restoreSettings({ version: NEXT_VERSION, settings: { totalAssets: CHANGED_TOTAL_ASSETS } }, defaultSettings)
+  expect(restored.isNewerVersion).toBe(true)
+  expect(restored.settings.totalAssets).toBe(CHANGED_TOTAL_ASSETS)
+})
@@ -0,0 +1,53 @@
+import { test, expect } from '@playwright/test'
+
+import { defaultSettings } from '@/contexts/SettingsContext'
+import { createShareQuery, parseShareQuery, type SharedView } from '@/utils/shareLink'
+
+const CHANGED_TOTAL_ASSETS = 20_000_000
+const YEARS = 25
+const FRACTIONAL_YEARS = '2.5'
+const PROBABILITY_THRESHOLD = 90
+const INVESTMENT_RATIO = 120
+const DEGREES_OF_FREEDOM = 4
+const SKEWNESS = -2
+const AUTOCORRELATION = 0.2
+const RISK_AVERSION = 5
+const OUT_OF_RANGE_AUTOCORRELATION = '0.9'
+
+const view: SharedView = {
+  years: YEARS,
+  probabilityThreshold: PROBABILITY_THRESHOLD,
+  investmentRatio: INVESTMENT_RATIO,
+  distributionModel: { type: 'studentT', degreesOfFreedom: DEGREES_OF_FREEDOM, skewness: SKEWNESS },
+  autocorrelation: AUTOCORRELATION,
+  valueBasis: 'real',
+  riskAversion: RISK_AVERSION
+}
+
+const parse = (query: string): ReturnType<typeof parseShareQuery> => parseShareQuery(new URLSearchParams(query), defaultSettings)
+
+test('a share link restores the settings and the whole view', () => {
+  const settings = { ...defaultSettings, totalAssets: CHANGED_TOTAL_ASSETS }
+  expect(parse(createShareQuery(settings, view))).toEqual({ settings, repairedKeys: [], isNewerVersion: false, ...view })
+})
+
+test('a query without settings is not a share link', () => {
+  expect(parse(`years=${YEARS}`)).toBeNull()
+  expect(parse('settings=not-base64-json')).toBeNull()
+})
+
+test('missing or invalid view values are left to the page defaults', () => {
+  const query = new URLSearchParams(createShareQuery(defaultSettings, view))
+  query.set('years', FRACTIONAL_YEARS)
+  query.set('autocorrelation', OUT_OF_RANGE_AUTOCORRELATION)
+  query.set('basis', 'unknown')
+  query.set('model', 'toString')
+  query.delete('gamma')
+  const scenario = parse(query.toString())
+  expect(scenario?.years).toBeNull()
+  expect(scenario?.autocorrelation).toBeNull()
+  expect(scenario?.valueBasis).toBeNull()
+  expect(scenario?.distributionModel).toBeNull()
+  expect(scenario?.riskAversion).toBeNull()
+  expect(scenario?.investmentRatio).toBe(INVESTMENT_RATIO)
+})
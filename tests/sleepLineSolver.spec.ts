@@ -0,0 +1,71 @@
+import { test, expect } from '@playwright/test'
+
+import {
+  calculateWorstCaseLoss,
+  findMaxWithinTolerance,
+  findYearRangesWithinTolerance,
+  solveMaxInvestmentRatio,
+  solveMaxProbabilityThreshold,
+  solveMaxYears,
+  type SleepLineParams
+} from '@/utils/sleepLineSolver'
+
+const LOWER = 0
+const UPPER = 100
+const BOUNDARY = 37.5
+const BISECTION_DIGITS = 6
+const YEN_DIGITS = 0
+const MAX_LOSS = 1_000_000
+const HORIZON_MAX_LOSS = 2_000_000
+const FULL_INVESTMENT_RATIO = 100
+const FIRST_YEAR = 1
+const LAST_YEAR = 50
+const ROUNDING_TOLERANCE = 1
+const TOTAL_ASSETS = 10_000_000
+const INVESTMENT_RATIO = 50
+const EXPECTED_RETURN = 5
+const RISK = 15
+const YEARS = 10
+const PROBABILITY_THRESHOLD = 95
+
+const params: SleepLineParams = {
+  totalAssets: TOTAL_ASSETS,
+  investmentRatio: INVESTMENT_RATIO,
+  expectedReturn: EXPECTED_RETURN,
+  risk: RISK,
+  years: YEARS,
+  probabilityThreshold: PROBABILITY_THRESHOLD
+}
+
+test('findMaxWithinTolerance finds the boundary of a monotone condition', () => {
+  expect(findMaxWithinTolerance(LOWER, UPPER, value => value <= BOUNDARY)).toBeCloseTo(BOUNDARY, BISECTION_DIGITS)
+  expect(findMaxWithinTolerance(LOWER, UPPER, () => true)).toBe(UPPER)
+  expect(findMaxWithinTolerance(LOWER, UPPER, () => false)).toBeNull()
+})
+
+test('solved investment ratio puts the worst case on the tolerated loss', () => {
+  const ratio = solveMaxInvestmentRatio(params, MAX_LOSS)
+  expect(ratio).not.toBeNull()
+  expect(calculateWorstCaseLoss({ ...params, investmentRatio: ratio ?? LOWER })).toBeCloseTo(MAX_LOSS, YEN_DIGITS)
+})
+
+test('solved probability threshold stays within the tolerated loss', () => {
+  const threshold = solveMaxProbabilityThreshold(params, MAX_LOSS)
+  expect(threshold).not.toBeNull()
+  expect(calculateWorstCaseLoss({ ...params, probabilityThreshold: threshold ?? LOWER })).toBeLessThanOrEqual(MAX_LOSS + ROUNDING_TOLERANCE)
+})
+
+test('no investment ratio fits when even holding cash exceeds the tolerated loss', () => {
+  expect(solveMaxInvestmentRatio(params, -ROUNDING_TOLERANCE)).toBeNull()
+})
+
+test('horizon search reports every year range that fits, not only the first', () => {
+  const fullParams = { ...params, investmentRatio: FULL_INVESTMENT_RATIO }
+  const ranges = findYearRangesWithinTolerance(fullParams, HORIZON_MAX_LOSS)
+  for (let years = FIRST_YEAR; years <= LAST_YEAR; years += FIRST_YEAR) {
+    const fits = calculateWorstCaseLoss({ ...fullParams, years }) <= HORIZON_MAX_LOSS
+    expect(ranges.some(range => range.from <= years && years <= range.to)).toBe(fits)
+  }
+  const [first] = ranges
+  expect(solveMaxYears(fullParams, HORIZON_MAX_LOSS)).toBe(first.from === FIRST_YEAR ? first.to : null)
+})
@@ -0,0 +1,104 @@
+// 定期積立（積立投資）に関連する計算ユーティリティ
+
+import type { ContributionFrequency, ContributionParams, InvestmentDistributionParams } from './normalDistribution'
+
+// 定数定義
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const TWO = 2
+const MONTHS_PER_YEAR = 12
+
+export const contributionFrequencyLabels: Record<ContributionFrequency, string> = {
+  monthly: '毎月',
+  yearly: '毎年'
+}
+
+/**
+ * 積立頻度から1年あたりの積立回数を取得
+ * @param frequency - 積立頻度
+ * @returns 1年あたりの積立回数
+ */
+export function getContributionsPerYear (frequency: ContributionFrequency = 'monthly'): number {
+  return frequency === 'monthly' ? MONTHS_PER_YEAR : ONE
+}
+
+/**
+ * 定期積立があるかどうかを判定
+ * @param params - 定期積立のパラメータ
+ * @returns 積立額が正の場合は true
+ */
+export function hasContributions (params: ContributionParams): boolean {
+  return (params.contributionAmount ?? ZERO) > ZERO
+}
+
+/**
+ * 投資期間中の各回の積立額を計算
+ * 積立は各期の期初に行い、積立額は1年ごとに増加率分だけ増える
+ * @param params - 定期積立のパラメータと投資期間
+ * @returns 各回の積立額の配列（先頭が投資開始時点）
+ */
+export function generateContributionSchedule (params: ContributionParams & { years: number }): number[] {
+  const { contributionAmount = ZERO, contributionFrequency, contributionGrowthRate = ZERO, years } = params
+  if (contributionAmount <= ZERO) {
+    return []
+  }
+
+  const perYear = getContributionsPerYear(contributionFrequency)
+  const numContributions = Math.round(years * perYear)
+  const growthFactor = ONE + contributionGrowthRate / PERCENTAGE_DIVISOR
+
+  const schedule: number[] = []
+  for (let k = ZERO; k < numContributions; k += ONE) {
+    schedule.push(contributionAmount * Math.pow(growthFactor, Math.floor(k / perYear)))
+  }
+  return schedule
+}
+
+/**
+ * 投資期間中の積立累計額（初期投資額を除く）を計算
+ * @param params - 定期積立のパラメータと投資期間
+ * @returns 積立累計額 (円)
+ */
+export function calculateCumulativeContributions (params: ContributionParams & { years: number }): number {
+  return generateContributionSchedule(params).reduce((sum, amount) => sum + amount, ZERO)
+}
+
+/**
+ * 投資元本（初期投資額 + 積立累計額）を計算
+ * 損益分岐点はこの金額を基準とする
+ * @param params - 投資パラメータ
+ * @returns 投資元本の合計 (円)
+ */
+export function calculateTotalContributions (params: InvestmentDistributionParams): number {
+  return params.initialAssets + calculateCumulativeContributions(params)
+}
+
+/**
+ * 定期積立を含めた投資期間後の資産額の平均と分散を計算
+ * 各期の成長率が独立な対数正規分布に従うとして、期ごとに1次・2次モーメントを漸化式で更新する
+ * W_{k+1} = (W_k + c_k) × G_k, E[G] = exp(μΔt), E[G²] = exp((2μ + σ²)Δt)
+ * @param params - 投資パラメータ
+ * @returns { mean, variance } - 資産額の平均と分散
+ */
+export function calculateContributionMoments (params: InvestmentDistributionParams): { mean: number, variance: number } {
+  const { initialAssets, expectedReturn, risk, contributionFrequency } = params
+
+  const muRate = expectedReturn / PERCENTAGE_DIVISOR
+  const sigmaRate = risk / PERCENTAGE_DIVISOR
+  const dt = ONE / getContributionsPerYear(contributionFrequency)
+  const firstMomentGrowth = Math.exp(muRate * dt)
+  const secondMomentGrowth = Math.exp((TWO * muRate + sigmaRate * sigmaRate) * dt)
+
+  let firstMoment = initialAssets
+  let secondMoment = initialAssets * initialAssets
+  for (const contribution of generateContributionSchedule(params)) {
+    secondMoment = (secondMoment + TWO * contribution * firstMoment + contribution * contribution) * secondMomentGrowth
+    firstMoment = (firstMoment + contribution) * firstMomentGrowth
+  }
+
+  return {
+    mean: firstMoment,
+    variance: Math.max(secondMoment - firstMoment * firstMoment, ZERO)
+  }
+}
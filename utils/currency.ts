@@ -0,0 +1,113 @@
+// 外貨建て資産の為替リスク・為替ヘッジに関する計算ユーティリティ
+
+// 定数定義
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const TWO = 2
+const DEFAULT_FX_RISK = 10.0
+const DEFAULT_FX_CORRELATION = 0.3
+const DEFAULT_HEDGE_COST = 3.0
+const MAX_CORRELATION = 1
+
+/**
+ * 為替リスクの設定
+ * 想定リターン・リスクは現地通貨建て（為替変動を除いた値）とみなし、為替の期待変化率は0とする
+ */
+export interface CurrencySettings {
+  foreignShare: number // 投資部分のうち外貨建ての割合 (0-100)
+  fxRisk: number // 為替レートの変動リスク (標準偏差 %/年)
+  fxCorrelation: number // 為替レート（円安方向を正）と資産の現地通貨建てリターンの相関係数 (-1〜1)
+  hedgeRatio: number // 外貨建て部分のうち為替ヘッジする割合 (0-100)
+  hedgeCost: number // 為替ヘッジのコスト (%/年、ヘッジした部分にかかる)
+}
+
+export const defaultCurrencySettings: CurrencySettings = {
+  foreignShare: ZERO,
+  fxRisk: DEFAULT_FX_RISK,
+  fxCorrelation: DEFAULT_FX_CORRELATION,
+  hedgeRatio: ZERO,
+  hedgeCost: DEFAULT_HEDGE_COST
+}
+
+/**
+ * 為替リスクの設定を検証
+ * @param currency - 為替リスクの設定
+ * @returns 不正な項目がある場合はエラーメッセージ、問題がない場合は null
+ */
+export function validateCurrencySettings (currency: CurrencySettings): string | null {
+  if (currency.foreignShare < ZERO || currency.foreignShare > PERCENTAGE_DIVISOR) {
+    return '外貨建ての割合は0〜100の範囲で入力してください。'
+  }
+  if (currency.fxRisk < ZERO) {
+    return '為替リスクは0以上の値を入力してください。'
+  }
+  if (currency.fxCorrelation < -MAX_CORRELATION || currency.fxCorrelation > MAX_CORRELATION) {
+    return '為替と資産の相関係数は-1〜1の範囲で入力してください。'
+  }
+  if (currency.hedgeRatio < ZERO || currency.hedgeRatio > PERCENTAGE_DIVISOR) {
+    return '為替ヘッジの割合は0〜100の範囲で入力してください。'
+  }
+  return null
+}
+
+/**
+ * 為替ヘッジしていない外貨建ての割合（為替変動の影響を受ける割合）を計算
+ * @param currency - 為替リスクの設定
+ * @returns 為替変動の影響を受ける割合 (0-1)
+ */
+export function calculateUnhedgedExposure (currency: CurrencySettings): number {
+  return currency.foreignShare / PERCENTAGE_DIVISOR * (ONE - currency.hedgeRatio / PERCENTAGE_DIVISOR)
+}
+
+/**
+ * 為替リスクを含めた円ベースの期待リターンとリスクを計算
+ * μ円 = μ現地 - (ヘッジした割合) × ヘッジコスト
+ * σ円² = σ現地² + e²σ為替² + 2eρσ現地σ為替（e: 為替ヘッジしていない外貨建ての割合）
+ * @param expectedReturn - 現地通貨建ての期待リターン (%/年)
+ * @param risk - 現地通貨建てのリスク (%/年)
+ * @param currency - 為替リスクの設定
+ * @returns { expectedReturn, risk } - 円ベースの期待リターンとリスク (%/年)
+ */
+export function calculateYenReturnAndRisk (expectedReturn: number, risk: number, currency: CurrencySettings): { expectedReturn: number, risk: number } {
+  const hedgedShare = currency.foreignShare / PERCENTAGE_DIVISOR * currency.hedgeRatio / PERCENTAGE_DIVISOR
+  const exposure = calculateUnhedgedExposure(currency)
+  const fxRisk = exposure * currency.fxRisk
+  const variance = risk * risk + fxRisk * fxRisk + TWO * currency.fxCorrelation * risk * fxRisk
+  return {
+    expectedReturn: expectedReturn - hedgedShare * currency.hedgeCost,
+    risk: Math.sqrt(Math.max(variance, ZERO))
+  }
+}
+
+/**
+ * 円ベースのリスクから、為替変動を除いた現地通貨建てのリスクを逆算
+ * σ円² = σ現地² + e²σ為替² + 2eρσ現地σ為替 を σ現地 について解く
+ * @param yenRisk - 円ベースのリスク (%/年)
+ * @param currency - 為替リスクの設定（ヘッジの設定は使用せず、外貨建て部分はすべて為替変動の影響を受けるものとする）
+ * @returns 現地通貨建てのリスク (%/年)（解がない場合は0）
+ */
+export function calculateLocalRisk (yenRisk: number, currency: CurrencySettings): number {
+  const fxRisk = currency.foreignShare / PERCENTAGE_DIVISOR * currency.fxRisk
+  const crossTerm = currency.fxCorrelation * fxRisk
+  const discriminant = crossTerm * crossTerm - fxRisk * fxRisk + yenRisk * yenRisk
+  if (discriminant < ZERO) {
+    return ZERO
+  }
+  return Math.max(-crossTerm + Math.sqrt(discriminant), ZERO)
+}
+
+/**
+ * 円ベースの分散のうち、為替変動による部分の割合を計算
+ * 為替と資産の相関が負で、為替変動が資産の値動きを打ち消している（円ベースのリスクの方が小さい）場合は0とする
+ * @param risk - 現地通貨建てのリスク (%/年)
+ * @param currency - 為替リスクの設定
+ * @returns 為替変動による分散の割合（為替と資産の相関の項を含む、0-1）
+ */
+export function calculateCurrencyVarianceShare (risk: number, currency: CurrencySettings): number {
+  const { risk: yenRisk } = calculateYenReturnAndRisk(ZERO, risk, currency)
+  if (yenRisk <= risk) {
+    return ZERO
+  }
+  return ONE - (risk * risk) / (yenRisk * yenRisk)
+}
@@ -0,0 +1,165 @@
+// 取り崩し（資産の引き出し）期間のシミュレーションユーティリティ
+
+import { standardNormalDistribution, type StandardizedDistribution } from './normalDistribution'
+import { createRandom } from './monteCarlo'
+
+// 定数定義
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const TWO = 2
+const HALF = 0.5
+const DEFAULT_NUM_PATHS = 2000
+const DEFAULT_SEED = 42
+
+/**
+ * 引き出し方法
+ * fixed: 毎年一定額を引き出す / percentage: 毎年期初残高の一定割合を引き出す
+ */
+export type WithdrawalMethod = 'fixed' | 'percentage'
+
+export const withdrawalMethodLabels: Record<WithdrawalMethod, string> = {
+  fixed: '定額',
+  percentage: '定率'
+}
+
+/**
+ * 取り崩しシミュレーションのパラメータ
+ */
+export interface DecumulationParams {
+  totalAssets: number // 取り崩し開始時点の資産総額
+  investmentRatio: number // 投資比率 (0-100)、毎年この比率に保つ
+  expectedReturn: number // 期待リターン (%/年)
+  risk: number // リスク (標準偏差 %/年)
+  years: number // 取り崩し期間 (年)
+  riskFreeRate: number // 非投資部分の利回り (%/年)
+  withdrawalMethod: WithdrawalMethod // 引き出し方法
+  withdrawalAmount: number // 定額の場合の年間引き出し額 (円)
+  withdrawalRate: number // 定率の場合の年間引き出し率 (%)
+  inflationIndexed: boolean // 定額の引き出し額を物価上昇に合わせて増やすかどうか
+  inflationRate: number // 物価上昇率 (%/年)
+}
+
+/**
+ * 取り崩しシミュレーションの設定
+ */
+export interface DecumulationOptions {
+  numPaths?: number // パス数
+  seed?: number // 乱数のシード値
+  shockDistribution?: StandardizedDistribution // 対数リターンの標準化された分布（既定は標準正規分布）
+}
+
+/**
+ * 取り崩しシミュレーションの結果
+ */
+export interface DecumulationResult {
+  ruinProbability: number // 期間内に資産が尽きる確率 (0-1)
+  medianDepletionYear: number | null // 資産が尽きる年の中央値（半数以上のパスが期間内に尽きない場合は null）
+  cumulativeRuinProbabilities: number[] // 各年末までに資産が尽きている確率 (0-1、先頭が1年目)
+  medianTerminalBalance: number // 期間終了時の資産額の中央値
+  medianTotalWithdrawn: number // 期間中の引き出し総額の中央値
+}
+
+/**
+ * 指定した年の期初に引き出す額を計算
+ * @param params - 取り崩しシミュレーションのパラメータ
+ * @param balance - 期初の資産額
+ * @param yearIndex - 取り崩し開始からの年数 (0始まり)
+ * @returns 引き出し額（資産額を上限とする）
+ */
+export function calculateWithdrawal (params: DecumulationParams, balance: number, yearIndex: number): number {
+  const { withdrawalMethod, withdrawalAmount, withdrawalRate, inflationIndexed, inflationRate } = params
+  if (withdrawalMethod === 'percentage') {
+    return balance * withdrawalRate / PERCENTAGE_DIVISOR
+  }
+
+  const inflationFactor = inflationIndexed ? Math.pow(ONE + inflationRate / PERCENTAGE_DIVISOR, yearIndex) : ONE
+  return Math.min(withdrawalAmount * inflationFactor, balance)
+}
+
+// 値の配列の中央値
+function median (values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = (sorted.length - ONE) * HALF
+  return (sorted[Math.floor(middle)] + sorted[Math.ceil(middle)]) * HALF
+}
+
+// 1本のパスの取り崩し結果
+interface DecumulationPathResult {
+  balance: number // 期間終了時の資産額
+  withdrawn: number // 引き出し総額
+  depletionYearIndex: number | null // 資産が尽きた年 (0始まり)、尽きなかった場合は null
+}
+
+// 1本のパスについて、毎年の引き出しと運用を繰り返す
+function simulateDecumulationPath (params: DecumulationParams, sampleGrowth: () => number): DecumulationPathResult {
+  const { totalAssets, investmentRatio, years, riskFreeRate } = params
+  const investedShare = investmentRatio / PERCENTAGE_DIVISOR
+  const riskFreeGrowth = ONE + riskFreeRate / PERCENTAGE_DIVISOR
+  let balance = totalAssets
+  let withdrawn = ZERO
+  for (let year = ZERO; year < years; year += ONE) {
+    const withdrawal = calculateWithdrawal(params, balance, year)
+    withdrawn += withdrawal
+    balance -= withdrawal
+    if (balance <= ZERO) {
+      return { balance: ZERO, withdrawn, depletionYearIndex: year }
+    }
+    balance *= (ONE - investedShare) * riskFreeGrowth + investedShare * sampleGrowth()
+  }
+  return { balance, withdrawn, depletionYearIndex: null }
+}
+
+/**
+ * 取り崩し期間の資産推移をモンテカルロ法でシミュレーション
+ * 毎年期初に引き出しを行い、残りの資産を投資比率に保ったまま1年間運用する（非投資部分は無リスク金利で運用する）
+ * @param params - 取り崩しシミュレーションのパラメータ
+ * @param options - シミュレーションの設定
+ * @returns 破綻確率・資産が尽きる年の中央値などの結果
+ */
+export function simulateDecumulation (params: DecumulationParams, options: DecumulationOptions = {}): DecumulationResult {
+  const {
+    numPaths = DEFAULT_NUM_PATHS,
+    seed = DEFAULT_SEED,
+    shockDistribution = standardNormalDistribution
+  } = options
+
+  const muRate = params.expectedReturn / PERCENTAGE_DIVISOR
+  const sigmaRate = params.risk / PERCENTAGE_DIVISOR
+  const drift = muRate - sigmaRate * sigmaRate / TWO
+
+  const random = createRandom(seed)
+  const sampleGrowth = (): number => Math.exp(drift + sigmaRate * shockDistribution.sample(random))
+
+  const ruinCounts = new Array<number>(params.years).fill(ZERO)
+  const terminalBalances: number[] = []
+  const totalWithdrawals: number[] = []
+
+  for (let i = ZERO; i < numPaths; i += ONE) {
+    const { balance, withdrawn, depletionYearIndex } = simulateDecumulationPath(params, sampleGrowth)
+    if (depletionYearIndex !== null) {
+      ruinCounts[depletionYearIndex] += ONE
+    }
+    terminalBalances.push(balance)
+    totalWithdrawals.push(withdrawn)
+  }
+
+  // 各年末までに資産が尽きている確率（累積）
+  const cumulativeRuinProbabilities: number[] = []
+  let ruinedPaths = ZERO
+  for (const count of ruinCounts) {
+    ruinedPaths += count
+    cumulativeRuinProbabilities.push(ruinedPaths / numPaths)
+  }
+
+  // 累積の破綻確率が50%に達した年が、資産が尽きる年の中央値となる
+  const medianIndex = cumulativeRuinProbabilities.findIndex(probability => probability >= HALF)
+
+  return {
+    ruinProbability: ruinedPaths / numPaths,
+    medianDepletionYear: medianIndex < ZERO ? null : medianIndex + ONE,
+    cumulativeRuinProbabilities,
+    medianTerminalBalance: median(terminalBalances),
+    medianTotalWithdrawn: median(totalWithdrawals)
+  }
+}
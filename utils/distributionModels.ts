@@ -0,0 +1,316 @@
+// 対数リターンの分布モデル（t分布・歪正規分布）のユーティリティ
+
+import {
+  normalCDF,
+  normalPDF,
+  createLogScaleModel,
+  createLognormalModel,
+  standardNormalDistribution,
+  type DistributionModel,
+  type StandardizedDistribution
+} from './normalDistribution'
+
+// 定数定義
+const ZERO = 0
+const ONE = 1
+const TWO = 2
+const HALF = 0.5
+const THREE = 3
+const FOUR = 4
+const FIVE = 5
+const SIX = 6
+const EIGHT = 8
+const NINE = 9
+const LANCZOS_G = 7
+const BETA_CONTINUED_FRACTION_ITERATIONS = 200
+const BETA_EPSILON = 3e-14
+const BETA_TINY = 1e-300
+const INVERSE_CDF_INITIAL_BOUND = 10
+const INVERSE_CDF_MAX_BOUND = 1e6
+const INVERSE_CDF_ITERATIONS = 100
+const OWENS_T_INTERVALS = 100
+const SIMPSON_ODD_WEIGHT = 4
+const SIMPSON_EVEN_WEIGHT = 2
+const MIN_DEGREES_OF_FREEDOM = 2
+
+/**
+ * 分布モデルの種類
+ */
+export type DistributionModelType = 'lognormal' | 'studentT' | 'skewNormal'
+
+/**
+ * 分布モデルの設定
+ */
+export interface DistributionModelSettings {
+  type: DistributionModelType // 分布モデルの種類
+  degreesOfFreedom: number // t分布の自由度 (2より大きい値)
+  skewness: number // 歪正規分布の形状パラメータ（負の値で下方向に歪む）
+}
+
+const DEFAULT_DEGREES_OF_FREEDOM = 5
+const DEFAULT_SKEWNESS = -3
+
+export const defaultDistributionModelSettings: DistributionModelSettings = {
+  type: 'lognormal',
+  degreesOfFreedom: DEFAULT_DEGREES_OF_FREEDOM,
+  skewness: DEFAULT_SKEWNESS
+}
+
+export const distributionModelLabels: Record<DistributionModelType, string> = {
+  lognormal: '対数正規分布',
+  studentT: 't分布（ファットテール）',
+  skewNormal: '歪正規分布（スキュー）'
+}
+
+/**
+ * ガンマ関数の対数 (Lanczos近似)
+ * @param x - 評価する点 (x > 0)
+ * @returns ln Γ(x)
+ */
+export function logGamma (x: number): number {
+  if (x < HALF) {
+    // 相反公式: Γ(x)Γ(1-x) = π / sin(πx)
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(ONE - x)
+  }
+  // Lanczos近似の係数 (g = 7, n = 9)
+  const c0 = 0.99999999999980993
+  const c1 = 676.5203681218851
+  const c2 = -1259.1392167224028
+  const c3 = 771.32342877765313
+  const c4 = -176.61502916214059
+  const c5 = 12.507343278686905
+  const c6 = -0.13857109526572012
+  const c7 = 9.9843695780195716e-6
+  const c8 = 1.5056327351493116e-7
+
+  const shifted = x - ONE
+  const sum = c0 +
+    c1 / (shifted + ONE) +
+    c2 / (shifted + TWO) +
+    c3 / (shifted + THREE) +
+    c4 / (shifted + FOUR) +
+    c5 / (shifted + FIVE) +
+    c6 / (shifted + SIX) +
+    c7 / (shifted + LANCZOS_G) +
+    c8 / (shifted + EIGHT)
+  const t = shifted + LANCZOS_G + HALF
+  return HALF * Math.log(TWO * Math.PI) + (shifted + HALF) * Math.log(t) - t + Math.log(sum)
+}
+
+// 不完全ベータ関数の連分数展開 (Numerical Recipes の betacf)
+function betaContinuedFraction (x: number, a: number, b: number): number {
+  const qab = a + b
+  const qap = a + ONE
+  const qam = a - ONE
+  let c = ONE
+  let d = ONE - qab * x / qap
+  if (Math.abs(d) < BETA_TINY) {
+    d = BETA_TINY
+  }
+  d = ONE / d
+  let h = d
+
+  for (let m = ONE; m <= BETA_CONTINUED_FRACTION_ITERATIONS; m += ONE) {
+    const m2 = TWO * m
+    const evenCoefficient = m * (b - m) * x / ((qam + m2) * (a + m2))
+    d = ONE + evenCoefficient * d
+    c = ONE + evenCoefficient / c
+    d = ONE / (Math.abs(d) < BETA_TINY ? BETA_TINY : d)
+    c = Math.abs(c) < BETA_TINY ? BETA_TINY : c
+    h *= d * c
+
+    const oddCoefficient = -(a + m) * (qab + m) * x / ((a + m2) * (qap + m2))
+    d = ONE + oddCoefficient * d
+    c = ONE + oddCoefficient / c
+    d = ONE / (Math.abs(d) < BETA_TINY ? BETA_TINY : d)
+    c = Math.abs(c) < BETA_TINY ? BETA_TINY : c
+    const delta = d * c
+    h *= delta
+    if (Math.abs(delta - ONE) < BETA_EPSILON) {
+      break
+    }
+  }
+  return h
+}
+
+/**
+ * 正則化不完全ベータ関数 I_x(a, b)
+ * @param x - 評価する点 (0 <= x <= 1)
+ * @param a - パラメータ a (> 0)
+ * @param b - パラメータ b (> 0)
+ * @returns I_x(a, b)
+ */
+export function regularizedIncompleteBeta (x: number, a: number, b: number): number {
+  if (x <= ZERO) {
+    return ZERO
+  }
+  if (x >= ONE) {
+    return ONE
+  }
+  const logFront = logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(ONE - x)
+  const front = Math.exp(logFront)
+  if (x < (a + ONE) / (a + b + TWO)) {
+    return front * betaContinuedFraction(x, a, b) / a
+  }
+  return ONE - front * betaContinuedFraction(ONE - x, b, a) / b
+}
+
+/**
+ * 累積分布関数を二分法で反転してパーセンタイル点を求める
+ * @param cdf - 単調増加な累積分布関数
+ * @param p - 確率 (0 < p < 1)
+ * @returns x: cdf(x) = p となる x
+ */
+export function invertCDF (cdf: (x: number) => number, p: number): number {
+  if (p <= ZERO || p >= ONE) {
+    throw new Error('Probability must be between 0 and 1')
+  }
+  let low = -INVERSE_CDF_INITIAL_BOUND
+  let high = INVERSE_CDF_INITIAL_BOUND
+  while (cdf(low) > p && low > -INVERSE_CDF_MAX_BOUND) {
+    low *= TWO
+  }
+  while (cdf(high) < p && high < INVERSE_CDF_MAX_BOUND) {
+    high *= TWO
+  }
+  for (let i = ZERO; i < INVERSE_CDF_ITERATIONS; i += ONE) {
+    const middle = (low + high) * HALF
+    if (cdf(middle) < p) {
+      low = middle
+    } else {
+      high = middle
+    }
+  }
+  return (low + high) * HALF
+}
+
+/**
+ * ガンマ分布に従う乱数を生成 (Marsaglia-Tsang法, 尺度パラメータは1)
+ * @param shape - 形状パラメータ (> 0)
+ * @param random - [0, 1) の一様乱数を返す関数
+ * @returns ガンマ分布に従う乱数
+ */
+export function randomGamma (shape: number, random: () => number): number {
+  if (shape < ONE) {
+    // 形状パラメータが1未満の場合は shape + 1 で生成して補正
+    return randomGamma(shape + ONE, random) * Math.pow(ONE - random(), ONE / shape)
+  }
+  const d = shape - ONE / THREE
+  const c = ONE / Math.sqrt(NINE * d)
+  for (;;) {
+    const z = standardNormalDistribution.sample(random)
+    const v = Math.pow(ONE + c * z, THREE)
+    if (v > ZERO) {
+      const u = ONE - random()
+      if (Math.log(u) < HALF * z * z + d - d * v + d * Math.log(v)) {
+        return d * v
+      }
+    }
+  }
+}
+
+/**
+ * 分散が1になるように尺度を調整したt分布
+ * @param degreesOfFreedom - 自由度 (2より大きい値)
+ * @returns 標準化されたt分布
+ */
+export function createStudentTDistribution (degreesOfFreedom: number): StandardizedDistribution {
+  const nu = Math.max(degreesOfFreedom, MIN_DEGREES_OF_FREEDOM + BETA_EPSILON)
+  // t分布の分散は ν/(ν-2) なので、分散1になるように縮小する
+  const scale = Math.sqrt((nu - TWO) / nu)
+  const logNormalizer = logGamma((nu + ONE) / TWO) - logGamma(nu / TWO) - HALF * Math.log(nu * Math.PI)
+
+  const tPDF = (t: number): number => Math.exp(logNormalizer - (nu + ONE) / TWO * Math.log(ONE + t * t / nu))
+  const tCDF = (t: number): number => {
+    const tail = HALF * regularizedIncompleteBeta(nu / (nu + t * t), nu / TWO, HALF)
+    return t > ZERO ? ONE - tail : tail
+  }
+
+  return {
+    pdf: (z) => tPDF(z / scale) / scale,
+    cdf: (z) => tCDF(z / scale),
+    inverseCDF: (p) => scale * invertCDF(tCDF, p),
+    sample: (random) => {
+      // t = Z / √(χ²/ν)、χ² = 2 × Gamma(ν/2)
+      const normal = standardNormalDistribution.sample(random)
+      const chiSquare = TWO * randomGamma(nu / TWO, random)
+      return scale * normal / Math.sqrt(chiSquare / nu)
+    }
+  }
+}
+
+/**
+ * オーウェンのT関数 T(h, a) (シンプソン則による数値積分)
+ * @param h - パラメータ h
+ * @param a - パラメータ a
+ * @returns T(h, a)
+ */
+export function owensT (h: number, a: number): number {
+  const integrand = (x: number): number => Math.exp(-HALF * h * h * (ONE + x * x)) / (ONE + x * x)
+  const step = a / OWENS_T_INTERVALS
+  let sum = integrand(ZERO) + integrand(a)
+  for (let i = ONE; i < OWENS_T_INTERVALS; i += ONE) {
+    sum += (i % TWO === ONE ? SIMPSON_ODD_WEIGHT : SIMPSON_EVEN_WEIGHT) * integrand(i * step)
+  }
+  return sum * step / THREE / (TWO * Math.PI)
+}
+
+/**
+ * 平均0・分散1になるように標準化した歪正規分布
+ * @param shape - 形状パラメータ α（負の値で下方向に歪む）
+ * @returns 標準化された歪正規分布
+ */
+export function createSkewNormalDistribution (shape: number): StandardizedDistribution {
+  const delta = shape / Math.sqrt(ONE + shape * shape)
+  const rawMean = delta * Math.sqrt(TWO / Math.PI)
+  const rawStdDev = Math.sqrt(ONE - rawMean * rawMean)
+
+  // 標準化前の歪正規分布 SN(0, 1, α)
+  const rawPDF = (y: number): number => TWO * normalPDF(y) * normalCDF(shape * y)
+  const rawCDF = (y: number): number => normalCDF(y) - TWO * owensT(y, shape)
+  const cdf = (z: number): number => rawCDF(rawMean + rawStdDev * z)
+
+  return {
+    pdf: (z) => rawStdDev * rawPDF(rawMean + rawStdDev * z),
+    cdf,
+    inverseCDF: (p) => invertCDF(cdf, p),
+    sample: (random) => {
+      // Y = δ|U0| + √(1-δ²) U1 (U0, U1 は独立な標準正規乱数)
+      const u0 = standardNormalDistribution.sample(random)
+      const u1 = standardNormalDistribution.sample(random)
+      const raw = delta * Math.abs(u0) + Math.sqrt(ONE - delta * delta) * u1
+      return (raw - rawMean) / rawStdDev
+    }
+  }
+}
+
+/**
+ * 設定に対応する標準化された対数リターンの分布を生成
+ * @param settings - 分布モデルの設定
+ * @returns 標準化された分布
+ */
+export function createStandardizedDistribution (settings: DistributionModelSettings): StandardizedDistribution {
+  switch (settings.type) {
+    case 'lognormal':
+      return standardNormalDistribution
+    case 'studentT':
+      return createStudentTDistribution(settings.degreesOfFreedom)
+    case 'skewNormal':
+      return createSkewNormalDistribution(settings.skewness)
+  }
+}
+
+/**
+ * 設定に対応する資産額の分布モデルを生成
+ * いずれのモデルも対数リターンの平均と分散は対数正規分布と一致し、分布の形状のみが異なる
+ * @param settings - 分布モデルの設定
+ * @param logMean - 対数平均
+ * @param logStdDev - 対数標準偏差
+ * @returns 資産額の確率分布モデル
+ */
+export function createDistributionModel (settings: DistributionModelSettings, logMean: number, logStdDev: number): DistributionModel {
+  if (settings.type === 'lognormal') {
+    return createLognormalModel(logMean, logStdDev)
+  }
+  return createLogScaleModel(createStandardizedDistribution(settings), logMean, logStdDev)
+}
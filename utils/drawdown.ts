@@ -0,0 +1,120 @@
+// 投資期間中の最大ドローダウン（途中の高値からの最大下落）のシミュレーションユーティリティ
+// 投資期間の終わりの金額だけでなく、途中でどこまで下がり得るかを評価する
+
+import type { InvestmentDistributionParams } from './normalDistribution'
+import { calculatePercentile, simulatePaths, type SimulationOptions } from './monteCarlo'
+
+// 定数定義
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const MONTHS_PER_YEAR = 12
+const MEDIAN_PERCENTILE = 50
+
+/**
+ * 最大ドローダウンのシミュレーションのパラメータ
+ * 投資部分は定期積立を含めて月次でシミュレーションし、非投資部分は無リスク金利で運用する
+ */
+export interface MaxDrawdownParams extends InvestmentDistributionParams {
+  nonInvestmentAssets: number // 投資していない部分の金額
+  riskFreeRate: number // 非投資部分の利回り (%/年)
+}
+
+/**
+ * 1本のパスの最大ドローダウン
+ * 下落率と下落額はそれぞれ最大となる時点が異なる場合がある
+ */
+export interface MaxDrawdown {
+  rate: number // 途中の高値からの最大下落率 (0-100%)
+  amount: number // 途中の高値からの最大下落額 (円)
+}
+
+/**
+ * 最大ドローダウンのシミュレーション結果
+ */
+export interface MaxDrawdownResult {
+  investment: MaxDrawdown[] // 投資部分の各パスの最大ドローダウン
+  total: MaxDrawdown[] // 資産全体（投資部分 + 非投資部分）の各パスの最大ドローダウン
+}
+
+/**
+ * 最大ドローダウンの分布の要約
+ */
+export interface MaxDrawdownSummary {
+  medianRate: number // 最大下落率の中央値 (%)
+  medianAmount: number // 最大下落額の中央値 (円)
+  worstRate: number // 確率閾値での最大下落率 (%)
+  worstAmount: number // 確率閾値での最大下落額 (円)
+}
+
+/**
+ * 資産推移から最大ドローダウンを計算
+ * @param path - 資産推移（古い順）
+ * @returns 途中の高値からの最大下落率と最大下落額
+ */
+export function calculateMaxDrawdown (path: number[]): MaxDrawdown {
+  let peak = -Infinity
+  let rate = ZERO
+  let amount = ZERO
+  for (const value of path) {
+    peak = Math.max(peak, value)
+    const drop = peak - value
+    amount = Math.max(amount, drop)
+    if (peak > ZERO) {
+      rate = Math.max(rate, drop / peak * PERCENTAGE_DIVISOR)
+    }
+  }
+  return { rate, amount }
+}
+
+/**
+ * 投資期間中の最大ドローダウンをモンテカルロ法でシミュレーション（月次）
+ * 定期積立による増加は値上がりと区別せず、積立後の金額を高値として扱う
+ * @param params - 最大ドローダウンのシミュレーションのパラメータ
+ * @param options - シミュレーションの設定（時間刻みは常に月次）
+ * @returns 投資部分と資産全体の各パスの最大ドローダウン
+ */
+export function simulateMaxDrawdowns (params: MaxDrawdownParams, options: Omit<SimulationOptions, 'frequency'> = {}): MaxDrawdownResult {
+  const { paths } = simulatePaths(params, { ...options, frequency: 'monthly' })
+  const monthlyGrowth = Math.pow(ONE + params.riskFreeRate / PERCENTAGE_DIVISOR, ONE / MONTHS_PER_YEAR)
+  const nonInvestmentPath = Array.from({ length: Math.round(params.years * MONTHS_PER_YEAR) + ONE }, (_, month) => (
+    params.nonInvestmentAssets * Math.pow(monthlyGrowth, month)
+  ))
+
+  return {
+    investment: paths.map(path => calculateMaxDrawdown(path)),
+    total: paths.map(path => calculateMaxDrawdown(path.map((value, month) => value + nonInvestmentPath[month])))
+  }
+}
+
+/**
+ * 最大ドローダウンの分布を要約
+ * 確率閾値が90%の場合、90%の確率でこれ以内に収まる（上位10%に相当する）下落を最悪ケースとする
+ * @param drawdowns - 各パスの最大ドローダウン
+ * @param probabilityThreshold - 確率閾値 (%)
+ * @returns 中央値と確率閾値での最大下落率・最大下落額
+ */
+export function summarizeMaxDrawdowns (drawdowns: MaxDrawdown[], probabilityThreshold: number): MaxDrawdownSummary {
+  const rates = drawdowns.map(drawdown => drawdown.rate).sort((a, b) => a - b)
+  const amounts = drawdowns.map(drawdown => drawdown.amount).sort((a, b) => a - b)
+  return {
+    medianRate: calculatePercentile(rates, MEDIAN_PERCENTILE),
+    medianAmount: calculatePercentile(amounts, MEDIAN_PERCENTILE),
+    worstRate: calculatePercentile(rates, probabilityThreshold),
+    worstAmount: calculatePercentile(amounts, probabilityThreshold)
+  }
+}
+
+/**
+ * 最大下落率が指定した水準以上になる確率を計算
+ * @param drawdowns - 各パスの最大ドローダウン
+ * @param rate - 下落率の水準 (%)
+ * @returns 確率 (0-100%)
+ */
+export function calculateDrawdownExceedanceProbability (drawdowns: MaxDrawdown[], rate: number): number {
+  if (drawdowns.length === ZERO) {
+    return ZERO
+  }
+  const { length: count } = drawdowns.filter(drawdown => drawdown.rate >= rate)
+  return count / drawdowns.length * PERCENTAGE_DIVISOR
+}
@@ -0,0 +1,265 @@
+// 効率的フロンティアと接点ポートフォリオの計算ユーティリティ
+// 空売りなし（各資産の配分が0以上）を前提とし、資産数が少ないため配分が正となる資産の組み合わせをすべて調べて厳密解を求める
+
+import type { AssetClass } from './portfolio'
+
+// 定数定義
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const TWO = 2
+const PIVOT_TOLERANCE = 1e-12
+const WEIGHT_TOLERANCE = 1e-9
+const RETURN_TOLERANCE = 1e-9
+const DEFAULT_FRONTIER_POINTS = 50
+
+/**
+ * フロンティア上のポートフォリオ
+ */
+export interface FrontierPoint {
+  weights: number[] // 各資産クラスの配分 (%)
+  expectedReturn: number // 期待リターン (%/年)
+  risk: number // リスク (標準偏差 %/年)
+}
+
+/**
+ * 効率的フロンティアの計算結果
+ */
+export interface EfficientFrontier {
+  points: FrontierPoint[] // 最小分散ポートフォリオから最大リターンまでのフロンティア上の点
+  minimumVariance: FrontierPoint // 最小分散ポートフォリオ
+  tangency: FrontierPoint | null // 接点ポートフォリオ（無リスク資産を上回るリスク資産の組み合わせがない場合は null）
+}
+
+/**
+ * 連立一次方程式 Ax = b をガウスの消去法（部分ピボット選択）で解く
+ * @param matrix - 係数行列 A
+ * @param vector - 右辺 b
+ * @returns 解 x（係数行列が特異な場合は null）
+ */
+export function solveLinearSystem (matrix: number[][], vector: number[]): number[] | null {
+  const augmented = matrix.map((row, i) => [...row, vector[i]])
+  const { length: size } = augmented
+
+  for (let column = ZERO; column < size; column += ONE) {
+    // 絶対値が最大の行をピボットにする
+    let pivotRow = column
+    for (let row = column + ONE; row < size; row += ONE) {
+      if (Math.abs(augmented[row][column]) > Math.abs(augmented[pivotRow][column])) {
+        pivotRow = row
+      }
+    }
+    if (Math.abs(augmented[pivotRow][column]) < PIVOT_TOLERANCE) {
+      return null
+    }
+    [augmented[column], augmented[pivotRow]] = [augmented[pivotRow], augmented[column]]
+
+    for (let row = column + ONE; row < size; row += ONE) {
+      const factor = augmented[row][column] / augmented[column][column]
+      augmented[row] = augmented[row].map((value, k) => value - factor * augmented[column][k])
+    }
+  }
+
+  // 後退代入
+  const solution = new Array<number>(size).fill(ZERO)
+  for (let row = size - ONE; row >= ZERO; row -= ONE) {
+    const { [row]: rowValues } = augmented
+    let { [size]: sum } = rowValues
+    for (let k = row + ONE; k < size; k += ONE) {
+      sum -= rowValues[k] * solution[k]
+    }
+    solution[row] = sum / rowValues[row]
+  }
+  return solution
+}
+
+/**
+ * 資産クラスのリスクと相関行列から共分散行列を計算（小数表記）
+ * @param assets - 資産クラス
+ * @param correlations - 相関行列
+ * @returns 共分散行列
+ */
+export function calculateCovarianceMatrix (assets: AssetClass[], correlations: number[][]): number[][] {
+  return assets.map((assetI, i) => assets.map((assetJ, j) => (
+    (assetI.risk / PERCENTAGE_DIVISOR) * (assetJ.risk / PERCENTAGE_DIVISOR) * correlations[i][j]
+  )))
+}
+
+// 配分（合計1）からフロンティア上の点を作成
+function createPoint (weights: number[], returns: number[], covariance: number[][]): FrontierPoint {
+  const expectedReturn = weights.reduce((sum, weight, i) => sum + weight * returns[i], ZERO)
+  let variance = ZERO
+  weights.forEach((weightI, i) => {
+    weights.forEach((weightJ, j) => {
+      variance += weightI * weightJ * covariance[i][j]
+    })
+  })
+  return {
+    weights: weights.map(weight => weight * PERCENTAGE_DIVISOR),
+    expectedReturn: expectedReturn * PERCENTAGE_DIVISOR,
+    risk: Math.sqrt(Math.max(variance, ZERO)) * PERCENTAGE_DIVISOR
+  }
+}
+
+// 空でないすべての資産の組み合わせ（インデックスの配列）を列挙
+function enumerateSubsets (size: number): number[][] {
+  const subsets: number[][] = []
+  for (let mask = ONE; mask < ONE << size; mask += ONE) {
+    subsets.push(Array.from({ length: size }, (_, i) => i).filter(i => (mask & (ONE << i)) !== ZERO))
+  }
+  return subsets
+}
+
+// 部分集合の配分を全資産の配分に展開（含まれない資産は0）
+function expandWeights (subset: number[], subsetWeights: number[], size: number): number[] {
+  return Array.from({ length: size }, (_, assetIndex) => {
+    const k = subset.indexOf(assetIndex)
+    return k < ZERO ? ZERO : subsetWeights[k]
+  })
+}
+
+// すべての配分が0以上か（数値誤差を許容し、負の微小値は0に丸める）
+function clampFeasibleWeights (weights: number[]): number[] | null {
+  if (weights.some(weight => weight < -WEIGHT_TOLERANCE)) {
+    return null
+  }
+  return weights.map(weight => Math.max(weight, ZERO))
+}
+
+/**
+ * 指定した資産の組み合わせだけを使い、目標リターンを達成する最小分散の配分を求める（配分の符号は問わない）
+ * KKT条件 [2Σ 1 μ; 1ᵀ 0 0; μᵀ 0 0][w; λ₁; λ₂] = [0; 1; r] を解く
+ * @param subset - 使用する資産のインデックス
+ * @param returns - 各資産の期待リターン（小数）
+ * @param covariance - 共分散行列
+ * @param targetReturn - 目標リターン（小数）、null の場合はリターンの制約なし（最小分散）
+ * @returns 部分集合内の配分（解がない場合は null）
+ */
+function solveSubsetMinimumVariance (subset: number[], returns: number[], covariance: number[][], targetReturn: number | null): number[] | null {
+  if (subset.length === ONE) {
+    const [assetIndex] = subset
+    return targetReturn === null || Math.abs(returns[assetIndex] - targetReturn) < RETURN_TOLERANCE ? [ONE] : null
+  }
+
+  const hasReturnConstraint = targetReturn !== null
+  const matrix = subset.map(i => [
+    ...subset.map(j => TWO * covariance[i][j]),
+    ONE,
+    ...(hasReturnConstraint ? [returns[i]] : [])
+  ])
+  matrix.push([...subset.map(() => ONE), ZERO, ...(hasReturnConstraint ? [ZERO] : [])])
+  const vector = [...subset.map(() => ZERO), ONE]
+  if (hasReturnConstraint) {
+    matrix.push([...subset.map(i => returns[i]), ZERO, ZERO])
+    vector.push(targetReturn)
+  }
+
+  const solution = solveLinearSystem(matrix, vector)
+  return solution === null ? null : solution.slice(ZERO, subset.length)
+}
+
+/**
+ * 空売りなしで、目標リターンを達成する最小分散ポートフォリオを求める
+ * @param assets - 資産クラス
+ * @param covariance - 共分散行列
+ * @param targetReturn - 目標リターン (%/年)、null の場合は最小分散ポートフォリオ
+ * @returns 最小分散ポートフォリオ（達成できない場合は null）
+ */
+export function findMinimumVariancePortfolio (assets: AssetClass[], covariance: number[][], targetReturn: number | null): FrontierPoint | null {
+  const returns = assets.map(asset => asset.expectedReturn / PERCENTAGE_DIVISOR)
+  const target = targetReturn === null ? null : targetReturn / PERCENTAGE_DIVISOR
+
+  let best: FrontierPoint | null = null
+  for (const subset of enumerateSubsets(assets.length)) {
+    const subsetWeights = solveSubsetMinimumVariance(subset, returns, covariance, target)
+    const weights = subsetWeights === null ? null : clampFeasibleWeights(expandWeights(subset, subsetWeights, assets.length))
+    if (weights !== null) {
+      const point = createPoint(weights, returns, covariance)
+      if (best === null || point.risk < best.risk) {
+        best = point
+      }
+    }
+  }
+  return best
+}
+
+/**
+ * 空売りなしで、シャープレシオ（(リターン - 無リスク金利) / リスク）が最大となる接点ポートフォリオを求める
+ * 各資産の組み合わせについて w ∝ Σ⁻¹(μ - r_f) を計算し、配分が0以上のものから最大のシャープレシオを選ぶ
+ * @param assets - 資産クラス
+ * @param covariance - 共分散行列
+ * @param riskFreeRate - 無リスク金利 (%/年)
+ * @returns 接点ポートフォリオ（無リスク金利を上回る組み合わせがない場合は null）
+ */
+export function findTangencyPortfolio (assets: AssetClass[], covariance: number[][], riskFreeRate: number): FrontierPoint | null {
+  const returns = assets.map(asset => asset.expectedReturn / PERCENTAGE_DIVISOR)
+
+  let best: FrontierPoint | null = null
+  let bestSharpe = -Infinity
+  for (const subset of enumerateSubsets(assets.length)) {
+    const subCovariance = subset.map(i => subset.map(j => covariance[i][j]))
+    const excessReturns = subset.map(i => returns[i] - riskFreeRate / PERCENTAGE_DIVISOR)
+    const raw = solveLinearSystem(subCovariance, excessReturns)
+    const total = raw === null ? ZERO : raw.reduce((sum, value) => sum + value, ZERO)
+    const weights = raw === null || total <= ZERO
+      ? null
+      : clampFeasibleWeights(expandWeights(subset, raw.map(value => value / total), assets.length))
+    if (weights !== null) {
+      const point = createPoint(weights, returns, covariance)
+      const sharpe = calculateSharpeRatio(point, riskFreeRate)
+      if (point.expectedReturn > riskFreeRate && sharpe > bestSharpe) {
+        best = point
+        bestSharpe = sharpe
+      }
+    }
+  }
+  return best
+}
+
+/**
+ * シャープレシオを計算
+ * @param point - ポートフォリオのリターンとリスク
+ * @param riskFreeRate - 無リスク金利 (%/年)
+ * @returns シャープレシオ（リスクが0の場合は0）
+ */
+export function calculateSharpeRatio (point: { expectedReturn: number, risk: number }, riskFreeRate: number): number {
+  return point.risk > ZERO ? (point.expectedReturn - riskFreeRate) / point.risk : ZERO
+}
+
+/**
+ * 効率的フロンティアを計算
+ * 最小分散ポートフォリオのリターンから、最もリターンの高い資産のリターンまでを等間隔に分割して各点の最小分散ポートフォリオを求める
+ * @param assets - 資産クラス
+ * @param correlations - 相関行列（半正定値であること）
+ * @param riskFreeRate - 無リスク金利 (%/年)
+ * @param numPoints - フロンティア上の点の数
+ * @returns 効率的フロンティア
+ */
+export function calculateEfficientFrontier (
+  assets: AssetClass[],
+  correlations: number[][],
+  riskFreeRate: number,
+  numPoints = DEFAULT_FRONTIER_POINTS
+): EfficientFrontier | null {
+  const covariance = calculateCovarianceMatrix(assets, correlations)
+  const minimumVariance = findMinimumVariancePortfolio(assets, covariance, null)
+  if (minimumVariance === null) {
+    return null
+  }
+
+  const maxReturn = Math.max(...assets.map(asset => asset.expectedReturn))
+  const step = (maxReturn - minimumVariance.expectedReturn) / Math.max(numPoints - ONE, ONE)
+  const points: FrontierPoint[] = [minimumVariance]
+  for (let k = ONE; k < numPoints; k += ONE) {
+    const point = findMinimumVariancePortfolio(assets, covariance, minimumVariance.expectedReturn + step * k)
+    if (point !== null) {
+      points.push(point)
+    }
+  }
+
+  return {
+    points,
+    minimumVariance,
+    tangency: findTangencyPortfolio(assets, covariance, riskFreeRate)
+  }
+}
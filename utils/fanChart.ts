@@ -0,0 +1,43 @@
+// 年ごとのパーセンタイル点の推移（ファンチャート）の計算ユーティリティ
+
+import { calculateInvestmentDistribution } from './normalDistribution'
+import { createDistributionModel } from './distributionModels'
+import { calculateDeflator, deflateDistribution } from './inflation'
+import { calculateWorstCase, type WorstCaseParams, type WorstCaseResult } from './worstCase'
+
+// 定数定義
+const PERCENTAGE_DIVISOR = 100
+const ONE = 1
+
+/**
+ * ファンチャートの1年分のデータ
+ */
+export interface FanChartYear {
+  year: number // 経過年数
+  percentiles: Record<number, number> // 投資部分のパーセンタイル点 (キーは%)
+  worstCase: WorstCaseResult // 確率閾値による最悪ケース（最悪ケースの表と同じ計算）
+}
+
+/**
+ * 1年後から指定した年数後までの、投資部分のパーセンタイル点と最悪ケースを計算
+ * 各年の分布は calculateInvestmentDistribution の対数平均・対数標準偏差と選択中の分布モデルから求める
+ * @param params - 最悪ケースの計算に用いるパラメータ（years は使用しない）
+ * @param maxYears - 計算する最長の年数
+ * @param percentiles - 計算するパーセンタイル (0-100) の一覧
+ * @returns 年ごとのパーセンタイル点と最悪ケース
+ */
+export function calculateFanChart (params: WorstCaseParams, maxYears: number, percentiles: number[]): FanChartYear[] {
+  return Array.from({ length: maxYears }, (_, i) => {
+    const year = i + ONE
+    const yearParams = { ...params, years: year }
+    const deflator = calculateDeflator(params.inflationRate, year)
+    const { logMean, logStdDev } = deflateDistribution(calculateInvestmentDistribution(yearParams), deflator)
+    const model = createDistributionModel(params.distributionModel, logMean, logStdDev)
+
+    const percentileValues: Record<number, number> = {}
+    for (const percentile of percentiles) {
+      percentileValues[percentile] = model.inverseCDF(percentile / PERCENTAGE_DIVISOR)
+    }
+    return { year, percentiles: percentileValues, worstCase: calculateWorstCase(yearParams) }
+  })
+}
@@ -0,0 +1,88 @@
+// 目標金額の達成確率（一定の年数後に資産が目標金額以上になる確率）の計算ユーティリティ
+
+import {
+  calculateInvestmentDistribution,
+  lognormalCDF,
+  type InvestmentDistributionParams
+} from './normalDistribution'
+import { calculateDeflator, deflateDistribution } from './inflation'
+import { calculateRiskFreeValue } from './riskFreeAsset'
+
+// 定数定義
+const ZERO = 0
+const ONE = 1
+
+/**
+ * 目標金額と比べる資産
+ * total: 資産全体（投資部分 + 非投資部分） / investment: 投資部分のみ
+ */
+export type GoalTarget = 'total' | 'investment'
+
+export const goalTargetLabels: Record<GoalTarget, string> = {
+  total: '資産全体',
+  investment: '投資部分'
+}
+
+/**
+ * 目標金額の達成確率の計算に用いるパラメータ（years は使用せず、年数は都度指定する）
+ */
+export interface GoalProbabilityParams extends InvestmentDistributionParams {
+  nonInvestmentPrincipal: number // 投資していない部分の金額
+  riskFreeRate: number // 非投資部分の利回り (%/年)
+  inflationRate: number // 実質値で判定する場合の物価上昇率 (%/年)、名目値で判定する場合は0
+}
+
+/**
+ * 年ごとの目標金額の達成確率
+ */
+export interface GoalProbabilityPoint {
+  year: number // 経過年数
+  probability: number // 目標金額以上になる確率 (0-1)
+}
+
+/**
+ * 指定した年数後に、資産が目標金額以上になる確率を計算（対数正規分布）
+ * 資産全体の場合は、確定的に増える非投資部分を差し引いた金額を投資部分が上回る確率として求める
+ * @param params - 目標金額の達成確率の計算に用いるパラメータ
+ * @param targetAmount - 目標金額 (円)
+ * @param target - 目標金額と比べる資産
+ * @param years - 経過年数
+ * @returns 目標金額以上になる確率 (0-1)
+ */
+export function calculateGoalProbability (params: GoalProbabilityParams, targetAmount: number, target: GoalTarget, years: number): number {
+  const deflator = calculateDeflator(params.inflationRate, years)
+  const { mean, logMean, logStdDev } = deflateDistribution(calculateInvestmentDistribution({ ...params, years }), deflator)
+  const nonInvestmentAssets = target === 'total' ? calculateRiskFreeValue(params.nonInvestmentPrincipal, params.riskFreeRate, years) / deflator : ZERO
+  const requiredInvestment = targetAmount - nonInvestmentAssets
+
+  // 投資部分がない・値動きがない場合は確定的に判定する
+  if (mean <= ZERO || logStdDev <= ZERO || !Number.isFinite(logMean)) {
+    return mean >= requiredInvestment ? ONE : ZERO
+  }
+  return ONE - lognormalCDF(requiredInvestment, logMean, logStdDev)
+}
+
+/**
+ * 1年後から指定した年数後までの、年ごとの目標金額の達成確率を計算
+ * @param params - 目標金額の達成確率の計算に用いるパラメータ
+ * @param targetAmount - 目標金額 (円)
+ * @param target - 目標金額と比べる資産
+ * @param maxYears - 計算する最長の年数
+ * @returns 年ごとの目標金額の達成確率
+ */
+export function calculateGoalProbabilityCurve (params: GoalProbabilityParams, targetAmount: number, target: GoalTarget, maxYears: number): GoalProbabilityPoint[] {
+  return Array.from({ length: maxYears }, (_, i) => {
+    const year = i + ONE
+    return { year, probability: calculateGoalProbability(params, targetAmount, target, year) }
+  })
+}
+
+/**
+ * 目標金額の達成確率が初めて信頼水準を上回る年を探す
+ * @param curve - 年ごとの目標金額の達成確率
+ * @param confidenceLevel - 信頼水準 (0-1)
+ * @returns 初めて信頼水準を上回る年（期間内に上回らない場合は null）
+ */
+export function findFirstYearAboveConfidence (curve: GoalProbabilityPoint[], confidenceLevel: number): number | null {
+  return curve.find(point => point.probability > confidenceLevel)?.year ?? null
+}
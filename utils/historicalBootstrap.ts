@@ -0,0 +1,289 @@
+// 過去の月次リターンのデータセットを用いたブロック・ブートストラップ法のシミュレーションユーティリティ
+// 分布を仮定せず、実際の相場の並び（暴落や回復の続き方）をまとめて再標本化する
+
+import type { InvestmentDistributionParams } from './normalDistribution'
+import { allocateContributionsToSteps, createRandom } from './monteCarlo'
+import type { AssetClass } from './portfolio'
+
+// 定数定義
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const TWO = 2
+const MONTHS_PER_YEAR = 12
+const DEFAULT_NUM_PATHS = 2000
+const DEFAULT_SEED = 42
+const DEFAULT_BLOCK_LENGTH = 12
+const DATASET_VERSION = 1
+const MIN_MONTHLY_RETURN = -100 // 1か月で資産がすべて失われる（これ以下は対数リターンを計算できない）
+
+/**
+ * public/ 以下に置いた過去の月次リターンのデータセットのパス（basePath は呼び出し側で付与する）
+ */
+export const HISTORICAL_RETURNS_PATH = '/data/historical-returns.json'
+
+/**
+ * 資産クラスごとの過去の月次リターン
+ */
+export interface HistoricalAssetReturns {
+  name: string // 資産クラス名（assetClasses の name と対応）
+  monthlyReturns: number[] // 月次リターン (%)、startMonth から古い順
+}
+
+/**
+ * 過去の月次リターンのデータセット
+ */
+export interface HistoricalReturnsDataset {
+  version: number // データ形式のバージョン
+  description: string // データの説明（指数名・円換算の有無など）
+  source: string // 出典
+  startMonth: string // 最初の月 (YYYY-MM)
+  assets: HistoricalAssetReturns[]
+}
+
+/**
+ * ブートストラップ法の設定
+ */
+export interface BootstrapOptions {
+  numPaths?: number // パス数
+  seed?: number // 乱数のシード値
+  blockLength?: number // 1回に取り出す連続した月数
+  targetExpectedReturn?: number | null // 平均を合わせる期待リターン (%/年)、null の場合は過去の平均のまま
+}
+
+// 値が数値の配列かどうか
+function isNumberArray (value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'number' && Number.isFinite(item))
+}
+
+// オブジェクトのプロパティを型を決めずに取り出せるようにする（オブジェクトでない場合は空）
+function toPropertyMap (value: unknown): Map<string, unknown> {
+  const entries: Array<[string, unknown]> = typeof value === 'object' && value !== null ? Object.entries(value) : []
+  return new Map(entries)
+}
+
+// 値が資産クラスごとの月次リターンかどうか（-100% 以下の月を含むものは不正とする）
+function isHistoricalAssetReturns (value: unknown): value is HistoricalAssetReturns {
+  const properties = toPropertyMap(value)
+  const monthlyReturns = properties.get('monthlyReturns')
+  return typeof properties.get('name') === 'string' &&
+    isNumberArray(monthlyReturns) &&
+    monthlyReturns.every(monthlyReturn => monthlyReturn > MIN_MONTHLY_RETURN)
+}
+
+/**
+ * 読み込んだJSONをデータセットとして検証
+ * すべての資産クラスで月数が揃っていない場合や、-100% 以下の月次リターンを含む場合は不正とする
+ * @param value - JSON.parse した値
+ * @returns データセット（形式が正しくない場合は null）
+ */
+export function parseHistoricalReturnsDataset (value: unknown): HistoricalReturnsDataset | null {
+  const properties = toPropertyMap(value)
+  const version = properties.get('version')
+  const description = properties.get('description')
+  const source = properties.get('source')
+  const startMonth = properties.get('startMonth')
+  const assets = properties.get('assets')
+  if (version !== DATASET_VERSION || typeof description !== 'string' || typeof source !== 'string' || typeof startMonth !== 'string') {
+    return null
+  }
+  if (!Array.isArray(assets) || !assets.every(isHistoricalAssetReturns)) {
+    return null
+  }
+  const lengths = new Set(assets.map(asset => asset.monthlyReturns.length))
+  if (lengths.size > ONE) {
+    return null
+  }
+  return { version, description, source, startMonth, assets }
+}
+
+/**
+ * 利用者が用意したデータセットのJSONファイルを読み込む
+ * @param text - ファイルの内容
+ * @returns データセット（JSONとして読めない場合・形式が正しくない場合は null）
+ */
+export function parseHistoricalReturnsFile (text: string): HistoricalReturnsDataset | null {
+  try {
+    return parseHistoricalReturnsDataset(JSON.parse(text))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * データセットに含まれる月数を取得
+ * @param dataset - データセット
+ * @returns 月数（資産クラスがない場合は0）
+ */
+export function getDatasetMonths (dataset: HistoricalReturnsDataset): number {
+  return dataset.assets.length > ZERO ? dataset.assets[ZERO].monthlyReturns.length : ZERO
+}
+
+/**
+ * ポートフォリオの配分で合成した月次の対数リターンを計算（毎月配分を保つものとする）
+ * 配分のある資産クラスがデータセットにない場合は計算できない
+ * @param dataset - データセット
+ * @param assets - 資産クラス（配分と同じ並び順）
+ * @param weights - 各資産クラスの配分 (%)
+ * @returns 月次の対数リターン（計算できない場合は null）
+ */
+export function calculatePortfolioLogReturns (dataset: HistoricalReturnsDataset, assets: AssetClass[], weights: number[]): number[] | null {
+  const series = assets.map(asset => dataset.assets.find(item => item.name === asset.name)?.monthlyReturns ?? null)
+  if (weights.some((weight, i) => weight > ZERO && series[i] === null)) {
+    return null
+  }
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, ZERO)
+  const months = getDatasetMonths(dataset)
+  if (months === ZERO || totalWeight <= ZERO) {
+    return null
+  }
+  return Array.from({ length: months }, (_, month) => {
+    const portfolioReturn = weights.reduce((sum, weight, i) => sum + weight / totalWeight * (series[i]?.[month] ?? ZERO), ZERO)
+    return Math.log(ONE + portfolioReturn / PERCENTAGE_DIVISOR)
+  })
+}
+
+/**
+ * 月次の対数リターンを、月次の増加率の平均が期待リターンと一致するようにずらす
+ * 過去の暴落や回復の形（ばらつき・並び）はそのままに、平均だけを設定の期待リターンに合わせる
+ * @param logReturns - 月次の対数リターン
+ * @param expectedReturn - 期待リターン (%/年)
+ * @returns 平均を合わせた月次の対数リターン
+ */
+export function recenterLogReturns (logReturns: number[], expectedReturn: number): number[] {
+  const meanGrowth = logReturns.reduce((sum, value) => sum + Math.exp(value), ZERO) / logReturns.length
+  // 対数正規分布のモデルと同じく、E[1か月後の資産] = exp(μ/12) となるようにする
+  const shift = expectedReturn / PERCENTAGE_DIVISOR / MONTHS_PER_YEAR - Math.log(meanGrowth)
+  return logReturns.map(value => value + shift)
+}
+
+// 循環ブロック・ブートストラップで、指定した月数分の対数リターンの並びを作成
+function sampleBlockSequence (logReturns: number[], numMonths: number, blockLength: number, random: () => number): number[] {
+  const { length: historyLength } = logReturns
+  const sequence: number[] = []
+  while (sequence.length < numMonths) {
+    const start = Math.floor(random() * historyLength)
+    for (let k = ZERO; k < blockLength && sequence.length < numMonths; k += ONE) {
+      sequence.push(logReturns[(start + k) % historyLength])
+    }
+  }
+  return sequence
+}
+
+/**
+ * 過去の月次リターンからブロック・ブートストラップ法で資産推移をシミュレーション
+ * 連続した月のまとまり（ブロック）を無作為に選んでつなぎ合わせ、定期積立は各月の期初に行う
+ * @param params - 投資パラメータ（期待リターンとリスクは使用しない）
+ * @param logReturns - 月次の対数リターン
+ * @param options - ブートストラップ法の設定
+ * @returns 各パスの最終資産額
+ */
+export function simulateBlockBootstrap (
+  params: InvestmentDistributionParams,
+  logReturns: number[],
+  options: BootstrapOptions = {}
+): number[] {
+  const {
+    numPaths = DEFAULT_NUM_PATHS,
+    seed = DEFAULT_SEED,
+    blockLength = DEFAULT_BLOCK_LENGTH,
+    targetExpectedReturn = null
+  } = options
+  const returns = targetExpectedReturn === null ? logReturns : recenterLogReturns(logReturns, targetExpectedReturn)
+  const numMonths = Math.round(params.years * MONTHS_PER_YEAR)
+  const stepContributions = allocateContributionsToSteps(params, MONTHS_PER_YEAR, numMonths)
+
+  const random = createRandom(seed)
+  const terminalValues: number[] = []
+  for (let i = ZERO; i < numPaths; i += ONE) {
+    const sequence = sampleBlockSequence(returns, numMonths, Math.max(Math.round(blockLength), ONE), random)
+    const value = sequence.reduce((current, logReturn, month) => (current + stepContributions[month]) * Math.exp(logReturn), params.initialAssets)
+    terminalValues.push(value)
+  }
+  return terminalValues
+}
+
+/**
+ * 過去のデータで、指定した月数の連続した期間の累積対数リターンをすべて計算（ずらしながら）
+ * @param logReturns - 月次の対数リターン
+ * @param months - 期間の月数
+ * @returns 各期間の累積対数リターン（データが足りない場合は空配列）
+ */
+export function calculateRollingLogReturns (logReturns: number[], months: number): number[] {
+  const rolling: number[] = []
+  let sum = logReturns.slice(ZERO, months).reduce((total, value) => total + value, ZERO)
+  for (let start = ZERO; start + months <= logReturns.length; start += ONE) {
+    if (start > ZERO) {
+      sum += logReturns[start + months - ONE] - logReturns[start - ONE]
+    }
+    rolling.push(sum)
+  }
+  return rolling
+}
+
+/**
+ * 累積対数リターンが、対数正規分布のモデルで平均から何σ離れているかを計算
+ * @param logReturn - 累積対数リターン
+ * @param expectedReturn - モデルの期待リターン (%/年)
+ * @param risk - モデルのリスク (%/年)
+ * @param years - 期間 (年)
+ * @returns 平均からの距離（σ単位、下落側は負）
+ */
+export function calculateModelZScore (logReturn: number, expectedReturn: number, risk: number, years: number): number {
+  const muRate = expectedReturn / PERCENTAGE_DIVISOR
+  const sigmaRate = risk / PERCENTAGE_DIVISOR
+  const logStdDev = sigmaRate * Math.sqrt(years)
+  if (logStdDev <= ZERO) {
+    return ZERO
+  }
+  return (logReturn - (muRate - sigmaRate * sigmaRate / TWO) * years) / logStdDev
+}
+
+/**
+ * 等間隔の点から作ったヒストグラムで確率密度を計算
+ * グラフの横軸の点を pointsPerBin 個ずつまとめて1つの区間とし、区間内の点には同じ密度を割り当てる
+ * @param values - 値の配列（シミュレーション結果の最終資産額など）
+ * @param points - 等間隔に並んだ横軸の点（昇順）
+ * @param pointsPerBin - 1つの区間にまとめる点の数
+ * @returns 各点での確率密度
+ */
+export function calculateHistogramDensity (values: number[], points: number[], pointsPerBin = ONE): number[] {
+  if (points.length < TWO || values.length === ZERO) {
+    return points.map(() => ZERO)
+  }
+  const step = points[ONE] - points[ZERO]
+  const width = step * pointsPerBin
+  const lowerEdge = points[ZERO] - step / TWO
+  const counts = new Array<number>(Math.ceil(points.length / pointsPerBin)).fill(ZERO)
+  for (const value of values) {
+    const bin = Math.floor((value - lowerEdge) / width)
+    if (bin >= ZERO && bin < counts.length) {
+      counts[bin] += ONE
+    }
+  }
+  return points.map((_, i) => counts[Math.floor(i / pointsPerBin)] / (values.length * width))
+}
+
+/**
+ * 経験分布関数（値の配列のうち、指定した値以下の割合）を計算
+ * @param sortedValues - 昇順にソートされた値の配列
+ * @param value - 評価する値
+ * @returns 指定した値以下の割合 (0-1)
+ */
+export function calculateEmpiricalCDF (sortedValues: number[], value: number): number {
+  if (sortedValues.length === ZERO) {
+    return ZERO
+  }
+  // 二分探索で value 以下の個数を数える
+  let low = ZERO
+  let { length: high } = sortedValues
+  while (low < high) {
+    const middle = Math.floor((low + high) / TWO)
+    if (sortedValues[middle] <= value) {
+      low = middle + ONE
+    } else {
+      high = middle
+    }
+  }
+  return low / sortedValues.length
+}
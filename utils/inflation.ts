@@ -0,0 +1,64 @@
+// インフレ（物価上昇）を考慮した実質値の計算ユーティリティ
+
+import type { InvestmentDistributionParams } from './normalDistribution'
+import { generateContributionSchedule, getContributionsPerYear } from './contributions'
+
+// 定数定義
+const PERCENTAGE_DIVISOR = 100
+const ONE = 1
+
+/**
+ * 金額の表示基準
+ * nominal: 名目値（将来の額面） / real: 実質値（現在の物価で評価した価値）
+ */
+export type ValueBasis = 'nominal' | 'real'
+
+export const valueBasisLabels: Record<ValueBasis, string> = {
+  nominal: '名目値',
+  real: '実質値（現在の価値）'
+}
+
+/**
+ * 指定した年数後の物価水準（現在を1とする）を計算
+ * 名目値をこの値で割ると実質値になる
+ * @param inflationRate - 物価上昇率 (%/年)
+ * @param years - 経過年数
+ * @returns 物価水準
+ */
+export function calculateDeflator (inflationRate: number, years: number): number {
+  return Math.pow(ONE + inflationRate / PERCENTAGE_DIVISOR, years)
+}
+
+/**
+ * 資産額の分布を実質値に換算
+ * 一定の物価水準で割るだけなので、対数空間では平均が ln(物価水準) だけずれ、標準偏差は変わらない
+ * @param distribution - 名目値での分布のパラメータ
+ * @param deflator - 物価水準
+ * @returns 実質値での分布のパラメータ
+ */
+export function deflateDistribution (
+  distribution: { mean: number, stdDev: number, logMean: number, logStdDev: number },
+  deflator: number
+): { mean: number, stdDev: number, logMean: number, logStdDev: number } {
+  return {
+    mean: distribution.mean / deflator,
+    stdDev: distribution.stdDev / deflator,
+    logMean: distribution.logMean - Math.log(deflator),
+    logStdDev: distribution.logStdDev
+  }
+}
+
+/**
+ * 投資元本（初期投資額 + 積立累計額）を実質値で計算
+ * 各回の積立額を、積み立てた時点の物価水準で割り引いて合計する
+ * @param params - 投資パラメータ
+ * @param inflationRate - 物価上昇率 (%/年)
+ * @returns 実質値での投資元本の合計 (円)
+ */
+export function calculateRealTotalContributions (params: InvestmentDistributionParams, inflationRate: number): number {
+  const perYear = getContributionsPerYear(params.contributionFrequency)
+  return generateContributionSchedule(params).reduce(
+    (sum, amount, k) => sum + amount / calculateDeflator(inflationRate, k / perYear),
+    params.initialAssets
+  )
+}
@@ -0,0 +1,136 @@
+// 借入による投資（信用取引・レバレッジ）と追証（強制決済）の計算ユーティリティ
+
+import type { InvestmentDistributionParams } from './normalDistribution'
+import { simulatePaths, type SimulationOptions } from './monteCarlo'
+
+// 定数定義
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const HALF = 0.5
+const MONTHS_PER_YEAR = 12
+
+/**
+ * 投資比率の上限 (%)（自己資金の3倍まで）
+ */
+export const MAX_INVESTMENT_RATIO = 300
+
+/**
+ * 借入による投資の計算に用いるパラメータ
+ */
+export interface MarginCallParams extends InvestmentDistributionParams {
+  borrowedAmount: number // 借入額 (円)
+  borrowingRate: number // 借入金利 (%/年)
+  maintenanceMargin: number // 最低維持率 (%)（評価額に対する自己資金の割合がこれを下回ると追証）
+}
+
+/**
+ * 追証のシミュレーション結果
+ */
+export interface MarginCallResult {
+  pathProbability: number // 投資期間中に一度でも最低維持率を下回る確率 (0-1)
+  horizonProbability: number // 投資期間の終わりだけで判定した場合の確率 (0-1)
+  cumulativeByYear: number[] // 各年末までに追証が発生している確率 (0-1)（添字0が1年後）
+  medianYearsToCall: number | null // 追証が発生したパスのうち、発生までの年数の中央値
+}
+
+/**
+ * 借入金利・最低維持率の設定を検証
+ * @param borrowingRate - 借入金利 (%/年)
+ * @param maintenanceMargin - 最低維持率 (%)
+ * @returns 不正な項目がある場合はエラーメッセージ、問題がない場合は null
+ */
+export function validateLeverageSettings (borrowingRate: number, maintenanceMargin: number): string | null {
+  if (borrowingRate <= -PERCENTAGE_DIVISOR) {
+    return '借入金利は-100より大きい値を入力してください。'
+  }
+  if (maintenanceMargin < ZERO || maintenanceMargin >= PERCENTAGE_DIVISOR) {
+    return '最低維持率は0以上100未満の値を入力してください。'
+  }
+  return null
+}
+
+/**
+ * 投資していない部分の利回りを取得
+ * 投資比率が100%を超える場合、投資していない部分はマイナス（借入）となり、借入金利で増える
+ * @param nonInvestmentPrincipal - 投資していない部分の金額 (円)
+ * @param riskFreeRate - 無リスク金利 (%/年)
+ * @param borrowingRate - 借入金利 (%/年)
+ * @returns 投資していない部分の利回り (%/年)
+ */
+export function getCashRate (nonInvestmentPrincipal: number, riskFreeRate: number, borrowingRate: number): number {
+  return nonInvestmentPrincipal < ZERO ? borrowingRate : riskFreeRate
+}
+
+/**
+ * 評価額に対する自己資金の割合（維持率）を計算
+ * @param value - 投資部分の評価額 (円)
+ * @param debt - 借入残高 (円)
+ * @returns 維持率 (%)
+ */
+export function calculateMarginRatio (value: number, debt: number): number {
+  if (value <= ZERO) {
+    return -Infinity
+  }
+  return (value - debt) / value * PERCENTAGE_DIVISOR
+}
+
+/**
+ * すぐに追証となる評価額の下落率を計算（利息・積立は考慮しない）
+ * 評価額 V が V × (1 - 最低維持率) = 借入額 まで下がると追証となる
+ * @param investmentAmount - 投資額 (円)
+ * @param borrowedAmount - 借入額 (円)
+ * @param maintenanceMargin - 最低維持率 (%)
+ * @returns 下落率 (%)（借入がない場合は100）
+ */
+export function calculateMarginCallDrop (investmentAmount: number, borrowedAmount: number, maintenanceMargin: number): number {
+  if (borrowedAmount <= ZERO || investmentAmount <= ZERO) {
+    return PERCENTAGE_DIVISOR
+  }
+  const threshold = borrowedAmount / (ONE - maintenanceMargin / PERCENTAGE_DIVISOR)
+  return Math.max(ONE - threshold / investmentAmount, ZERO) * PERCENTAGE_DIVISOR
+}
+
+/**
+ * 月次の資産推移をシミュレーションし、期間中に最低維持率を下回る（追証となる）確率を計算
+ * 借入残高は借入金利で複利で増え、返済はしないものとする（積立は自己資金で投資部分に加える）
+ * @param params - 借入による投資の計算に用いるパラメータ
+ * @param options - シミュレーションの設定（頻度は月次に固定）
+ * @returns 期間中・投資期間の終わりの追証の確率と、年ごとの累積確率
+ */
+export function simulateMarginCalls (params: MarginCallParams, options: Omit<SimulationOptions, 'frequency'> = {}): MarginCallResult {
+  const { borrowedAmount, borrowingRate, maintenanceMargin, years } = params
+  const { paths } = simulatePaths(params, { ...options, frequency: 'monthly' })
+  const numYears = Math.ceil(years)
+  const monthlyGrowth = Math.pow(ONE + borrowingRate / PERCENTAGE_DIVISOR, ONE / MONTHS_PER_YEAR)
+
+  const callMonths: number[] = []
+  let horizonCalls = ZERO
+  for (const path of paths) {
+    let debt = borrowedAmount
+    let callMonth: number | null = null
+    for (let month = ONE; month < path.length; month += ONE) {
+      debt *= monthlyGrowth
+      if (callMonth === null && calculateMarginRatio(path[month], debt) < maintenanceMargin) {
+        callMonth = month
+      }
+    }
+    if (callMonth !== null) {
+      callMonths.push(callMonth)
+    }
+    horizonCalls += calculateMarginRatio(path[path.length - ONE], debt) < maintenanceMargin ? ONE : ZERO
+  }
+
+  const { length: numPaths } = paths
+  const sortedCallMonths = [...callMonths].sort((a, b) => a - b)
+  return {
+    pathProbability: callMonths.length / numPaths,
+    horizonProbability: horizonCalls / numPaths,
+    cumulativeByYear: Array.from({ length: numYears }, (_, i) => (
+      callMonths.filter(month => month <= (i + ONE) * MONTHS_PER_YEAR).length / numPaths
+    )),
+    medianYearsToCall: sortedCallMonths.length > ZERO
+      ? sortedCallMonths[Math.floor(sortedCallMonths.length * HALF)] / MONTHS_PER_YEAR
+      : null
+  }
+}
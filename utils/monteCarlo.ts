@@ -0,0 +1,223 @@
+// モンテカルロ法による資産推移シミュレーションのユーティリティ
+
+import {
+  standardNormalDistribution,
+  type InvestmentDistributionParams,
+  type StandardizedDistribution
+} from './normalDistribution'
+import { generateContributionSchedule, getContributionsPerYear } from './contributions'
+import { applyAutocorrelation } from './serialCorrelation'
+
+// 定数定義
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const TWO = 2
+const HALF = 0.5
+const MONTHS_PER_YEAR = 12
+const UINT32_RANGE = 4_294_967_296
+const MULBERRY32_INCREMENT = 0x6D2B79F5
+const MULBERRY32_SHIFT_15 = 15
+const MULBERRY32_SHIFT_14 = 14
+const MULBERRY32_SHIFT_7 = 7
+const MULBERRY32_OR_1 = 1
+const MULBERRY32_OR_61 = 61
+const UNSIGNED_SHIFT = 0
+const DEFAULT_NUM_PATHS = 2000
+const DEFAULT_SEED = 42
+
+/**
+ * シード付き疑似乱数生成器 (Mulberry32)
+ * 同じシードからは常に同じ乱数列が得られる
+ * @param seed - シード値
+ * @returns [0, 1) の一様乱数を返す関数
+ */
+export function createRandom (seed: number): () => number {
+  let state = seed >>> UNSIGNED_SHIFT
+  return () => {
+    state = (state + MULBERRY32_INCREMENT) >>> UNSIGNED_SHIFT
+    let t = state
+    t = Math.imul(t ^ (t >>> MULBERRY32_SHIFT_15), t | MULBERRY32_OR_1)
+    t ^= t + Math.imul(t ^ (t >>> MULBERRY32_SHIFT_7), t | MULBERRY32_OR_61)
+    return ((t ^ (t >>> MULBERRY32_SHIFT_14)) >>> UNSIGNED_SHIFT) / UINT32_RANGE
+  }
+}
+
+/**
+ * シミュレーションの時間刻み
+ */
+export type SimulationFrequency = 'yearly' | 'monthly'
+
+/**
+ * シミュレーションの設定
+ */
+export interface SimulationOptions {
+  numPaths?: number // パス数
+  frequency?: SimulationFrequency // 時間刻み
+  seed?: number // 乱数のシード値
+  shockDistribution?: StandardizedDistribution // 各ステップの対数リターンの標準化された分布（既定は標準正規分布）
+  storesPaths?: boolean // 各パスの資産推移を保持するか（既定は保持する、最終資産額だけが必要な場合は false にしてメモリを節約）
+}
+
+/**
+ * シミュレーション結果
+ */
+export interface SimulationResult {
+  paths: number[][] // 各パスの資産推移（先頭は初期値、storesPaths が false の場合は空）
+  terminalValues: number[] // 各パスの最終資産額
+  stepsPerYear: number // 1年あたりのステップ数
+}
+
+/**
+ * シミュレーション結果の要約統計量
+ */
+export interface SimulationSummary {
+  mean: number // 平均
+  stdDev: number // 標準偏差
+  median: number // 中央値
+  min: number // 最小値
+  max: number // 最大値
+  percentiles: Record<number, number> // パーセンタイル点 (キーは%)
+}
+
+/**
+ * 時間刻みから1年あたりのステップ数を取得
+ * @param frequency - 時間刻み
+ * @returns 1年あたりのステップ数
+ */
+export function getStepsPerYear (frequency: SimulationFrequency): number {
+  return frequency === 'monthly' ? MONTHS_PER_YEAR : ONE
+}
+
+/**
+ * 定期積立を各ステップの期初に割り当てる
+ * ステップより細かい頻度の積立は、そのステップの期初にまとめて行うものとして扱う
+ * @param params - 投資パラメータ
+ * @param stepsPerYear - 1年あたりのステップ数
+ * @param numSteps - ステップ数
+ * @returns 各ステップの期初に行う積立額の配列
+ */
+export function allocateContributionsToSteps (params: InvestmentDistributionParams, stepsPerYear: number, numSteps: number): number[] {
+  const stepContributions = new Array<number>(numSteps).fill(ZERO)
+  const contributionsPerYear = getContributionsPerYear(params.contributionFrequency)
+  generateContributionSchedule(params).forEach((amount, k) => {
+    const step = Math.min(Math.floor(k * stepsPerYear / contributionsPerYear), numSteps - ONE)
+    stepContributions[step] += amount
+  })
+  return stepContributions
+}
+
+// 各ステップの期初に積立を行い、対数リターンで増減させた資産推移を計算（storesPath が false の場合は最終資産額だけを返す）
+function growPath (initialAssets: number, stepContributions: number[], stepLogReturns: number[], storesPath: boolean): number[] {
+  const path = [initialAssets]
+  let value = initialAssets
+  for (let step = ZERO; step < stepLogReturns.length; step += ONE) {
+    value = (value + stepContributions[step]) * Math.exp(stepLogReturns[step])
+    if (storesPath) {
+      path.push(value)
+    }
+  }
+  return storesPath ? path : [value]
+}
+
+/**
+ * 幾何ブラウン運動に従う資産推移のパスを生成
+ * 解析解 (calculateInvestmentDistribution) と同じパラメータを用いる（定期積立・自己相関を含む）
+ * @param params - 投資パラメータ
+ * @param options - シミュレーションの設定
+ * @returns シミュレーション結果
+ */
+export function simulatePaths (params: InvestmentDistributionParams, options: SimulationOptions = {}): SimulationResult {
+  const { initialAssets, expectedReturn, risk, years, autocorrelation = ZERO } = params
+  const {
+    numPaths = DEFAULT_NUM_PATHS,
+    frequency = 'yearly',
+    seed = DEFAULT_SEED,
+    shockDistribution = standardNormalDistribution,
+    storesPaths = true
+  } = options
+
+  const stepsPerYear = getStepsPerYear(frequency)
+  const numSteps = Math.round(years * stepsPerYear)
+  const dt = ONE / stepsPerYear
+
+  // 1ステップあたりの対数リターンの平均と標準偏差
+  const muRate = expectedReturn / PERCENTAGE_DIVISOR
+  const sigmaRate = risk / PERCENTAGE_DIVISOR
+  const stepDrift = (muRate - sigmaRate * sigmaRate / TWO) * dt
+  const stepVolatility = sigmaRate * Math.sqrt(dt)
+
+  const stepContributions = allocateContributionsToSteps(params, stepsPerYear, numSteps)
+
+  const random = createRandom(seed)
+  const simulatedPaths = Array.from({ length: numPaths }, () => {
+    // 年ごとのリターンに自己相関がある場合は、1年単位でショックを AR(1) に従わせる
+    const shocks = applyAutocorrelation(Array.from({ length: numSteps }, () => shockDistribution.sample(random)), stepsPerYear, autocorrelation)
+    return growPath(initialAssets, stepContributions, shocks.map(shock => stepDrift + stepVolatility * shock), storesPaths)
+  })
+
+  return {
+    paths: storesPaths ? simulatedPaths : [],
+    terminalValues: simulatedPaths.map(path => path[path.length - ONE]),
+    stepsPerYear
+  }
+}
+
+/**
+ * ソート済みの配列からパーセンタイル点を計算（線形補間）
+ * @param sortedValues - 昇順にソートされた値の配列
+ * @param percentile - パーセンタイル (0-100)
+ * @returns パーセンタイル点
+ */
+export function calculatePercentile (sortedValues: number[], percentile: number): number {
+  if (sortedValues.length === ZERO) {
+    return Number.NaN
+  }
+  const position = (sortedValues.length - ONE) * percentile / PERCENTAGE_DIVISOR
+  const lowerIndex = Math.floor(position)
+  const upperIndex = Math.ceil(position)
+  const weight = position - lowerIndex
+  return sortedValues[lowerIndex] * (ONE - weight) + sortedValues[upperIndex] * weight
+}
+
+/**
+ * ソート済みの配列から、パーセンタイル点以下の値の平均（経験的な期待ショートフォール）を計算
+ * @param sortedValues - 昇順にソートされた値の配列
+ * @param percentile - パーセンタイル (0-100)
+ * @returns パーセンタイル点以下の値の平均（該当する値がない場合は最小値）
+ */
+export function calculateEmpiricalExpectedShortfall (sortedValues: number[], percentile: number): number {
+  const threshold = calculatePercentile(sortedValues, percentile)
+  const tail = sortedValues.filter(value => value <= threshold)
+  if (tail.length === ZERO) {
+    return sortedValues[ZERO]
+  }
+  return tail.reduce((sum, value) => sum + value, ZERO) / tail.length
+}
+
+/**
+ * 値の配列から要約統計量を計算
+ * @param values - 値の配列（最終資産額など）
+ * @param percentiles - 計算するパーセンタイル (0-100) の一覧
+ * @returns 要約統計量
+ */
+export function summarizeSimulation (values: number[], percentiles: number[] = []): SimulationSummary {
+  const sorted = [...values].sort((a, b) => a - b)
+  const { length: count } = sorted
+  const mean = sorted.reduce((sum, value) => sum + value, ZERO) / count
+  const variance = sorted.reduce((sum, value) => sum + (value - mean) * (value - mean), ZERO) / Math.max(count - ONE, ONE)
+
+  const percentileValues: Record<number, number> = {}
+  for (const percentile of percentiles) {
+    percentileValues[percentile] = calculatePercentile(sorted, percentile)
+  }
+
+  return {
+    mean,
+    stdDev: Math.sqrt(variance),
+    median: calculatePercentile(sorted, HALF * PERCENTAGE_DIVISOR),
+    min: sorted[ZERO],
+    max: sorted[count - ONE],
+    percentiles: percentileValues
+  }
+}
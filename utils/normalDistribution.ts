@@ -1,11 +1,19 @@
 // 標準正規分布に関連する計算ユーティリティ
 
+import { calculateContributionMoments, hasContributions } from './contributions'
+import { calculateVarianceRatio } from './serialCorrelation'
+
 // 定数定義
 const HALF = 0.5
 const ONE = 1
 const TWO = 2
 const ZERO = 0
 const PROBABILITY_THRESHOLD_MIN = 0.42
+const SIMPSON_ODD_WEIGHT = 4
+const SIMPSON_EVEN_WEIGHT = 2
+const THREE = 3
+const PARTIAL_EXPECTATION_RANGE = 20 // 部分期待値の数値積分で、上限から下方向に積分する幅（標準化された対数リターンの単位）
+const PARTIAL_EXPECTATION_INTERVALS = 400 // 部分期待値の数値積分の分割数（偶数）
 const POINT_INCREMENT = 1
 
 /**
@@ -125,26 +133,75 @@ export function normalInverseCDF (p: number): number {
   return x
 }
 
+/**
+ * 定期積立の頻度
+ */
+export type ContributionFrequency = 'monthly' | 'yearly'
+
+/**
+ * 定期積立のパラメータ
+ */
+export interface ContributionParams {
+  contributionAmount?: number // 1回あたりの積立額 (円)
+  contributionFrequency?: ContributionFrequency // 積立頻度
+  contributionGrowthRate?: number // 積立額の年間増加率 (%/年)
+}
+
 /**
  * 投資期間後の資産分布を計算するためのパラメータ
  */
-export interface InvestmentDistributionParams {
+export interface InvestmentDistributionParams extends ContributionParams {
   initialAssets: number // 初期投資額
   expectedReturn: number // 期待リターン (%/年)
   risk: number // リスク (標準偏差 %/年)
   years: number // 投資期間 (年)
+  autocorrelation?: number // 年ごとの対数リターンの自己相関係数 (AR(1)、省略時は0 = 独立)
 }
 
 /**
  * 投資後の資産の対数正規分布パラメータを計算（正しい複利考慮版）
+ * 定期積立がある場合は、積立を含めた資産額の平均・分散に合わせた対数正規分布で近似する
+ * 自己相関がある場合は、対数分散を分散比倍にする（対数平均は独立な場合と同じ）
  * @param params - 投資パラメータ
  * @returns { mean, stdDev, logMean, logStdDev } - 対数正規分布のパラメータ
  */
 export function calculateInvestmentDistribution (params: InvestmentDistributionParams): { mean: number, stdDev: number, logMean: number, logStdDev: number } {
+  const { autocorrelation = ZERO, years } = params
+  const independent = calculateIndependentDistribution(params)
+  if (autocorrelation === ZERO) {
+    return independent
+  }
+
+  // 積立がある場合も、投資期間全体の分散比で近似する
+  const { logMean } = independent
+  const logVariance = independent.logStdDev * independent.logStdDev * calculateVarianceRatio(autocorrelation, years)
+  const mean = Math.exp(logMean + logVariance / TWO)
+  return {
+    mean,
+    stdDev: mean * Math.sqrt(Math.exp(logVariance) - ONE),
+    logMean,
+    logStdDev: Math.sqrt(logVariance)
+  }
+}
+
+// 年ごとのリターンが独立な場合の対数正規分布パラメータ
+function calculateIndependentDistribution (params: InvestmentDistributionParams): { mean: number, stdDev: number, logMean: number, logStdDev: number } {
   const PERCENTAGE_DIVISOR = 100
 
   const { initialAssets, expectedReturn, risk, years } = params
 
+  // 定期積立がある場合は、平均と分散が一致する対数正規分布で近似する
+  if (hasContributions(params)) {
+    const { mean, variance } = calculateContributionMoments(params)
+    const logVariance = Math.log(ONE + variance / (mean * mean))
+    return {
+      mean,
+      stdDev: Math.sqrt(variance),
+      logMean: Math.log(mean) - logVariance / TWO,
+      logStdDev: Math.sqrt(logVariance)
+    }
+  }
+
   // リターンとリスクを小数に変換
   const muRate = expectedReturn / PERCENTAGE_DIVISOR
   const sigmaRate = risk / PERCENTAGE_DIVISOR
@@ -195,6 +252,132 @@ export function lognormalCDF (x: number, logMean: number, logStdDev: number): nu
   return normalCDF(z)
 }
 
+/**
+ * 対数正規分布の逆累積分布関数 (パーセンタイル点)
+ * @param p - 確率 (0 < p < 1)
+ * @param logMean - 対数平均
+ * @param logStdDev - 対数標準偏差
+ * @returns x: P(X <= x) = p となる資産額
+ */
+export function lognormalInverseCDF (p: number, logMean: number, logStdDev: number): number {
+  return Math.exp(logMean + normalInverseCDF(p) * logStdDev)
+}
+
+/**
+ * 対数正規分布の部分期待値 E[X; X <= x]（x 以下の部分だけの期待値）
+ * E[X; X <= x] = exp(m + s²/2)Φ((ln x - m - s²)/s) を用いる
+ * @param x - 上限（資産額）
+ * @param logMean - 対数平均
+ * @param logStdDev - 対数標準偏差
+ * @returns 部分期待値
+ */
+export function lognormalPartialExpectation (x: number, logMean: number, logStdDev: number): number {
+  if (x <= ZERO) {
+    return ZERO
+  }
+  const mean = Math.exp(logMean + HALF * logStdDev * logStdDev)
+  return mean * normalCDF((Math.log(x) - logMean - logStdDev * logStdDev) / logStdDev)
+}
+
+// シンプソン則による数値積分
+function integrateSimpson (integrand: (x: number) => number, lower: number, upper: number, intervals: number): number {
+  const step = (upper - lower) / intervals
+  let sum = integrand(lower) + integrand(upper)
+  for (let i = ONE; i < intervals; i += ONE) {
+    sum += (i % TWO === ONE ? SIMPSON_ODD_WEIGHT : SIMPSON_EVEN_WEIGHT) * integrand(lower + i * step)
+  }
+  return sum * step / THREE
+}
+
+/**
+ * 対数リターンを標準化（平均0・分散1）した確率分布
+ * 正規分布・t分布・歪正規分布などの形状の違いを表現する
+ */
+export interface StandardizedDistribution {
+  pdf: (z: number) => number // 確率密度関数
+  cdf: (z: number) => number // 累積分布関数
+  inverseCDF: (p: number) => number // 逆累積分布関数
+  sample: (random: () => number) => number // [0, 1) の一様乱数を用いたサンプリング
+}
+
+/**
+ * 投資後の資産額の確率分布モデル
+ */
+export interface DistributionModel {
+  pdf: (x: number) => number // 確率密度関数
+  cdf: (x: number) => number // 累積分布関数 P(X <= x)
+  inverseCDF: (p: number) => number // 逆累積分布関数 (パーセンタイル点)
+  sample: (random: () => number) => number // [0, 1) の一様乱数を用いたサンプリング
+  partialExpectation: (x: number) => number // 部分期待値 E[X; X <= x]
+}
+
+/**
+ * 標準正規分布
+ */
+export const standardNormalDistribution: StandardizedDistribution = {
+  pdf: normalPDF,
+  cdf: normalCDF,
+  inverseCDF: normalInverseCDF,
+  sample: (random) => {
+    // Box-Muller法 (log(0) を避けるため (0, 1] に変換)
+    const u1 = ONE - random()
+    const u2 = random()
+    return Math.sqrt(-TWO * Math.log(u1)) * Math.cos(TWO * Math.PI * u2)
+  }
+}
+
+/**
+ * 対数リターンが ln(X) = logMean + logStdDev × Z (Z は標準化された分布) に従う資産額の分布モデルを生成
+ * @param standardized - 標準化された対数リターンの分布
+ * @param logMean - 対数平均
+ * @param logStdDev - 対数標準偏差
+ * @returns 資産額の確率分布モデル
+ */
+export function createLogScaleModel (standardized: StandardizedDistribution, logMean: number, logStdDev: number): DistributionModel {
+  return {
+    pdf: (x) => (x <= ZERO ? ZERO : standardized.pdf((Math.log(x) - logMean) / logStdDev) / (x * logStdDev)),
+    cdf: (x) => (x <= ZERO ? ZERO : standardized.cdf((Math.log(x) - logMean) / logStdDev)),
+    inverseCDF: (p) => Math.exp(logMean + standardized.inverseCDF(p) * logStdDev),
+    sample: (random) => Math.exp(logMean + standardized.sample(random) * logStdDev),
+    // ∫ exp(logMean + logStdDev × z) f(z) dz を上限から十分に下の点まで数値積分
+    partialExpectation: (x) => {
+      if (x <= ZERO) {
+        return ZERO
+      }
+      const upper = (Math.log(x) - logMean) / logStdDev
+      const integrand = (z: number): number => Math.exp(logMean + logStdDev * z) * standardized.pdf(z)
+      return integrateSimpson(integrand, upper - PARTIAL_EXPECTATION_RANGE, upper, PARTIAL_EXPECTATION_INTERVALS)
+    }
+  }
+}
+
+/**
+ * 対数正規分布モデルを生成
+ * @param logMean - 対数平均
+ * @param logStdDev - 対数標準偏差
+ * @returns 資産額の確率分布モデル
+ */
+export function createLognormalModel (logMean: number, logStdDev: number): DistributionModel {
+  return {
+    ...createLogScaleModel(standardNormalDistribution, logMean, logStdDev),
+    pdf: (x) => lognormalPDF(x, logMean, logStdDev),
+    cdf: (x) => lognormalCDF(x, logMean, logStdDev),
+    inverseCDF: (p) => lognormalInverseCDF(p, logMean, logStdDev),
+    partialExpectation: (x) => lognormalPartialExpectation(x, logMean, logStdDev)
+  }
+}
+
+/**
+ * 期待ショートフォール（下位 tailProbability の範囲に入った場合の平均）を計算
+ * パーセンタイル点（最悪ケース）を下回った場合に、平均してどこまで下がるかを表す
+ * @param model - 資産額の分布モデル
+ * @param tailProbability - 下側の確率 (0 < p < 1)
+ * @returns E[X | X <= パーセンタイル点]
+ */
+export function calculateExpectedShortfall (model: DistributionModel, tailProbability: number): number {
+  return model.partialExpectation(model.inverseCDF(tailProbability)) / tailProbability
+}
+
 /**
  * 対数正規分布のグラフ描画用データポイントを生成
  * @param logMean - 対数平均
@@ -0,0 +1,190 @@
+// PDFレポート生成のユーティリティ
+
+import jsPDF from 'jspdf'
+import html2canvas from 'html2canvas'
+
+// 定数定義
+const PDF_MARGIN = 10
+const PDF_IMAGE_SCALE = 2
+const PDF_SPACING = 10
+const PDF_WIDTH_800 = '800px'
+const PDF_PADDING_40 = '40px'
+const PDF_LEFT_OFFSET = '-9999px'
+const MARGIN_SIDES = 2
+const ZERO = 0
+const ONE = 1
+const PERCENTAGE_DIVISOR = 100
+const DECIMAL_ONE_DIGIT = 1
+
+/**
+ * レポートの1セクション
+ * HTML文字列の場合は一時的な要素としてレンダリングしてからキャプチャする
+ */
+export type ReportSection = string | HTMLElement | null
+
+// HTMLコンテンツを生成する関数
+function createPDFContentElement (content: string): HTMLDivElement {
+  const element = document.createElement('div')
+  element.style.width = PDF_WIDTH_800
+  element.style.padding = PDF_PADDING_40
+  element.style.backgroundColor = '#ffffff'
+  element.style.fontFamily = 'sans-serif'
+  element.style.position = 'absolute'
+  element.style.left = PDF_LEFT_OFFSET
+  element.innerHTML = content
+  return element
+}
+
+// セクションをキャンバスにキャプチャする関数
+async function captureSection (section: HTMLElement | string): Promise<HTMLCanvasElement> {
+  if (typeof section !== 'string') {
+    return await html2canvas(section, {
+      scale: PDF_IMAGE_SCALE,
+      backgroundColor: '#ffffff'
+    })
+  }
+
+  const element = createPDFContentElement(section)
+  document.body.appendChild(element)
+  try {
+    return await html2canvas(element, {
+      scale: PDF_IMAGE_SCALE,
+      backgroundColor: '#ffffff'
+    })
+  } finally {
+    // 一時要素を削除
+    document.body.removeChild(element)
+  }
+}
+
+/**
+ * レポートの表題のHTMLを生成
+ * @param title - 表題
+ * @param subtitle - 表題の下に表示する補足（生成日など）
+ * @returns 表題のHTML
+ */
+export function createReportHeaderHtml (title: string, subtitle: string): string {
+  return `
+    <div style="text-align: center; margin-bottom: 30px;">
+      <h1 style="font-size: 24px; margin-bottom: 10px;">${title}</h1>
+      <p style="font-size: 14px; color: #666;">${subtitle}</p>
+    </div>
+  `
+}
+
+/**
+ * 安眠チェック（確率閾値での資産全体の最悪ケース）のHTMLを生成
+ * @param probabilityThreshold - 確率閾値 (%)
+ * @param totalAssetsWorstCase - 資産全体の最悪ケース (円)
+ * @param totalPrincipal - 資産全体の元本 (円)
+ * @returns 安眠チェックのHTML
+ */
+export function createSleepCheckHtml (probabilityThreshold: number, totalAssetsWorstCase: number, totalPrincipal: number): string {
+  const change = totalAssetsWorstCase - totalPrincipal
+  const sign = change >= ZERO ? '+' : ''
+  return `
+    <div style="background-color: #d1ecf1; border: 2px solid #0c5460; border-radius: 8px; padding: 20px; margin-bottom: 30px;">
+      <h2 style="font-size: 18px; margin-bottom: 15px;">💤 安眠チェック</h2>
+      <p style="font-size: 14px; margin-bottom: 10px;">
+        通常起こり得る確率範囲（${probabilityThreshold}%）での最悪のケースで、資産全体が
+        <strong>${totalAssetsWorstCase.toLocaleString()} 円</strong>
+        （<strong>${sign}${change.toLocaleString()} 円</strong> /
+        <strong>${sign}${((change / totalPrincipal) * PERCENTAGE_DIVISOR).toFixed(DECIMAL_ONE_DIGIT)}%</strong>）
+        にまで${change >= ZERO ? '増加' : '減少'}する可能性があります。
+      </p>
+      <p style="font-size: 14px; margin-bottom: 5px;"><strong>安眠できますか？</strong></p>
+      <p style="font-size: 14px; margin: 0;">できない場合は、投資比率を下げてください。</p>
+    </div>
+  `
+}
+
+/**
+ * 見出し付きのセクションのHTMLを生成
+ * @param title - 見出し
+ * @param body - 本文のHTML
+ * @returns セクションのHTML
+ */
+export function createSectionHtml (title: string, body: string): string {
+  return `
+    <div style="margin-top: 20px;">
+      <h2 style="font-size: 18px; margin-bottom: 15px; border-bottom: 2px solid #333; padding-bottom: 5px;">${title}</h2>
+      ${body}
+    </div>
+  `
+}
+
+/**
+ * 「項目 / 値」形式の表のHTMLを生成
+ * @param rows - [項目名, 値] の配列
+ * @returns 表のHTML
+ */
+export function createKeyValueTableHtml (rows: Array<[string, string]>): string {
+  const lastIndex = rows.length - ONE
+  const rowsHtml = rows.map(([label, value], index) => `
+    <tr${index < lastIndex ? ' style="border-bottom: 1px solid #ddd;"' : ''}>
+      <td style="padding: 10px; font-weight: bold; width: 40%;">${label}</td>
+      <td style="padding: 10px;">${value}</td>
+    </tr>
+  `).join('')
+  return `<table style="width: 100%; border-collapse: collapse; font-size: 14px;">${rowsHtml}</table>`
+}
+
+/**
+ * 見出し行付きの表のHTMLを生成
+ * @param headers - 見出し行
+ * @param rows - 各行のセルのHTML
+ * @returns 表のHTML
+ */
+export function createTableHtml (headers: string[], rows: string[][]): string {
+  const headerHtml = headers.map(header => `<th style="padding: 10px; text-align: left; font-weight: bold;">${header}</th>`).join('')
+  const rowsHtml = rows.map(cells => `
+    <tr style="border-bottom: 1px solid #ddd;">
+      ${cells.map(cell => `<td style="padding: 10px;">${cell}</td>`).join('')}
+    </tr>
+  `).join('')
+  return `
+    <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+      <thead>
+        <tr style="background-color: #f8f9fa; border-bottom: 2px solid #dee2e6;">${headerHtml}</tr>
+      </thead>
+      <tbody>${rowsHtml}</tbody>
+    </table>
+  `
+}
+
+/**
+ * 各セクションをキャプチャしてA4縦のPDFとして保存
+ * ページに収まらないセクションは新しいページに配置する
+ * @param sections - レポートのセクション（null は読み飛ばす）
+ * @param fileName - 保存するファイル名
+ */
+export async function saveReportPDF (sections: ReportSection[], fileName: string): Promise<void> {
+  const canvases: HTMLCanvasElement[] = []
+  for (const section of sections) {
+    if (section !== null) {
+      canvases.push(await captureSection(section))
+    }
+  }
+
+  // eslint-disable-next-line new-cap -- jsPDF requires new operator but starts with lowercase
+  const pdf = new jsPDF('p', 'mm', 'a4')
+  const pageWidth = pdf.internal.pageSize.getWidth()
+  const pageHeight = pdf.internal.pageSize.getHeight()
+  const imgWidth = pageWidth - MARGIN_SIDES * PDF_MARGIN
+  let yPosition = PDF_MARGIN
+
+  canvases.forEach((canvas, index) => {
+    const imgHeight = (canvas.height * imgWidth) / canvas.width
+
+    // ページに収まらない場合は新しいページに（先頭のセクションを除く）
+    if (index > ZERO && yPosition + imgHeight > pageHeight - PDF_MARGIN) {
+      pdf.addPage()
+      yPosition = PDF_MARGIN
+    }
+
+    pdf.addImage(canvas.toDataURL('image/png'), 'PNG', PDF_MARGIN, yPosition, imgWidth, imgHeight)
+    yPosition += imgHeight + PDF_SPACING
+  })
+
+  pdf.save(fileName)
+}
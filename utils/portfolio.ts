@@ -0,0 +1,287 @@
+// 複数の資産クラスを組み合わせたポートフォリオのリターン・リスク計算ユーティリティ
+
+// 定数定義
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const TWO = 2
+const JACOBI_MAX_SWEEPS = 100
+const JACOBI_TOLERANCE = 1e-12
+const PSD_TOLERANCE = 1e-9
+const SYMMETRY_TOLERANCE = 1e-9
+const WEIGHT_TOLERANCE = 1e-9
+const WORLD_STOCK_INDEX = 3
+const FULL_WEIGHT = 100
+
+// 資産クラスのリターンとリスク定数
+const DOMESTIC_STOCK_RETURN = 5.0
+const DOMESTIC_STOCK_RISK = 15.0
+const DEVELOPED_STOCK_RETURN = 7.0
+const DEVELOPED_STOCK_RISK = 17.0
+const EMERGING_STOCK_RETURN = 8.5
+const EMERGING_STOCK_RISK = 23.0
+const WORLD_STOCK_RETURN = 7.5
+const WORLD_STOCK_RISK = 18.0
+const DOMESTIC_BOND_RETURN = 1.0
+const DOMESTIC_BOND_RISK = 3.0
+const DEVELOPED_BOND_RETURN = 2.5
+const DEVELOPED_BOND_RISK = 5.0
+
+// 資産クラスのうち外貨建ての割合 (%)（世界株式は日本株を約5%含む）
+const DOMESTIC_FOREIGN_SHARE = 0
+const FOREIGN_FOREIGN_SHARE = 100
+const WORLD_STOCK_FOREIGN_SHARE = 95
+
+// 資産クラス間の相関係数（円ベースの長期的な目安）
+const CORRELATION_DOMESTIC_DEVELOPED_STOCK = 0.7
+const CORRELATION_DOMESTIC_EMERGING_STOCK = 0.6
+const CORRELATION_DOMESTIC_WORLD_STOCK = 0.75
+const CORRELATION_DEVELOPED_EMERGING_STOCK = 0.75
+const CORRELATION_DEVELOPED_WORLD_STOCK = 0.97
+const CORRELATION_EMERGING_WORLD_STOCK = 0.85
+const CORRELATION_STOCK_DOMESTIC_BOND = -0.1
+const CORRELATION_DOMESTIC_STOCK_DEVELOPED_BOND = 0.3
+const CORRELATION_FOREIGN_STOCK_DEVELOPED_BOND = 0.55
+const CORRELATION_EMERGING_STOCK_DEVELOPED_BOND = 0.5
+const CORRELATION_DOMESTIC_DEVELOPED_BOND = 0.2
+
+/**
+ * 資産クラス
+ */
+export interface AssetClass {
+  name: string
+  expectedReturn: number // 期待リターン (%/年)
+  risk: number // リスク (標準偏差 %/年)
+  foreignShare: number // 外貨建ての割合 (%)
+}
+
+/**
+ * 代表的な資産クラスのリターンとリスク
+ */
+export const assetClasses: AssetClass[] = [
+  { name: '国内株式', expectedReturn: DOMESTIC_STOCK_RETURN, risk: DOMESTIC_STOCK_RISK, foreignShare: DOMESTIC_FOREIGN_SHARE },
+  { name: '先進国株式', expectedReturn: DEVELOPED_STOCK_RETURN, risk: DEVELOPED_STOCK_RISK, foreignShare: FOREIGN_FOREIGN_SHARE },
+  { name: '新興国株式', expectedReturn: EMERGING_STOCK_RETURN, risk: EMERGING_STOCK_RISK, foreignShare: FOREIGN_FOREIGN_SHARE },
+  { name: '世界株式', expectedReturn: WORLD_STOCK_RETURN, risk: WORLD_STOCK_RISK, foreignShare: WORLD_STOCK_FOREIGN_SHARE },
+  { name: '国内債券', expectedReturn: DOMESTIC_BOND_RETURN, risk: DOMESTIC_BOND_RISK, foreignShare: DOMESTIC_FOREIGN_SHARE },
+  { name: '先進国債券', expectedReturn: DEVELOPED_BOND_RETURN, risk: DEVELOPED_BOND_RISK, foreignShare: FOREIGN_FOREIGN_SHARE }
+]
+
+/**
+ * assetClasses と同じ並び順の相関行列
+ */
+export const defaultCorrelationMatrix: number[][] = [
+  [ONE, CORRELATION_DOMESTIC_DEVELOPED_STOCK, CORRELATION_DOMESTIC_EMERGING_STOCK, CORRELATION_DOMESTIC_WORLD_STOCK, CORRELATION_STOCK_DOMESTIC_BOND, CORRELATION_DOMESTIC_STOCK_DEVELOPED_BOND],
+  [CORRELATION_DOMESTIC_DEVELOPED_STOCK, ONE, CORRELATION_DEVELOPED_EMERGING_STOCK, CORRELATION_DEVELOPED_WORLD_STOCK, CORRELATION_STOCK_DOMESTIC_BOND, CORRELATION_FOREIGN_STOCK_DEVELOPED_BOND],
+  [CORRELATION_DOMESTIC_EMERGING_STOCK, CORRELATION_DEVELOPED_EMERGING_STOCK, ONE, CORRELATION_EMERGING_WORLD_STOCK, CORRELATION_STOCK_DOMESTIC_BOND, CORRELATION_EMERGING_STOCK_DEVELOPED_BOND],
+  [CORRELATION_DOMESTIC_WORLD_STOCK, CORRELATION_DEVELOPED_WORLD_STOCK, CORRELATION_EMERGING_WORLD_STOCK, ONE, CORRELATION_STOCK_DOMESTIC_BOND, CORRELATION_FOREIGN_STOCK_DEVELOPED_BOND],
+  [CORRELATION_STOCK_DOMESTIC_BOND, CORRELATION_STOCK_DOMESTIC_BOND, CORRELATION_STOCK_DOMESTIC_BOND, CORRELATION_STOCK_DOMESTIC_BOND, ONE, CORRELATION_DOMESTIC_DEVELOPED_BOND],
+  [CORRELATION_DOMESTIC_STOCK_DEVELOPED_BOND, CORRELATION_FOREIGN_STOCK_DEVELOPED_BOND, CORRELATION_EMERGING_STOCK_DEVELOPED_BOND, CORRELATION_FOREIGN_STOCK_DEVELOPED_BOND, CORRELATION_DOMESTIC_DEVELOPED_BOND, ONE]
+]
+
+/**
+ * ポートフォリオの構成（assetClasses と同じ並び順）
+ */
+export interface PortfolioSettings {
+  weights: number[] // 各資産クラスの配分 (%)
+  correlations: number[][] // 資産クラス間の相関行列
+}
+
+export const defaultPortfolioSettings: PortfolioSettings = {
+  weights: assetClasses.map((_, index) => (index === WORLD_STOCK_INDEX ? FULL_WEIGHT : ZERO)),
+  correlations: defaultCorrelationMatrix
+}
+
+/**
+ * 配分の合計を計算
+ * @param weights - 各資産クラスの配分 (%)
+ * @returns 配分の合計 (%)
+ */
+export function calculateTotalWeight (weights: number[]): number {
+  return weights.reduce((sum, weight) => sum + weight, ZERO)
+}
+
+/**
+ * 配分が有効かどうかを判定
+ * @param weights - 各資産クラスの配分 (%)
+ * @returns すべて0%以上で、合計が100%の場合は true
+ */
+export function isValidWeights (weights: number[]): boolean {
+  return weights.every(weight => weight >= ZERO) && Math.abs(calculateTotalWeight(weights) - FULL_WEIGHT) < WEIGHT_TOLERANCE
+}
+
+/**
+ * 配分を合計が100%のまま整数(%)に丸める（最大剰余法）
+ * @param weights - 各資産クラスの配分 (%)、合計100%
+ * @returns 整数に丸めた配分 (%)
+ */
+export function roundWeights (weights: number[]): number[] {
+  const floored = weights.map(weight => Math.floor(weight))
+  const remainder = FULL_WEIGHT - calculateTotalWeight(floored)
+  // 小数部分が大きい順に1%ずつ配る
+  const order = weights
+    .map((weight, index) => ({ index, fraction: weight - Math.floor(weight) }))
+    .sort((a, b) => b.fraction - a.fraction)
+    .slice(ZERO, Math.max(Math.round(remainder), ZERO))
+    .map(({ index }) => index)
+  return floored.map((weight, index) => (order.includes(index) ? weight + ONE : weight))
+}
+
+/**
+ * ポートフォリオ全体の外貨建ての割合を計算（配分は合計が100%になるように正規化する）
+ * @param assets - 資産クラス
+ * @param weights - 各資産クラスの配分 (%)
+ * @returns 外貨建ての割合 (%)
+ */
+export function calculatePortfolioForeignShare (assets: AssetClass[], weights: number[]): number {
+  const totalWeight = calculateTotalWeight(weights)
+  if (totalWeight <= ZERO) {
+    return ZERO
+  }
+  return assets.reduce((sum, asset, i) => sum + weights[i] * asset.foreignShare, ZERO) / totalWeight
+}
+
+/**
+ * ポートフォリオ全体の期待リターンとリスクを計算
+ * μp = Σ wᵢμᵢ, σp² = ΣΣ wᵢwⱼσᵢσⱼρᵢⱼ（配分は合計が100%になるように正規化する）
+ * @param assets - 資産クラス
+ * @param portfolio - ポートフォリオの構成
+ * @returns { expectedReturn, risk } - 期待リターンとリスク (%/年)
+ */
+export function calculatePortfolioReturnAndRisk (assets: AssetClass[], portfolio: PortfolioSettings): { expectedReturn: number, risk: number } {
+  const totalWeight = calculateTotalWeight(portfolio.weights)
+  if (totalWeight <= ZERO) {
+    return { expectedReturn: ZERO, risk: ZERO }
+  }
+
+  const weights = portfolio.weights.map(weight => weight / totalWeight)
+  const expectedReturn = assets.reduce((sum, asset, i) => sum + weights[i] * asset.expectedReturn, ZERO)
+
+  let variance = ZERO
+  assets.forEach((assetI, i) => {
+    assets.forEach((assetJ, j) => {
+      const riskI = assetI.risk / PERCENTAGE_DIVISOR
+      const riskJ = assetJ.risk / PERCENTAGE_DIVISOR
+      variance += weights[i] * weights[j] * riskI * riskJ * portfolio.correlations[i][j]
+    })
+  })
+
+  return { expectedReturn, risk: Math.sqrt(Math.max(variance, ZERO)) * PERCENTAGE_DIVISOR }
+}
+
+// 非対角成分の二乗和
+function offDiagonalNorm (matrix: number[][]): number {
+  let sum = ZERO
+  matrix.forEach((row, i) => {
+    row.forEach((value, j) => {
+      if (i !== j) {
+        sum += value * value
+      }
+    })
+  })
+  return sum
+}
+
+// 2つの値の組 (a, b) を角度 θ だけ回転した結果の一方を返す
+function rotate (a: number, b: number, rotation: { cos: number, sin: number }, isFirst: boolean): number {
+  const { cos, sin } = rotation
+  return isFirst ? cos * a - sin * b : sin * a + cos * b
+}
+
+// (p, q) 成分を0にするヤコビ回転 JᵀAJ を適用した行列を返す
+function applyJacobiRotation (matrix: number[][], p: number, q: number): number[][] {
+  const { [p]: rowP, [q]: rowQ } = matrix
+  const { [p]: app, [q]: apq } = rowP
+  const { [q]: aqq } = rowQ
+  if (Math.abs(apq) < JACOBI_TOLERANCE) {
+    return matrix
+  }
+  const theta = (aqq - app) / (TWO * apq)
+  const sign = theta >= ZERO ? ONE : -ONE
+  const t = sign / (Math.abs(theta) + Math.sqrt(theta * theta + ONE))
+  const cos = ONE / Math.sqrt(t * t + ONE)
+  const rotation = { cos, sin: t * cos }
+
+  // 列 p, q を回転（AJ）
+  const rotatedColumns = matrix.map(row => row.map((value, k) => (
+    k === p || k === q ? rotate(row[p], row[q], rotation, k === p) : value
+  )))
+  // 行 p, q を回転（JᵀAJ）
+  return rotatedColumns.map((row, k) => (
+    k === p || k === q
+      ? row.map((_, m) => rotate(rotatedColumns[p][m], rotatedColumns[q][m], rotation, k === p))
+      : row
+  ))
+}
+
+/**
+ * 対称行列の固有値をヤコビ法で計算
+ * @param symmetricMatrix - 対称行列
+ * @returns 固有値の配列（昇順）
+ */
+export function calculateEigenvalues (symmetricMatrix: number[][]): number[] {
+  let matrix = symmetricMatrix
+  const { length: size } = matrix
+
+  for (let sweep = ZERO; sweep < JACOBI_MAX_SWEEPS && offDiagonalNorm(matrix) > JACOBI_TOLERANCE; sweep += ONE) {
+    for (let p = ZERO; p < size - ONE; p += ONE) {
+      for (let q = p + ONE; q < size; q += ONE) {
+        matrix = applyJacobiRotation(matrix, p, q)
+      }
+    }
+  }
+
+  return matrix.map((row, i) => row[i]).sort((a, b) => a - b)
+}
+
+/**
+ * 行列が相関行列として有効かどうかを判定
+ * 対角成分が1、非対角成分が-1〜1の対称行列で、半正定値（すべての固有値が0以上）であること
+ * @param matrix - 判定する行列
+ * @returns 相関行列として有効な場合は true
+ */
+export function isValidCorrelationMatrix (matrix: number[][]): boolean {
+  const isSquare = matrix.every(row => row.length === matrix.length)
+  if (!isSquare) {
+    return false
+  }
+
+  const hasValidEntries = matrix.every((row, i) => row.every((value, j) => (
+    i === j
+      ? value === ONE
+      : Math.abs(value) <= ONE && Math.abs(value - matrix[j][i]) < SYMMETRY_TOLERANCE
+  )))
+  if (!hasValidEntries) {
+    return false
+  }
+
+  return isPositiveSemiDefinite(matrix)
+}
+
+/**
+ * 対称行列が半正定値かどうかを判定
+ * @param symmetricMatrix - 対称行列
+ * @returns 最小固有値が0以上（数値誤差を許容）の場合は true
+ */
+export function isPositiveSemiDefinite (symmetricMatrix: number[][]): boolean {
+  const eigenvalues = calculateEigenvalues(symmetricMatrix)
+  return eigenvalues.length === ZERO || eigenvalues[ZERO] >= -PSD_TOLERANCE
+}
+
+/**
+ * 相関行列の (i, j) 成分を変更した新しい行列を作成（対称性を保つため (j, i) 成分も変更する）
+ * @param matrix - 元の相関行列
+ * @param i - 行
+ * @param j - 列
+ * @param value - 新しい相関係数
+ * @returns 変更後の相関行列
+ */
+export function updateCorrelation (matrix: number[][], i: number, j: number, value: number): number[][] {
+  return matrix.map((row, rowIndex) => row.map((current, columnIndex) => {
+    if ((rowIndex === i && columnIndex === j) || (rowIndex === j && columnIndex === i)) {
+      return value
+    }
+    return current
+  }))
+}
+
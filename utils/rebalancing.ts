@@ -0,0 +1,156 @@
+// リスク資産と無リスク資産のリバランス（投資比率の復元）のシミュレーションユーティリティ
+
+import { standardNormalDistribution, type StandardizedDistribution } from './normalDistribution'
+import { calculatePercentile, createRandom } from './monteCarlo'
+
+// 定数定義
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const TWO = 2
+const MONTHS_PER_YEAR = 12
+const DEFAULT_NUM_PATHS = 2000
+const DEFAULT_SEED = 42
+
+/**
+ * リバランスの方針
+ * none: リバランスしない（買い持ち） / annual: 毎年末に投資比率に戻す / threshold: 投資比率が許容幅を外れたら戻す
+ */
+export type RebalancingPolicy = 'none' | 'annual' | 'threshold'
+
+export const rebalancingPolicyLabels: Record<RebalancingPolicy, string> = {
+  none: 'リバランスなし',
+  annual: '毎年リバランス',
+  threshold: '許容幅を外れたらリバランス'
+}
+
+/**
+ * リバランスのシミュレーションのパラメータ
+ */
+export interface RebalancingParams {
+  totalAssets: number // 資産総額
+  investmentRatio: number // 目標とする投資比率 (0-100)
+  expectedReturn: number // リスク資産の期待リターン (%/年)
+  risk: number // リスク資産のリスク (標準偏差 %/年)
+  years: number // 運用期間 (年)
+  riskFreeRate: number // 非投資部分の利回り (%/年)
+  policy: RebalancingPolicy // リバランスの方針
+  thresholdBand: number // 許容幅 (±%ポイント)、threshold の場合のみ使用
+}
+
+/**
+ * リバランスのシミュレーションの設定
+ */
+export interface RebalancingOptions {
+  numPaths?: number // パス数
+  seed?: number // 乱数のシード値（方針を比較する場合は同じシードを使うと同じ相場の下で比較できる）
+  shockDistribution?: StandardizedDistribution // 月次の対数リターンの標準化された分布（既定は標準正規分布）
+}
+
+/**
+ * リバランスのシミュレーションの結果
+ */
+export interface RebalancingResult {
+  yearlyTotals: number[][] // 各年末の資産全体の金額（yearlyTotals[年][パス]、先頭は開始時点）
+  terminalValues: number[] // 期間終了時の資産全体の金額
+  averageRebalanceCount: number // 期間中のリバランス回数の平均
+  averageFinalInvestmentRatio: number // 期間終了時の投資比率の平均 (0-100)
+}
+
+// 1本のパスの状態
+interface PathState {
+  risky: number // リスク資産の金額
+  safe: number // 無リスク資産の金額
+  rebalanceCount: number // リバランスした回数
+}
+
+// 指定した月末にリバランスするかどうか
+function shouldRebalance (params: RebalancingParams, state: PathState, month: number): boolean {
+  const { policy, investmentRatio, thresholdBand } = params
+  if (policy === 'annual') {
+    return month % MONTHS_PER_YEAR === ZERO
+  }
+  if (policy === 'threshold') {
+    const total = state.risky + state.safe
+    const currentRatio = total > ZERO ? state.risky / total * PERCENTAGE_DIVISOR : investmentRatio
+    return Math.abs(currentRatio - investmentRatio) > thresholdBand
+  }
+  return false
+}
+
+// 資産全体を目標の投資比率に配分し直す
+function rebalance (state: PathState, investmentRatio: number): PathState {
+  const total = state.risky + state.safe
+  const risky = total * investmentRatio / PERCENTAGE_DIVISOR
+  return { risky, safe: total - risky, rebalanceCount: state.rebalanceCount + ONE }
+}
+
+/**
+ * リバランスの方針に従って資産全体の推移をモンテカルロ法でシミュレーション
+ * リスク資産は月次の幾何ブラウン運動、無リスク資産は無リスク金利で運用し、月末ごとに方針に従ってリバランスする
+ * @param params - リバランスのシミュレーションのパラメータ
+ * @param options - シミュレーションの設定
+ * @returns 各年末の資産全体の金額などの結果
+ */
+export function simulateRebalancing (params: RebalancingParams, options: RebalancingOptions = {}): RebalancingResult {
+  const {
+    numPaths = DEFAULT_NUM_PATHS,
+    seed = DEFAULT_SEED,
+    shockDistribution = standardNormalDistribution
+  } = options
+  const { totalAssets, investmentRatio, expectedReturn, risk, years, riskFreeRate } = params
+
+  const dt = ONE / MONTHS_PER_YEAR
+  const muRate = expectedReturn / PERCENTAGE_DIVISOR
+  const sigmaRate = risk / PERCENTAGE_DIVISOR
+  const stepDrift = (muRate - sigmaRate * sigmaRate / TWO) * dt
+  const stepVolatility = sigmaRate * Math.sqrt(dt)
+  const safeGrowth = Math.pow(ONE + riskFreeRate / PERCENTAGE_DIVISOR, dt)
+  const numMonths = years * MONTHS_PER_YEAR
+
+  const random = createRandom(seed)
+  const yearlyTotals: number[][] = Array.from({ length: years + ONE }, () => [])
+  const terminalValues: number[] = []
+  let totalRebalanceCount = ZERO
+  let totalFinalRatio = ZERO
+
+  for (let i = ZERO; i < numPaths; i += ONE) {
+    const initialRisky = totalAssets * investmentRatio / PERCENTAGE_DIVISOR
+    let state: PathState = { risky: initialRisky, safe: totalAssets - initialRisky, rebalanceCount: ZERO }
+    yearlyTotals[ZERO].push(totalAssets)
+    for (let month = ONE; month <= numMonths; month += ONE) {
+      state = {
+        ...state,
+        risky: state.risky * Math.exp(stepDrift + stepVolatility * shockDistribution.sample(random)),
+        safe: state.safe * safeGrowth
+      }
+      if (shouldRebalance(params, state, month)) {
+        state = rebalance(state, investmentRatio)
+      }
+      if (month % MONTHS_PER_YEAR === ZERO) {
+        yearlyTotals[month / MONTHS_PER_YEAR].push(state.risky + state.safe)
+      }
+    }
+    const total = state.risky + state.safe
+    terminalValues.push(total)
+    totalRebalanceCount += state.rebalanceCount
+    totalFinalRatio += total > ZERO ? state.risky / total * PERCENTAGE_DIVISOR : ZERO
+  }
+
+  return {
+    yearlyTotals,
+    terminalValues,
+    averageRebalanceCount: totalRebalanceCount / numPaths,
+    averageFinalInvestmentRatio: totalFinalRatio / numPaths
+  }
+}
+
+/**
+ * 各年末の資産全体の金額について、指定したパーセンタイル点の推移を計算
+ * @param yearlyTotals - 各年末の資産全体の金額（simulateRebalancing の結果）
+ * @param percentile - パーセンタイル (0-100)
+ * @returns 各年末のパーセンタイル点（先頭は開始時点）
+ */
+export function calculateYearlyPercentiles (yearlyTotals: number[][], percentile: number): number[] {
+  return yearlyTotals.map(values => calculatePercentile([...values].sort((a, b) => a - b), percentile))
+}
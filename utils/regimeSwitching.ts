@@ -0,0 +1,216 @@
+// 平常時と危機時の2つの局面（レジーム）を切り替えるマルコフ・スイッチング・モデルのシミュレーションユーティリティ
+// 値動きの激しい時期が続く（ボラティリティ・クラスタリング）様子を表現する
+
+import { standardNormalDistribution, type InvestmentDistributionParams } from './normalDistribution'
+import { allocateContributionsToSteps, createRandom } from './monteCarlo'
+import { calculateMaxDrawdown, type MaxDrawdown } from './drawdown'
+
+// 定数定義
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const TWO = 2
+const MONTHS_PER_YEAR = 12
+const DEFAULT_NUM_PATHS = 2000
+const DEFAULT_SEED = 42
+
+// プリセットの危機時の期待リターン (%/年)・リスク倍率・遷移確率 (%/月)
+const MILD_CRISIS_RETURN = -10
+const MILD_RISK_MULTIPLIER = 2
+const MILD_CALM_TO_CRISIS = 2
+const MILD_CRISIS_TO_CALM = 15
+const STANDARD_CRISIS_RETURN = -20
+const STANDARD_RISK_MULTIPLIER = 2.5
+const STANDARD_CALM_TO_CRISIS = 1
+const STANDARD_CRISIS_TO_CALM = 8
+const SEVERE_CRISIS_RETURN = -30
+const SEVERE_RISK_MULTIPLIER = 3
+const SEVERE_CALM_TO_CRISIS = 0.4
+const SEVERE_CRISIS_TO_CALM = 5
+
+/**
+ * 1つの局面の値動き
+ */
+export interface Regime {
+  expectedReturn: number // 期待リターン (%/年)
+  risk: number // リスク (標準偏差 %/年)
+}
+
+/**
+ * マルコフ・スイッチング・モデルの設定
+ */
+export interface RegimeSwitchingSettings {
+  calm: Regime // 平常時
+  crisis: Regime // 危機時
+  calmToCrisis: number // 平常時から翌月に危機時へ移る確率 (%/月)
+  crisisToCalm: number // 危機時から翌月に平常時へ戻る確率 (%/月)
+}
+
+/**
+ * プリセットの種類
+ */
+export type RegimeSwitchingPreset = 'mild' | 'standard' | 'severe'
+
+/**
+ * プリセットの定義（危機時の値動きと局面の移りやすさ）
+ * 平常時の期待リターンとリスクは、長期の平均とリスクが設定の値と一致するように決める
+ */
+interface RegimeSwitchingPresetDefinition {
+  label: string
+  description: string
+  crisisReturn: number // 危機時の期待リターン (%/年)
+  crisisRiskMultiplier: number // 危機時のリスクが平常時の何倍か
+  calmToCrisis: number // 平常時から危機時へ移る確率 (%/月)
+  crisisToCalm: number // 危機時から平常時へ戻る確率 (%/月)
+}
+
+export const regimeSwitchingPresets: Record<RegimeSwitchingPreset, RegimeSwitchingPresetDefinition> = {
+  mild: {
+    label: '穏やかな調整局面',
+    description: '数年に一度、半年ほど値動きが荒くなる',
+    crisisReturn: MILD_CRISIS_RETURN,
+    crisisRiskMultiplier: MILD_RISK_MULTIPLIER,
+    calmToCrisis: MILD_CALM_TO_CRISIS,
+    crisisToCalm: MILD_CRISIS_TO_CALM
+  },
+  standard: {
+    label: '標準的な弱気相場',
+    description: '10年に1度ほど、1年ほど値動きの荒い下落局面が続く',
+    crisisReturn: STANDARD_CRISIS_RETURN,
+    crisisRiskMultiplier: STANDARD_RISK_MULTIPLIER,
+    calmToCrisis: STANDARD_CALM_TO_CRISIS,
+    crisisToCalm: STANDARD_CRISIS_TO_CALM
+  },
+  severe: {
+    label: '金融危機級',
+    description: '20年に1度ほど、1年半ほど大きな下落局面が続く',
+    crisisReturn: SEVERE_CRISIS_RETURN,
+    crisisRiskMultiplier: SEVERE_RISK_MULTIPLIER,
+    calmToCrisis: SEVERE_CALM_TO_CRISIS,
+    crisisToCalm: SEVERE_CRISIS_TO_CALM
+  }
+}
+
+/**
+ * マルコフ・スイッチング・モデルのシミュレーション結果
+ */
+export interface RegimeSwitchingResult {
+  terminalValues: number[] // 各パスの最終資産額
+  drawdowns: MaxDrawdown[] // 各パスの最大ドローダウン
+  averageCrisisShare: number // 危機時だった月の割合の平均 (0-1)
+}
+
+/**
+ * 長期的に危機時である確率（定常分布）を計算
+ * @param settings - マルコフ・スイッチング・モデルの設定
+ * @returns 危機時である確率 (0-1)
+ */
+export function calculateCrisisProbability (settings: RegimeSwitchingSettings): number {
+  const total = settings.calmToCrisis + settings.crisisToCalm
+  return total > ZERO ? settings.calmToCrisis / total : ZERO
+}
+
+/**
+ * 長期的な年率の期待リターンとリスクを計算
+ * 局面ごとの月次の値動きを定常分布で混ぜ合わせ、局面の平均の違いによるばらつきも含める
+ * @param settings - マルコフ・スイッチング・モデルの設定
+ * @returns 長期の期待リターンとリスク (%/年)
+ */
+export function calculateLongRunMoments (settings: RegimeSwitchingSettings): Regime {
+  const crisisProbability = calculateCrisisProbability(settings)
+  const { calm, crisis } = settings
+  const expectedReturn = (ONE - crisisProbability) * calm.expectedReturn + crisisProbability * crisis.expectedReturn
+  const meanGap = crisis.expectedReturn - calm.expectedReturn
+  const variance = (ONE - crisisProbability) * calm.risk * calm.risk +
+    crisisProbability * crisis.risk * crisis.risk +
+    crisisProbability * (ONE - crisisProbability) * meanGap * meanGap / MONTHS_PER_YEAR
+  return { expectedReturn, risk: Math.sqrt(variance) }
+}
+
+/**
+ * プリセットから、長期の期待リターンとリスクが設定の値と一致するモデルの設定を作成
+ * @param preset - プリセットの種類
+ * @param expectedReturn - 長期の期待リターン (%/年)
+ * @param risk - 長期のリスク (%/年)
+ * @returns マルコフ・スイッチング・モデルの設定
+ */
+export function calibrateRegimeSwitching (preset: RegimeSwitchingPreset, expectedReturn: number, risk: number): RegimeSwitchingSettings {
+  const { [preset]: definition } = regimeSwitchingPresets
+  const { calmToCrisis, crisisToCalm, crisisReturn, crisisRiskMultiplier } = definition
+  const crisisProbability = calmToCrisis / (calmToCrisis + crisisToCalm)
+
+  // 平常時の期待リターン: (1-π)μ平常 + πμ危機 = μ
+  const calmReturn = (expectedReturn - crisisProbability * crisisReturn) / (ONE - crisisProbability)
+  // 平常時のリスク: σ² = (1-π)σ平常² + π(kσ平常)² + π(1-π)(μ危機-μ平常)²/12
+  const meanGap = crisisReturn - calmReturn
+  const regimeVariance = risk * risk - crisisProbability * (ONE - crisisProbability) * meanGap * meanGap / MONTHS_PER_YEAR
+  const calmRisk = Math.sqrt(Math.max(regimeVariance, ZERO) / (ONE - crisisProbability + crisisProbability * crisisRiskMultiplier * crisisRiskMultiplier))
+
+  return {
+    calm: { expectedReturn: calmReturn, risk: calmRisk },
+    crisis: { expectedReturn: crisisReturn, risk: calmRisk * crisisRiskMultiplier },
+    calmToCrisis,
+    crisisToCalm
+  }
+}
+
+// 局面ごとの月次の対数リターンの平均と標準偏差
+function toMonthlyLogReturn (regime: Regime): { drift: number, volatility: number } {
+  const muRate = regime.expectedReturn / PERCENTAGE_DIVISOR
+  const sigmaRate = regime.risk / PERCENTAGE_DIVISOR
+  return {
+    drift: (muRate - sigmaRate * sigmaRate / TWO) / MONTHS_PER_YEAR,
+    volatility: sigmaRate / Math.sqrt(MONTHS_PER_YEAR)
+  }
+}
+
+/**
+ * マルコフ・スイッチング・モデルで資産推移をモンテカルロ法でシミュレーション（月次）
+ * 各パスの最初の局面は定常分布から選び、毎月末に遷移確率に従って局面を切り替える
+ * @param params - 投資パラメータ（期待リターンとリスクは使用せず、局面ごとの値を使う）
+ * @param settings - マルコフ・スイッチング・モデルの設定
+ * @param numPaths - パス数
+ * @param seed - 乱数のシード値
+ * @returns 各パスの最終資産額と最大ドローダウン
+ */
+export function simulateRegimeSwitching (
+  params: InvestmentDistributionParams,
+  settings: RegimeSwitchingSettings,
+  numPaths = DEFAULT_NUM_PATHS,
+  seed = DEFAULT_SEED
+): RegimeSwitchingResult {
+  const numMonths = Math.round(params.years * MONTHS_PER_YEAR)
+  const stepContributions = allocateContributionsToSteps(params, MONTHS_PER_YEAR, numMonths)
+  const calm = toMonthlyLogReturn(settings.calm)
+  const crisis = toMonthlyLogReturn(settings.crisis)
+  const crisisProbability = calculateCrisisProbability(settings)
+
+  const random = createRandom(seed)
+  const terminalValues: number[] = []
+  const drawdowns: MaxDrawdown[] = []
+  let totalCrisisMonths = ZERO
+
+  for (let i = ZERO; i < numPaths; i += ONE) {
+    let isCrisis = random() < crisisProbability
+    let { initialAssets: value } = params
+    const path = [value]
+    for (let month = ZERO; month < numMonths; month += ONE) {
+      const { drift, volatility } = isCrisis ? crisis : calm
+      value = (value + stepContributions[month]) * Math.exp(drift + volatility * standardNormalDistribution.sample(random))
+      path.push(value)
+      totalCrisisMonths += isCrisis ? ONE : ZERO
+      const switchProbability = (isCrisis ? settings.crisisToCalm : settings.calmToCrisis) / PERCENTAGE_DIVISOR
+      if (random() < switchProbability) {
+        isCrisis = !isCrisis
+      }
+    }
+    terminalValues.push(value)
+    drawdowns.push(calculateMaxDrawdown(path))
+  }
+
+  return {
+    terminalValues,
+    drawdowns,
+    averageCrisisShare: numMonths > ZERO ? totalCrisisMonths / (numPaths * numMonths) : ZERO
+  }
+}
@@ -0,0 +1,136 @@
+// 相対的危険回避度（CRRA効用）に基づく最適な投資比率と確実性等価の計算ユーティリティ
+
+import { MAX_INVESTMENT_RATIO } from './leverage'
+
+// 定数定義
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const HALF = 0.5
+const BISECTION_ITERATIONS = 60
+const MAX_SEARCH_RISK_AVERSION = 50
+
+/**
+ * 相対的危険回避度の範囲と初期値
+ */
+export const MIN_RISK_AVERSION = 0.5
+export const MAX_RISK_AVERSION = 10
+export const DEFAULT_RISK_AVERSION = 3
+
+/**
+ * 質問で使う賭けの利益 (%)（50%の確率で資産がこれだけ増える）
+ */
+export const LOTTERY_GAIN = 50
+
+/**
+ * 最適な投資比率と確実性等価の計算に用いるパラメータ
+ */
+export interface RiskAversionParams {
+  totalAssets: number // 資産総額 (円)
+  expectedReturn: number // リスク資産の期待リターン (%/年)
+  risk: number // リスク資産のリスク (%/年)
+  riskFreeRate: number // 無リスク金利 (%/年)
+  borrowingRate: number // 投資比率が100%を超える場合の借入金利 (%/年)
+  years: number // 投資期間 (年)
+}
+
+/**
+ * 確実性等価（不確実な資産と同じ効用をもたらす確実な金額）
+ */
+export interface CertaintyEquivalent {
+  wealth: number // 投資期間後の確実性等価 (円)
+  rate: number // 確実性等価の年率換算のリターン (%/年)
+}
+
+/**
+ * CRRA効用関数 u(w) = w^(1-γ)/(1-γ)（γ = 1 の場合は ln w）
+ * @param wealth - 資産（初期資産を1とした倍率）
+ * @param riskAversion - 相対的危険回避度 γ
+ * @returns 効用
+ */
+export function crraUtility (wealth: number, riskAversion: number): number {
+  if (riskAversion === ONE) {
+    return Math.log(wealth)
+  }
+  return Math.pow(wealth, ONE - riskAversion) / (ONE - riskAversion)
+}
+
+// 借入の有無に応じた、リスク資産以外の部分の利回り (%/年)
+const getCashRate = (investmentRatio: number, params: RiskAversionParams): number => (
+  investmentRatio > PERCENTAGE_DIVISOR ? params.borrowingRate : params.riskFreeRate
+)
+
+// マートンの公式 w* = (μ - r) / (γσ²) による投資比率 (%)
+const calculateMertonRatio = (expectedReturn: number, risk: number, rate: number, riskAversion: number): number => {
+  const sigmaRate = risk / PERCENTAGE_DIVISOR
+  if (sigmaRate <= ZERO) {
+    return expectedReturn > rate ? MAX_INVESTMENT_RATIO : ZERO
+  }
+  return (expectedReturn - rate) / PERCENTAGE_DIVISOR / (riskAversion * sigmaRate * sigmaRate) * PERCENTAGE_DIVISOR
+}
+
+/**
+ * 効用を最大にする投資比率（マートンの公式）を計算
+ * 投資比率を一定に保つ（リバランスする）場合、w* = (μ - r) / (γσ²) となる
+ * 100%を超える場合は借入金利で計算し直し、借入金利では100%を下回る場合は100%とする
+ * @param params - 最適な投資比率の計算に用いるパラメータ
+ * @param riskAversion - 相対的危険回避度 γ
+ * @returns 最適な投資比率 (0〜MAX_INVESTMENT_RATIO %)
+ */
+export function calculateOptimalInvestmentRatio (params: RiskAversionParams, riskAversion: number): number {
+  const { expectedReturn, risk, riskFreeRate, borrowingRate } = params
+  const ratio = calculateMertonRatio(expectedReturn, risk, riskFreeRate, riskAversion)
+  if (ratio <= PERCENTAGE_DIVISOR) {
+    return Math.max(ratio, ZERO)
+  }
+  const leveragedRatio = calculateMertonRatio(expectedReturn, risk, borrowingRate, riskAversion)
+  return Math.min(Math.max(leveragedRatio, PERCENTAGE_DIVISOR), MAX_INVESTMENT_RATIO)
+}
+
+/**
+ * 投資比率を一定に保つ場合の確実性等価を計算
+ * 資産は対数正規分布に従い、確実性等価の年率は r + w(μ - r) - γw²σ²/2 となる
+ * @param params - 確実性等価の計算に用いるパラメータ
+ * @param investmentRatio - 投資比率 (%)
+ * @param riskAversion - 相対的危険回避度 γ
+ * @returns 投資期間後の確実性等価と、その年率換算のリターン
+ */
+export function calculateCertaintyEquivalent (params: RiskAversionParams, investmentRatio: number, riskAversion: number): CertaintyEquivalent {
+  const { totalAssets, expectedReturn, risk, years } = params
+  const share = investmentRatio / PERCENTAGE_DIVISOR
+  const cashRate = getCashRate(investmentRatio, params) / PERCENTAGE_DIVISOR
+  const sigmaRate = risk / PERCENTAGE_DIVISOR
+  const logRate = cashRate + share * (expectedReturn / PERCENTAGE_DIVISOR - cashRate) - HALF * riskAversion * share * share * sigmaRate * sigmaRate
+  return {
+    wealth: totalAssets * Math.exp(logRate * years),
+    rate: (Math.exp(logRate) - ONE) * PERCENTAGE_DIVISOR
+  }
+}
+
+/**
+ * 「50%の確率で資産が LOTTERY_GAIN% 増え、50%の確率で loss% 減る」賭けを受け入れるかどうかが
+ * ちょうど分かれる相対的危険回避度を計算（二分法）
+ * 受け入れられる最大の損失が小さいほど、危険回避度は大きくなる
+ * @param loss - 賭けの損失 (%)（0より大きく LOTTERY_GAIN 未満）
+ * @returns 相対的危険回避度 γ
+ */
+export function calculateIndifferenceRiskAversion (loss: number): number {
+  const up = ONE + LOTTERY_GAIN / PERCENTAGE_DIVISOR
+  const down = ONE - loss / PERCENTAGE_DIVISOR
+  // 賭けの期待効用 - 賭けない場合の効用（γ が大きいほど小さくなる）
+  const utilityGain = (riskAversion: number): number => (
+    HALF * crraUtility(up, riskAversion) + HALF * crraUtility(down, riskAversion) - crraUtility(ONE, riskAversion)
+  )
+
+  let lower = ZERO
+  let upper = MAX_SEARCH_RISK_AVERSION
+  for (let i = ZERO; i < BISECTION_ITERATIONS; i += ONE) {
+    const middle = (lower + upper) * HALF
+    if (utilityGain(middle) > ZERO) {
+      lower = middle
+    } else {
+      upper = middle
+    }
+  }
+  return (lower + upper) * HALF
+}
@@ -0,0 +1,85 @@
+// 無リスク資産（投資していない部分）と資本市場線に関連する計算ユーティリティ
+
+import { CAPITAL_GAINS_TAX_RATE, calculateAfterTaxValue } from './taxAndCost'
+
+// 定数定義
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const DEFAULT_RATIO_STEP = 5
+
+/**
+ * 資本市場線上の点（リスク資産と無リスク資産の組み合わせ）
+ */
+export interface CapitalMarketLinePoint {
+  investmentRatio: number // 投資比率 (0-100)
+  expectedReturn: number // 期待リターン (%/年)
+  risk: number // リスク (標準偏差 %/年)
+}
+
+/**
+ * 無リスク金利で運用した場合の指定年数後の金額を計算（1年複利）
+ * @param amount - 元本 (円)
+ * @param riskFreeRate - 無リスク金利 (%/年)
+ * @param years - 運用期間 (年)
+ * @returns 指定年数後の金額 (円)
+ */
+export function calculateRiskFreeValue (amount: number, riskFreeRate: number, years: number): number {
+  return amount * Math.pow(ONE + riskFreeRate / PERCENTAGE_DIVISOR, years)
+}
+
+/**
+ * 無リスク金利で運用した場合の指定年数後の税引後の金額を計算
+ * 預金利子などにも譲渡益と同じ税率がかかるため、期間中の利息の合計に課税する（毎年の源泉徴収による複利の目減りは無視する）
+ * @param amount - 元本 (円)
+ * @param riskFreeRate - 無リスク金利 (%/年)
+ * @param years - 運用期間 (年)
+ * @returns 指定年数後の税引後の金額 (円)
+ */
+export function calculateAfterTaxRiskFreeValue (amount: number, riskFreeRate: number, years: number): number {
+  return calculateAfterTaxValue(calculateRiskFreeValue(amount, riskFreeRate, years), amount, CAPITAL_GAINS_TAX_RATE / PERCENTAGE_DIVISOR)
+}
+
+/**
+ * 投資比率に応じた資本市場線上の点を計算
+ * 毎年投資比率を保つ場合、リターンは rf + w(μ - rf)、リスクは wσ となる
+ * @param investmentRatio - 投資比率 (0-100)
+ * @param expectedReturn - リスク資産の期待リターン (%/年)
+ * @param risk - リスク資産のリスク (%/年)
+ * @param riskFreeRate - 無リスク金利 (%/年)
+ * @returns 資本市場線上の点
+ */
+export function calculateCapitalMarketLinePoint (
+  investmentRatio: number,
+  expectedReturn: number,
+  risk: number,
+  riskFreeRate: number
+): CapitalMarketLinePoint {
+  const share = investmentRatio / PERCENTAGE_DIVISOR
+  return {
+    investmentRatio,
+    expectedReturn: riskFreeRate + share * (expectedReturn - riskFreeRate),
+    risk: share * risk
+  }
+}
+
+/**
+ * 投資比率0%から100%までの資本市場線を計算
+ * @param expectedReturn - リスク資産の期待リターン (%/年)
+ * @param risk - リスク資産のリスク (%/年)
+ * @param riskFreeRate - 無リスク金利 (%/年)
+ * @param step - 投資比率の刻み (%)
+ * @returns 資本市場線上の点（投資比率の昇順）
+ */
+export function calculateCapitalMarketLine (
+  expectedReturn: number,
+  risk: number,
+  riskFreeRate: number,
+  step = DEFAULT_RATIO_STEP
+): CapitalMarketLinePoint[] {
+  const points: CapitalMarketLinePoint[] = []
+  for (let ratio = ZERO; ratio <= PERCENTAGE_DIVISOR; ratio += step) {
+    points.push(calculateCapitalMarketLinePoint(ratio, expectedReturn, risk, riskFreeRate))
+  }
+  return points
+}
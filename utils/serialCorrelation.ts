@@ -0,0 +1,64 @@
+// 年ごとのリターンの系列相関（AR(1)）の計算ユーティリティ
+// 負の自己相関は平均回帰（下落の翌年は戻りやすい）、正の自己相関はモメンタム（上昇・下落が続きやすい）を表す
+
+// 定数定義
+const ZERO = 0
+const ONE = 1
+const TWO = 2
+
+/**
+ * 自己相関係数の範囲（スライダーの範囲）
+ */
+export const MIN_AUTOCORRELATION = -0.5
+export const MAX_AUTOCORRELATION = 0.5
+
+/**
+ * 分散比（n年間の対数リターンの分散が、独立な場合の何倍になるか）を計算
+ * 年ごとの対数リターンが自己相関係数 ρ の AR(1) に従うとき
+ * Var[Σx_t] = σ² × (n + 2 × Σ_{k=1}^{n-1} (n - k) × ρ^k) となる
+ * @param autocorrelation - 1年ごとの対数リターンの自己相関係数 ρ (-1 < ρ < 1)
+ * @param years - 投資期間 (年)
+ * @returns 分散比（独立な場合は1）
+ */
+export function calculateVarianceRatio (autocorrelation: number, years: number): number {
+  if (autocorrelation === ZERO || years <= ONE) {
+    return ONE
+  }
+  let covarianceSum = ZERO
+  let lagCorrelation = ONE
+  for (let lag = ONE; lag < years; lag += ONE) {
+    lagCorrelation *= autocorrelation
+    covarianceSum += (years - lag) * lagCorrelation
+  }
+  return Math.max(ONE + TWO * covarianceSum / years, ZERO)
+}
+
+/**
+ * 1ステップごとのショックに、年単位の AR(1) の自己相関を持たせる
+ * 1年分のショックの合計（標準化したもの）を AR(1) に従う値に置き換え、その差を1年の各ステップに均等に配分する
+ * 最初の年は定常分布から始まるため、年ごとのショックの分散は独立な場合と変わらない
+ * @param shocks - 独立なショック（平均0・分散1）の配列
+ * @param stepsPerYear - 1年あたりのステップ数
+ * @param autocorrelation - 1年ごとの自己相関係数 ρ (-1 < ρ < 1)
+ * @returns 自己相関を持たせたショックの配列
+ */
+export function applyAutocorrelation (shocks: number[], stepsPerYear: number, autocorrelation: number): number[] {
+  if (autocorrelation === ZERO) {
+    return shocks
+  }
+  const innovationScale = Math.sqrt(ONE - autocorrelation * autocorrelation)
+  const correlated: number[] = []
+  let previousYearShock: number | null = null
+  for (let start = ZERO; start < shocks.length; start += stepsPerYear) {
+    const yearShocks = shocks.slice(start, start + stepsPerYear)
+    const scale = Math.sqrt(yearShocks.length)
+    const yearShock = yearShocks.reduce((sum, shock) => sum + shock, ZERO) / scale
+    const correlatedYearShock: number = previousYearShock === null
+      ? yearShock
+      : autocorrelation * previousYearShock + innovationScale * yearShock
+    const adjustment = (correlatedYearShock - yearShock) / scale
+    correlated.push(...yearShocks.map(shock => shock + adjustment))
+    previousYearShock = correlatedYearShock
+  }
+  return correlated
+}
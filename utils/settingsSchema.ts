@@ -0,0 +1,324 @@
+// 保存する設定のスキーマ（バージョン・マイグレーション・検証）に関するユーティリティ
+
+import type { InvestmentSettings } from '@/contexts/SettingsContext'
+import { contributionFrequencyLabels } from './contributions'
+import { validateCurrencySettings } from './currency'
+import { MAX_INVESTMENT_RATIO, validateLeverageSettings } from './leverage'
+import { isValidCorrelationMatrix, isValidWeights } from './portfolio'
+
+// 定数定義
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const LEGACY_SCHEMA_VERSION = 0
+const JSON_INDENT = 2
+
+/**
+ * 保存する設定のスキーマのバージョン
+ * 保存形式を変更した場合は値を上げ、migrations に前のバージョンからの変換を追加する
+ */
+export const SETTINGS_SCHEMA_VERSION = 1
+
+/**
+ * localStorageに保存する設定の形式
+ */
+export interface StoredSettings {
+  version: number
+  settings: Record<string, unknown>
+}
+
+/**
+ * 設定の読み込み結果
+ */
+export interface LoadedSettings {
+  settings: InvestmentSettings
+  repairedKeys: Array<keyof InvestmentSettings> // 不正な値だったためデフォルト値に戻した項目
+  isNewerVersion: boolean // 現在より新しいバージョンで保存されていた（このバージョンで扱えない項目は読み込まれない）
+}
+
+/**
+ * 設定の項目名（修復した項目の表示に使用）
+ */
+export const settingLabels: Record<keyof InvestmentSettings, string> = {
+  totalAssets: '資産総額',
+  investmentRatio: '投資比率',
+  probabilityThreshold: '確率の閾値',
+  expectedReturn: '想定リターン',
+  risk: '想定リスク',
+  contributionAmount: '積立額',
+  contributionFrequency: '積立頻度',
+  contributionGrowthRate: '積立額の年間増加率',
+  inflationRate: '物価上昇率',
+  riskFreeRate: '無リスク金利',
+  borrowingRate: '借入金利',
+  maintenanceMargin: '最低維持率',
+  expenseRatio: '信託報酬',
+  nisaAllowance: 'NISAで保有する金額',
+  portfolio: 'ポートフォリオ',
+  currency: '為替リスク'
+}
+
+// 項目ごとの検証ルール（不正な場合はエラーメッセージ、問題がない場合は null）
+interface SettingRule {
+  key: keyof InvestmentSettings
+  validate: (settings: InvestmentSettings) => string | null
+}
+
+const rangeError = (isValid: boolean, message: string): string | null => (isValid ? null : message)
+
+// 設定ページの保存時と同じ順序で検証する
+const settingRules: SettingRule[] = [
+  { key: 'totalAssets', validate: s => rangeError(s.totalAssets > ZERO, '資産総額は0より大きい値を入力してください。') },
+  {
+    key: 'investmentRatio',
+    validate: s => rangeError(s.investmentRatio >= ZERO && s.investmentRatio <= MAX_INVESTMENT_RATIO, `投資比率は0〜${MAX_INVESTMENT_RATIO}の範囲で入力してください。`)
+  },
+  {
+    key: 'probabilityThreshold',
+    validate: s => rangeError(s.probabilityThreshold >= ZERO && s.probabilityThreshold <= PERCENTAGE_DIVISOR, '確率の閾値は0〜100の範囲で入力してください。')
+  },
+  { key: 'expectedReturn', validate: s => rangeError(s.expectedReturn > -PERCENTAGE_DIVISOR, '想定リターンは-100より大きい値を入力してください。') },
+  { key: 'risk', validate: s => rangeError(s.risk >= ZERO, 'リスクは0以上の値を入力してください。') },
+  { key: 'contributionAmount', validate: s => rangeError(s.contributionAmount >= ZERO, '積立額は0以上の値を入力してください。') },
+  {
+    key: 'contributionFrequency',
+    validate: s => rangeError(Object.keys(contributionFrequencyLabels).includes(s.contributionFrequency), '積立頻度を選択してください。')
+  },
+  {
+    key: 'contributionGrowthRate',
+    validate: s => rangeError(s.contributionGrowthRate > -PERCENTAGE_DIVISOR, '積立額の年間増加率は-100より大きい値を入力してください。')
+  },
+  { key: 'inflationRate', validate: s => rangeError(s.inflationRate > -PERCENTAGE_DIVISOR, '物価上昇率は-100より大きい値を入力してください。') },
+  { key: 'riskFreeRate', validate: s => rangeError(s.riskFreeRate > -PERCENTAGE_DIVISOR, '無リスク金利は-100より大きい値を入力してください。') },
+  { key: 'expenseRatio', validate: s => rangeError(s.expenseRatio >= ZERO, '信託報酬は0以上の値を入力してください。') },
+  { key: 'nisaAllowance', validate: s => rangeError(s.nisaAllowance >= ZERO, 'NISAで保有する金額は0以上の値を入力してください。') },
+  {
+    key: 'portfolio',
+    validate: s => rangeError(isValidWeights(s.portfolio.weights), 'ポートフォリオの配分は0以上で、合計が100%になるように入力してください。') ??
+      rangeError(isValidCorrelationMatrix(s.portfolio.correlations), 'ポートフォリオの相関行列が正しくありません（半正定値である必要があります）。')
+  },
+  { key: 'borrowingRate', validate: s => validateLeverageSettings(s.borrowingRate, s.maintenanceMargin) },
+  { key: 'maintenanceMargin', validate: s => validateLeverageSettings(s.borrowingRate, s.maintenanceMargin) },
+  { key: 'currency', validate: s => validateCurrencySettings(s.currency) }
+]
+
+/**
+ * 設定を検証（設定ページの保存時と、保存されていた設定の読み込み時に共通で使用）
+ * @param settings - 設定
+ * @returns 最初に見つかった不正な項目のエラーメッセージ、問題がない場合は null
+ */
+export function validateSettings (settings: InvestmentSettings): string | null {
+  for (const rule of settingRules) {
+    const error = rule.validate(settings)
+    if (error !== null) {
+      return error
+    }
+  }
+  return null
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+)
+
+const isSettingKey = (key: string): key is keyof InvestmentSettings => key in settingLabels
+
+// 値がデフォルト値と同じ形（数値は有限、配列は同じ長さ、オブジェクトは同じ項目）かどうか
+function hasSameShape (value: unknown, template: unknown): boolean {
+  if (typeof template === 'number') {
+    return typeof value === 'number' && Number.isFinite(value)
+  }
+  if (Array.isArray(template)) {
+    return Array.isArray(value) && value.length === template.length &&
+      template.every((item: unknown, i) => hasSameShape(value[i], item))
+  }
+  if (isRecord(template)) {
+    return isRecord(value) && Object.entries(template).every(([key, item]) => hasSameShape(value[key], item))
+  }
+  return typeof value === typeof template
+}
+
+// 読み込んだ値をまとめた設定でルールを確認し、デフォルト値に戻す項目を選ぶ
+// 1つのルールが複数の項目の組み合わせ（借入金利と最低維持率など）を見るため、その項目だけを戻せば解消する項目を優先し、
+// そのような項目がない場合は不正なルールの項目をすべて戻す
+function findKeysToRepair (settings: InvestmentSettings, defaults: InvestmentSettings): Array<keyof InvestmentSettings> {
+  const invalidRules = settingRules.filter(rule => rule.validate(settings) !== null && settings[rule.key] !== defaults[rule.key])
+  const resolvingRules = invalidRules.filter(rule => rule.validate({ ...settings, [rule.key]: defaults[rule.key] }) === null)
+  return (resolvingRules.length > ZERO ? resolvingRules : invalidRules).map(rule => rule.key)
+}
+
+// 不正な項目をデフォルト値に戻し、戻した結果で他のルールが不正にならなくなるまで繰り返す
+function repairInvalidSettings (settings: InvestmentSettings, defaults: InvestmentSettings): Array<keyof InvestmentSettings> {
+  const repairedKeys: Array<keyof InvestmentSettings> = []
+  let keys = findKeysToRepair(settings, defaults)
+  while (keys.length > ZERO) {
+    keys.forEach(key => { Object.assign(settings, { [key]: defaults[key] }) })
+    repairedKeys.push(...keys)
+    keys = findKeysToRepair(settings, defaults)
+  }
+  return repairedKeys
+}
+
+// 保存形式のバージョンごとの変換（キーのバージョンから次のバージョンへ）
+const migrations: Partial<Record<number, (settings: Record<string, unknown>) => Record<string, unknown>>> = {
+  // バージョン0: バージョン導入前の形式（設定のオブジェクトをそのまま保存）
+  // 後から追加された項目は欠けているだけなので、ここでは変換せず検証時にデフォルト値で補う
+  [LEGACY_SCHEMA_VERSION]: settings => settings
+}
+
+/**
+ * 保存されていたデータを現在のバージョンの形式に変換
+ * 現在より新しいバージョンのデータは変換せずにそのまま返す（扱える項目だけを検証して読み込む）
+ * @param data - localStorageから読み込んだデータ（JSON.parse の結果）
+ * @returns 現在のバージョンの設定（変換できない場合は null）
+ */
+export function migrateStoredSettings (data: unknown): Record<string, unknown> | null {
+  if (!isRecord(data)) {
+    return null
+  }
+  // バージョンのない形式は、設定のオブジェクトをそのまま保存していたバージョン0とみなす
+  const { version, settings } = data
+  const isVersioned = typeof version === 'number' && isRecord(settings)
+  let current = isVersioned ? settings : data
+  for (let v = isVersioned ? version : LEGACY_SCHEMA_VERSION; v < SETTINGS_SCHEMA_VERSION; v += ONE) {
+    const { [v]: migrate } = migrations
+    if (migrate === undefined) {
+      return null
+    }
+    current = migrate(current)
+  }
+  return current
+}
+
+/**
+ * 保存されていたデータを検証し、不正な項目・欠けている項目を項目ごとにデフォルト値で補う
+ * 各項目の形を確認した後、読み込んだ値をまとめた設定に設定ページと同じ検証ルールを適用する
+ * @param data - localStorageから読み込んだデータ（JSON.parse の結果）
+ * @param defaults - デフォルトの設定
+ * @returns 設定と、不正な値だったためデフォルト値に戻した項目（欠けていた項目は含まない）、新しいバージョンのデータだったか
+ */
+export function restoreSettings (data: unknown, defaults: InvestmentSettings): LoadedSettings {
+  const isNewerVersion = isRecord(data) && typeof data.version === 'number' && data.version > SETTINGS_SCHEMA_VERSION
+  const migrated = migrateStoredSettings(data)
+  if (migrated === null) {
+    return { settings: defaults, repairedKeys: Object.keys(defaults).filter(isSettingKey), isNewerVersion }
+  }
+
+  const settings: InvestmentSettings = { ...defaults }
+  const repairedKeys: Array<keyof InvestmentSettings> = []
+  for (const key of Object.keys(defaults).filter(isSettingKey)) {
+    const { [key]: value } = migrated
+    if (value === undefined) {
+      continue
+    }
+    if (hasSameShape(value, defaults[key])) {
+      Object.assign(settings, { [key]: value })
+    } else {
+      repairedKeys.push(key)
+    }
+  }
+  // 形が正しくない項目はデフォルト値のままのため、組み合わせの検証で戻す項目とは重ならない
+  return { settings, repairedKeys: [...repairedKeys, ...repairInvalidSettings(settings, defaults)], isNewerVersion }
+}
+
+/**
+ * 設定を現在のバージョンの形式で保存用の文字列に変換
+ * @param settings - 設定
+ * @returns localStorageに保存するJSON文字列
+ */
+export function serializeSettings (settings: InvestmentSettings): string {
+  const stored: StoredSettings = { version: SETTINGS_SCHEMA_VERSION, settings: { ...settings } }
+  return JSON.stringify(stored)
+}
+
+/**
+ * 設定ファイル（エクスポート・インポート）の形式の識別子
+ */
+export const SETTINGS_FILE_FORMAT = 'investment-settings'
+
+/**
+ * 設定ファイルに含めるプロファイル
+ */
+export interface SettingsFileProfile {
+  name: string
+  settings: InvestmentSettings
+}
+
+/**
+ * 設定ファイルから読み込んだプロファイル
+ */
+export interface ImportedProfile extends SettingsFileProfile, LoadedSettings {}
+
+/**
+ * 設定ファイルの内容を作成
+ * @param profiles - 含めるプロファイル（先頭が選択中のプロファイル）
+ * @param exportedAt - エクスポートした日時
+ * @returns JSON文字列
+ */
+export function createSettingsFile (profiles: SettingsFileProfile[], exportedAt: Date): string {
+  return JSON.stringify({
+    format: SETTINGS_FILE_FORMAT,
+    version: SETTINGS_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    profiles
+  }, null, JSON_INDENT)
+}
+
+// JSONとして読み込めない場合は null
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return null
+  }
+}
+
+// 設定ファイルのプロファイルを検証し、不正な項目はデフォルト値で補う
+const toImportedProfile = (profile: unknown, version: number, defaults: InvestmentSettings): ImportedProfile | null => {
+  if (!isRecord(profile) || typeof profile.name !== 'string' || !isRecord(profile.settings)) {
+    return null
+  }
+  return { name: profile.name, ...restoreSettings({ version, settings: profile.settings }, defaults) }
+}
+
+/**
+ * 設定ファイルを読み込み、検証する
+ * 設定ファイルの形式のほか、設定のオブジェクトだけのJSON（localStorageの保存形式を含む）も読み込める
+ * @param text - ファイルの内容
+ * @param defaults - デフォルトの設定
+ * @returns 読み込んだプロファイル（設定ファイルとして読み込めない場合は null）
+ */
+export function parseSettingsFile (text: string, defaults: InvestmentSettings): ImportedProfile[] | null {
+  const data = parseJson(text)
+  if (!isRecord(data)) {
+    return null
+  }
+
+  if (data.format !== SETTINGS_FILE_FORMAT) {
+    // 設定の項目が1つもない場合は、設定のファイルではないとみなす
+    const { length: knownKeyCount } = Object.keys(isRecord(data.settings) ? data.settings : data).filter(isSettingKey)
+    return knownKeyCount > ZERO ? [{ name: '', ...restoreSettings(data, defaults) }] : null
+  }
+
+  const { version, profiles } = data
+  if (typeof version !== 'number' || !Array.isArray(profiles)) {
+    return null
+  }
+  const imported = profiles.map(profile => toImportedProfile(profile, version, defaults))
+  if (imported.length === ZERO || imported.some(profile => profile === null)) {
+    return null
+  }
+  return imported.filter((profile): profile is ImportedProfile => profile !== null)
+}
+
+/**
+ * 2つの設定で値が異なる項目を取得
+ * @param current - 現在の設定
+ * @param next - 比較する設定
+ * @returns 値が異なる項目
+ */
+export function findChangedSettingKeys (current: InvestmentSettings, next: InvestmentSettings): Array<keyof InvestmentSettings> {
+  return Object.keys(current).filter(isSettingKey).filter(key => (
+    JSON.stringify(current[key]) !== JSON.stringify(next[key])
+  ))
+}
@@ -0,0 +1,194 @@
+// シミュレーションの状態（設定と資産分布ページのスライダー・分布モデルなどの値）を共有リンクのクエリパラメータに変換するユーティリティ
+
+import type { InvestmentSettings } from '@/contexts/SettingsContext'
+import {
+  defaultDistributionModelSettings,
+  distributionModelLabels,
+  type DistributionModelSettings
+} from './distributionModels'
+import { valueBasisLabels, type ValueBasis } from './inflation'
+import { MAX_INVESTMENT_RATIO } from './leverage'
+import { MAX_RISK_AVERSION, MIN_RISK_AVERSION } from './riskAversion'
+import { MAX_AUTOCORRELATION, MIN_AUTOCORRELATION } from './serialCorrelation'
+import { restoreSettings, serializeSettings } from './settingsSchema'
+
+// 定数定義
+const ZERO = 0
+const MIN_YEARS = 1
+const MAX_YEARS = 50
+const MIN_PROBABILITY_THRESHOLD = 0.1
+const MAX_PROBABILITY_THRESHOLD = 99.9
+const MIN_DEGREES_OF_FREEDOM = 3 // 分布モデルの入力欄と同じ範囲
+const MAX_DEGREES_OF_FREEDOM = 30
+const MIN_SKEWNESS = -10
+const MAX_SKEWNESS = 10
+
+// クエリパラメータの名前
+const SETTINGS_PARAM = 'settings'
+const YEARS_PARAM = 'years'
+const PROBABILITY_THRESHOLD_PARAM = 'threshold'
+const INVESTMENT_RATIO_PARAM = 'ratio'
+const DISTRIBUTION_MODEL_PARAM = 'model'
+const DEGREES_OF_FREEDOM_PARAM = 'df'
+const SKEWNESS_PARAM = 'skew'
+const AUTOCORRELATION_PARAM = 'autocorrelation'
+const VALUE_BASIS_PARAM = 'basis'
+const RISK_AVERSION_PARAM = 'gamma'
+
+/**
+ * 共有リンクで開くページのパス（basePath を除く）
+ */
+export const SHARE_PATH = '/distribution/'
+
+/**
+ * 共有リンクに含める資産分布ページの表示の状態（スライダー・分布モデルなど）
+ */
+export interface SharedView {
+  years: number // 投資期間
+  probabilityThreshold: number | null // 一時的な確率閾値（変更していない場合は null）
+  investmentRatio: number | null // 一時的な投資比率（変更していない場合は null）
+  distributionModel: DistributionModelSettings // 分布モデル
+  autocorrelation: number // 年ごとのリターンの自己相関
+  valueBasis: ValueBasis // 金額の表示（名目値・実質値）
+  riskAversion: number // 相対的危険回避度
+}
+
+/**
+ * 共有リンクから読み込んだシナリオ（表示の状態は、指定がない場合・不正な場合は null）
+ */
+export interface SharedScenario {
+  settings: InvestmentSettings
+  repairedKeys: Array<keyof InvestmentSettings> // 不正な値だったためデフォルト値に戻した項目
+  isNewerVersion: boolean // 新しいバージョンで作成されたリンク（このバージョンで扱えない項目は読み込まれない）
+  years: number | null
+  probabilityThreshold: number | null
+  investmentRatio: number | null
+  distributionModel: DistributionModelSettings | null
+  autocorrelation: number | null
+  valueBasis: ValueBasis | null
+  riskAversion: number | null
+}
+
+// クエリパラメータの読み取り（URLSearchParams と useSearchParams の戻り値の共通部分）
+interface SearchParamsReader {
+  get: (name: string) => string | null
+}
+
+// URLに含められる形式（base64url）に変換
+const encodeBase64Url = (text: string): string => {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('')
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+// base64url のJSONを元のデータに戻す（不正な場合は null）
+const decodeBase64UrlJson = (encoded: string): unknown => {
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'))
+    return JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(ZERO))))
+  } catch {
+    return null
+  }
+}
+
+// 数値のパラメータを読み取る（指定がない場合・範囲外の場合・整数が必要で整数でない場合は null）
+const parseNumberParam = (value: string | null, min: number, max: number, isInteger = false): number | null => {
+  if (value === null || value === '') {
+    return null
+  }
+  const parsed = Number(value)
+  if (isInteger && !Number.isInteger(parsed)) {
+    return null
+  }
+  return Number.isFinite(parsed) && parsed >= min && parsed <= max ? parsed : null
+}
+
+// 値が選択肢（ラベルのキー）のいずれかかどうか
+const isOption = <T extends string>(value: string, labels: Record<T, string>): value is T => Object.hasOwn(labels, value)
+
+// 選択肢のパラメータを読み取る（指定がない場合・選択肢にない場合は null）
+const parseOptionParam = <T extends string>(value: string | null, labels: Record<T, string>): T | null => (
+  value !== null && isOption(value, labels) ? value : null
+)
+
+// 分布モデルのパラメータを読み取る（種類の指定がない場合は null、形状パラメータが不正な場合はデフォルト値）
+const parseDistributionModelParams = (params: SearchParamsReader): DistributionModelSettings | null => {
+  const type = parseOptionParam(params.get(DISTRIBUTION_MODEL_PARAM), distributionModelLabels)
+  if (type === null) {
+    return null
+  }
+  const { degreesOfFreedom, skewness } = defaultDistributionModelSettings
+  return {
+    type,
+    degreesOfFreedom: parseNumberParam(params.get(DEGREES_OF_FREEDOM_PARAM), MIN_DEGREES_OF_FREEDOM, MAX_DEGREES_OF_FREEDOM) ?? degreesOfFreedom,
+    skewness: parseNumberParam(params.get(SKEWNESS_PARAM), MIN_SKEWNESS, MAX_SKEWNESS) ?? skewness
+  }
+}
+
+/**
+ * 共有リンクのクエリ文字列を作成
+ * @param settings - 共有する設定
+ * @param view - 資産分布ページの表示の状態
+ * @returns クエリ文字列（先頭の ? を含まない）
+ */
+export function createShareQuery (settings: InvestmentSettings, view: SharedView): string {
+  const { years, probabilityThreshold, investmentRatio, distributionModel, autocorrelation, valueBasis, riskAversion } = view
+  const params = new URLSearchParams({
+    [SETTINGS_PARAM]: encodeBase64Url(serializeSettings(settings)),
+    [YEARS_PARAM]: String(years),
+    [DISTRIBUTION_MODEL_PARAM]: distributionModel.type,
+    [DEGREES_OF_FREEDOM_PARAM]: String(distributionModel.degreesOfFreedom),
+    [SKEWNESS_PARAM]: String(distributionModel.skewness),
+    [AUTOCORRELATION_PARAM]: String(autocorrelation),
+    [VALUE_BASIS_PARAM]: valueBasis,
+    [RISK_AVERSION_PARAM]: String(riskAversion)
+  })
+  if (probabilityThreshold !== null) {
+    params.set(PROBABILITY_THRESHOLD_PARAM, String(probabilityThreshold))
+  }
+  if (investmentRatio !== null) {
+    params.set(INVESTMENT_RATIO_PARAM, String(investmentRatio))
+  }
+  return params.toString()
+}
+
+/**
+ * 共有リンクのURLを作成
+ * 静的エクスポートのサブディレクトリ（basePath）に公開している場合も開けるように、表示中のページのパス（basePath を含む）を使う
+ * @param origin - オリジン（例: https://example.com）
+ * @param pathname - 表示中の資産分布ページのパス（window.location.pathname）
+ * @param query - createShareQuery で作成したクエリ文字列
+ * @returns 共有リンクのURL
+ */
+export function createShareUrl (origin: string, pathname: string, query: string): string {
+  return `${origin}${pathname}?${query}`
+}
+
+/**
+ * 共有リンクのクエリパラメータからシナリオを読み込む
+ * 設定は保存されていた設定と同じく、マイグレーションと項目ごとの検証を行う
+ * 表示の状態は項目ごとに範囲を確認し、指定がない項目・不正な項目は null とする
+ * @param params - クエリパラメータ
+ * @param defaults - デフォルトの設定
+ * @returns 共有されたシナリオ（共有リンクでない場合・読み込めない場合は null）
+ */
+export function parseShareQuery (params: SearchParamsReader, defaults: InvestmentSettings): SharedScenario | null {
+  const encoded = params.get(SETTINGS_PARAM)
+  if (encoded === null) {
+    return null
+  }
+  const data = decodeBase64UrlJson(encoded)
+  if (data === null) {
+    return null
+  }
+
+  return {
+    ...restoreSettings(data, defaults),
+    years: parseNumberParam(params.get(YEARS_PARAM), MIN_YEARS, MAX_YEARS, true),
+    probabilityThreshold: parseNumberParam(params.get(PROBABILITY_THRESHOLD_PARAM), MIN_PROBABILITY_THRESHOLD, MAX_PROBABILITY_THRESHOLD),
+    investmentRatio: parseNumberParam(params.get(INVESTMENT_RATIO_PARAM), ZERO, MAX_INVESTMENT_RATIO),
+    distributionModel: parseDistributionModelParams(params),
+    autocorrelation: parseNumberParam(params.get(AUTOCORRELATION_PARAM), MIN_AUTOCORRELATION, MAX_AUTOCORRELATION),
+    valueBasis: parseOptionParam(params.get(VALUE_BASIS_PARAM), valueBasisLabels),
+    riskAversion: parseNumberParam(params.get(RISK_AVERSION_PARAM), MIN_RISK_AVERSION, MAX_RISK_AVERSION)
+  }
+}
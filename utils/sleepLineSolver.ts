@@ -0,0 +1,236 @@
+// 安眠ラインの逆算（許容損失から投資比率・投資期間・確率閾値を求める）ユーティリティ
+
+import { calculateInvestmentDistribution, type ContributionParams } from './normalDistribution'
+import { calculateCumulativeContributions, hasContributions } from './contributions'
+import { calculateRiskFreeValue } from './riskFreeAsset'
+import { MAX_INVESTMENT_RATIO, getCashRate } from './leverage'
+import {
+  createDistributionModel,
+  defaultDistributionModelSettings,
+  type DistributionModelSettings
+} from './distributionModels'
+
+// 定数定義
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const HALF = 0.5
+const BISECTION_ITERATIONS = 60
+const MIN_INVESTMENT_RATIO = 0
+const MIN_PROBABILITY_THRESHOLD = 0.1
+const MAX_PROBABILITY_THRESHOLD = 99.9
+const MIN_YEARS = 1
+const DEFAULT_MAX_YEARS = 50
+const YEAR_INCREMENT = 1
+
+/**
+ * 安眠ライン計算のパラメータ
+ */
+export interface SleepLineParams extends ContributionParams {
+  totalAssets: number // 資産総額
+  investmentRatio: number // 投資比率 (0-MAX_INVESTMENT_RATIO)、100を超える部分は借入
+  expectedReturn: number // 期待リターン (%/年)
+  risk: number // リスク (標準偏差 %/年)
+  years: number // 投資期間 (年)
+  probabilityThreshold: number // 確率閾値 (0-100)
+  distributionModel?: DistributionModelSettings // 分布モデル（既定は対数正規分布）
+  riskFreeRate?: number // 非投資部分の利回り (%/年、既定は0)
+  borrowingRate?: number // 投資比率が100%を超える場合の借入金利 (%/年、既定は riskFreeRate と同じ)
+  autocorrelation?: number // 年ごとの対数リターンの自己相関係数 (AR(1)、既定は0)
+}
+
+/**
+ * 逆算の対象となる項目
+ */
+export type SleepLineTarget = 'investmentRatio' | 'years' | 'probabilityThreshold'
+
+/**
+ * 確率閾値に基づく最悪ケースでの資産全体（投資部分 + 非投資部分）を計算
+ * @param params - 安眠ライン計算のパラメータ
+ * @returns 最悪ケースでの資産全体の金額
+ */
+export function calculateWorstCaseTotalAssets (params: SleepLineParams): number {
+  const {
+    totalAssets,
+    investmentRatio,
+    expectedReturn,
+    risk,
+    years,
+    probabilityThreshold,
+    distributionModel = defaultDistributionModelSettings,
+    riskFreeRate = ZERO,
+    borrowingRate = riskFreeRate,
+    ...contributionParams
+  } = params
+
+  const investmentAmount = totalAssets * investmentRatio / PERCENTAGE_DIVISOR
+  // 非投資部分がマイナス（借入）の場合は借入金利で増える
+  const nonInvestmentPrincipal = totalAssets - investmentAmount
+  const nonInvestmentAssets = calculateRiskFreeValue(nonInvestmentPrincipal, getCashRate(nonInvestmentPrincipal, riskFreeRate, borrowingRate), years)
+  if (investmentAmount <= ZERO && !hasContributions(contributionParams)) {
+    return nonInvestmentAssets
+  }
+
+  const { logMean, logStdDev } = calculateInvestmentDistribution({
+    initialAssets: investmentAmount,
+    expectedReturn,
+    risk,
+    years,
+    ...contributionParams
+  })
+  // 下位(100-閾値)%に相当する値を求める
+  const model = createDistributionModel(distributionModel, logMean, logStdDev)
+  const worstCaseAssets = model.inverseCDF(ONE - probabilityThreshold / PERCENTAGE_DIVISOR)
+
+  return worstCaseAssets + nonInvestmentAssets
+}
+
+/**
+ * 資産全体（投資部分 + 非投資部分）の期待値を計算
+ * @param params - 安眠ライン計算のパラメータ
+ * @returns 資産全体の期待値（円）
+ */
+export function calculateExpectedTotalAssets (params: SleepLineParams): number {
+  const { totalAssets, investmentRatio, years, riskFreeRate = ZERO, borrowingRate = riskFreeRate } = params
+  const investmentAmount = totalAssets * investmentRatio / PERCENTAGE_DIVISOR
+  // 期待値は分布モデルによらず対数正規分布の平均を用いる
+  const { mean } = calculateInvestmentDistribution({ ...params, initialAssets: investmentAmount })
+  const nonInvestmentPrincipal = totalAssets - investmentAmount
+  return mean + calculateRiskFreeValue(nonInvestmentPrincipal, getCashRate(nonInvestmentPrincipal, riskFreeRate, borrowingRate), years)
+}
+
+/**
+ * 確率閾値に基づく最悪ケースでの資産全体の損失額を計算（増加する場合は0以下）
+ * 定期積立がある場合は、資産総額に積立累計額を加えた金額を基準とする
+ * @param params - 安眠ライン計算のパラメータ
+ * @returns 最悪ケースでの損失額（円）
+ */
+export function calculateWorstCaseLoss (params: SleepLineParams): number {
+  const principal = params.totalAssets + calculateCumulativeContributions(params)
+  return principal - calculateWorstCaseTotalAssets(params)
+}
+
+/**
+ * 条件を満たす最大値を二分法で探索
+ * 区間の下側で条件を満たし、ある点を境に満たさなくなる（単調である）ことを前提とする
+ * @param lower - 探索区間の下限
+ * @param upper - 探索区間の上限
+ * @param isWithinTolerance - 値が条件を満たすかどうかを判定する関数
+ * @returns 条件を満たす最大値（下限でも満たさない場合は null）
+ */
+export function findMaxWithinTolerance (
+  lower: number,
+  upper: number,
+  isWithinTolerance: (value: number) => boolean
+): number | null {
+  if (!isWithinTolerance(lower)) {
+    return null
+  }
+  if (isWithinTolerance(upper)) {
+    return upper
+  }
+
+  let low = lower
+  let high = upper
+  for (let i = ZERO; i < BISECTION_ITERATIONS; i += ONE) {
+    const middle = (low + high) * HALF
+    if (isWithinTolerance(middle)) {
+      low = middle
+    } else {
+      high = middle
+    }
+  }
+  return low
+}
+
+/**
+ * 許容損失に収まる最大の投資比率を求める
+ * @param params - 安眠ライン計算のパラメータ（investmentRatio は無視される）
+ * @param maxLoss - 許容できる資産全体の損失額（円）
+ * @returns 最大の投資比率（0から借入を含む上限まで）、0%でも収まらない場合は null
+ */
+export function solveMaxInvestmentRatio (params: SleepLineParams, maxLoss: number): number | null {
+  return findMaxWithinTolerance(
+    MIN_INVESTMENT_RATIO,
+    MAX_INVESTMENT_RATIO,
+    (investmentRatio) => calculateWorstCaseLoss({ ...params, investmentRatio }) <= maxLoss
+  )
+}
+
+/**
+ * 許容損失に収まる最大の確率閾値を求める
+ * この値以下の確率閾値であれば、最悪ケースでも許容損失に収まる
+ * @param params - 安眠ライン計算のパラメータ（probabilityThreshold は無視される）
+ * @param maxLoss - 許容できる資産全体の損失額（円）
+ * @returns 確率閾値 (0-100)、最小の閾値でも収まらない場合は null
+ */
+export function solveMaxProbabilityThreshold (params: SleepLineParams, maxLoss: number): number | null {
+  return findMaxWithinTolerance(
+    MIN_PROBABILITY_THRESHOLD,
+    MAX_PROBABILITY_THRESHOLD,
+    (probabilityThreshold) => calculateWorstCaseLoss({ ...params, probabilityThreshold }) <= maxLoss
+  )
+}
+
+/**
+ * 連続した年の範囲
+ */
+export interface YearRange {
+  from: number // 開始年
+  to: number // 終了年
+}
+
+/**
+ * 許容損失に収まる投資期間をすべての年について調べ、連続した範囲にまとめる
+ * 最悪ケースの損失は期間に対して単調ではない（一度超えても、期間が長くなると再び収まることがある）ため、途中で打ち切らない
+ * @param params - 安眠ライン計算のパラメータ（years は無視される）
+ * @param maxLoss - 許容できる資産全体の損失額（円）
+ * @param maxYears - 探索する最長の年数
+ * @returns 許容損失に収まる年の範囲（昇順）
+ */
+export function findYearRangesWithinTolerance (params: SleepLineParams, maxLoss: number, maxYears = DEFAULT_MAX_YEARS): YearRange[] {
+  const ranges: YearRange[] = []
+  for (let years = MIN_YEARS; years <= maxYears; years += YEAR_INCREMENT) {
+    if (calculateWorstCaseLoss({ ...params, years }) > maxLoss) {
+      continue
+    }
+    const lastIndex = ranges.length - ONE
+    if (lastIndex >= ZERO && ranges[lastIndex].to === years - YEAR_INCREMENT) {
+      ranges[lastIndex].to = years
+    } else {
+      ranges.push({ from: years, to: years })
+    }
+  }
+  return ranges
+}
+
+/**
+ * 1年目から途切れずに許容損失に収まり続ける最長の投資期間を求める
+ * 途中で一度でも許容損失を超える年があれば、その前年までとする（それ以降に再び収まる年は findYearRangesWithinTolerance で確認する）
+ * @param params - 安眠ライン計算のパラメータ（years は無視される）
+ * @param maxLoss - 許容できる資産全体の損失額（円）
+ * @param maxYears - 探索する最長の年数
+ * @returns 1年目からすべての年で収まる最長の投資期間（年）、1年目から収まらない場合は null
+ */
+export function solveMaxYears (params: SleepLineParams, maxLoss: number, maxYears = DEFAULT_MAX_YEARS): number | null {
+  const ranges = findYearRangesWithinTolerance(params, maxLoss, maxYears)
+  return ranges.length > ZERO && ranges[ZERO].from === MIN_YEARS ? ranges[ZERO].to : null
+}
+
+/**
+ * 指定した項目について、許容損失に収まる限界値を逆算
+ * @param target - 逆算の対象となる項目
+ * @param params - 安眠ライン計算のパラメータ（対象項目の値は無視される）
+ * @param maxLoss - 許容できる資産全体の損失額（円）
+ * @returns 限界値、条件を満たす値が存在しない場合は null
+ */
+export function solveSleepLine (target: SleepLineTarget, params: SleepLineParams, maxLoss: number): number | null {
+  switch (target) {
+    case 'investmentRatio':
+      return solveMaxInvestmentRatio(params, maxLoss)
+    case 'years':
+      return solveMaxYears(params, maxLoss)
+    case 'probabilityThreshold':
+      return solveMaxProbabilityThreshold(params, maxLoss)
+  }
+}
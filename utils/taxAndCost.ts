@@ -0,0 +1,149 @@
+// 信託報酬・譲渡益課税・NISA非課税枠に関連する計算ユーティリティ
+
+import { normalCDF, type DistributionModel } from './normalDistribution'
+
+// 定数定義
+const PERCENTAGE_DIVISOR = 100
+const ZERO = 0
+const ONE = 1
+const HALF = 0.5
+
+/**
+ * 譲渡益に対する税率 (%)（所得税15% + 復興特別所得税0.315% + 住民税5%）
+ */
+export const CAPITAL_GAINS_TAX_RATE = 20.315
+
+/**
+ * 信託報酬を差し引いた期待リターンを計算
+ * 信託報酬は資産残高に対して毎年かかるため、期待リターン（ドリフト）をその分だけ引き下げる
+ * @param expectedReturn - 期待リターン (%/年)
+ * @param expenseRatio - 信託報酬 (%/年)
+ * @returns 信託報酬控除後の期待リターン (%/年)
+ */
+export function calculateNetExpectedReturn (expectedReturn: number, expenseRatio: number): number {
+  return expectedReturn - expenseRatio
+}
+
+/**
+ * 投資元本のうち課税口座で保有する割合を計算
+ * NISA非課税枠を超える部分だけが課税対象になる
+ * @param principal - 投資元本 (円)
+ * @param nisaAllowance - NISAの非課税枠 (円)
+ * @returns 課税対象の割合 (0-1)
+ */
+export function calculateTaxableShare (principal: number, nisaAllowance: number): number {
+  if (principal <= ZERO) {
+    return ZERO
+  }
+  return Math.max(ONE - nisaAllowance / principal, ZERO)
+}
+
+/**
+ * 課税対象の利益に実際にかかる税率を計算
+ * @param taxableShare - 課税対象の割合 (0-1)
+ * @returns 資産全体の利益に対する実効税率 (0-1)
+ */
+export function calculateEffectiveTaxRate (taxableShare: number): number {
+  return taxableShare * CAPITAL_GAINS_TAX_RATE / PERCENTAGE_DIVISOR
+}
+
+/**
+ * 投資期間の終わりにすべて売却した場合の税引後の資産額を計算
+ * 損失が出た場合は課税されない
+ * @param value - 税引前の資産額 (円)
+ * @param costBasis - 取得費（投資元本）(円)
+ * @param effectiveTaxRate - 実効税率 (0-1)
+ * @returns 税引後の資産額 (円)
+ */
+export function calculateAfterTaxValue (value: number, costBasis: number, effectiveTaxRate: number): number {
+  return value - effectiveTaxRate * Math.max(value - costBasis, ZERO)
+}
+
+/**
+ * 税引後の資産額から、対応する税引前の資産額を逆算
+ * @param afterTaxValue - 税引後の資産額 (円)
+ * @param costBasis - 取得費（投資元本）(円)
+ * @param effectiveTaxRate - 実効税率 (0-1)
+ * @returns 税引前の資産額 (円)
+ */
+export function calculatePreTaxValue (afterTaxValue: number, costBasis: number, effectiveTaxRate: number): number {
+  if (afterTaxValue <= costBasis) {
+    return afterTaxValue
+  }
+  return costBasis + (afterTaxValue - costBasis) / (ONE - effectiveTaxRate)
+}
+
+/**
+ * 対数正規分布に従う資産額の税引後の平均を計算
+ * E[max(V - K, 0)] = exp(m + s²/2)Φ(d1) - KΦ(d2) を用いる
+ * @param logMean - 対数平均
+ * @param logStdDev - 対数標準偏差
+ * @param costBasis - 取得費（投資元本）(円)
+ * @param effectiveTaxRate - 実効税率 (0-1)
+ * @returns 税引後の資産額の平均 (円)
+ */
+export function calculateAfterTaxMean (logMean: number, logStdDev: number, costBasis: number, effectiveTaxRate: number): number {
+  const mean = Math.exp(logMean + HALF * logStdDev * logStdDev)
+  if (costBasis <= ZERO) {
+    return mean * (ONE - effectiveTaxRate) + effectiveTaxRate * costBasis
+  }
+  if (logStdDev <= ZERO) {
+    return calculateAfterTaxValue(mean, costBasis, effectiveTaxRate)
+  }
+
+  const d1 = (logMean + logStdDev * logStdDev - Math.log(costBasis)) / logStdDev
+  const d2 = d1 - logStdDev
+  const expectedGain = mean * normalCDF(d1) - costBasis * normalCDF(d2)
+  return mean - effectiveTaxRate * expectedGain
+}
+
+/**
+ * 税引前の資産額の分布モデルから、税引後の資産額の確率密度を計算
+ * 取得費を上回る部分は (1 - 実効税率) 倍に縮むため、その分だけ密度が高くなる
+ * @param model - 税引前の資産額の分布モデル
+ * @param value - 税引後の資産額 (円)
+ * @param costBasis - 取得費（投資元本）(円)
+ * @param effectiveTaxRate - 実効税率 (0-1)
+ * @returns 確率密度
+ */
+export function calculateAfterTaxPDF (model: DistributionModel, value: number, costBasis: number, effectiveTaxRate: number): number {
+  if (value <= costBasis) {
+    return model.pdf(value)
+  }
+  return model.pdf(calculatePreTaxValue(value, costBasis, effectiveTaxRate)) / (ONE - effectiveTaxRate)
+}
+
+/**
+ * 税引後の資産額がある金額以下になる確率を計算
+ * 税引後の資産額は税引前の資産額に対して単調増加なので、税引前の金額に戻して累積分布関数を評価する
+ * @param model - 税引前の資産額の分布モデル
+ * @param value - 税引後の資産額 (円)
+ * @param costBasis - 取得費（投資元本）(円)
+ * @param effectiveTaxRate - 実効税率 (0-1)
+ * @returns P(税引後の資産額 <= value)
+ */
+export function calculateAfterTaxCDF (model: DistributionModel, value: number, costBasis: number, effectiveTaxRate: number): number {
+  return model.cdf(calculatePreTaxValue(value, costBasis, effectiveTaxRate))
+}
+
+/**
+ * 税引後の資産額の期待ショートフォール（税引前の資産額が下位 tailProbability に入った場合の税引後の平均）を計算
+ * 税引後の資産額は税引前の資産額に対して単調増加なので、下位の範囲は税引前と税引後で一致する
+ * 取得費を上回る部分の利益だけに課税されるため、部分期待値の差から利益の期待値を求める
+ * @param model - 税引前の資産額の分布モデル
+ * @param tailProbability - 下側の確率 (0 < p < 1)
+ * @param costBasis - 取得費（投資元本）(円)
+ * @param effectiveTaxRate - 実効税率 (0-1)
+ * @returns 税引後の資産額の期待ショートフォール (円)
+ */
+export function calculateAfterTaxExpectedShortfall (model: DistributionModel, tailProbability: number, costBasis: number, effectiveTaxRate: number): number {
+  const threshold = model.inverseCDF(tailProbability)
+  const partialExpectation = model.partialExpectation(threshold)
+  if (threshold <= costBasis) {
+    return partialExpectation / tailProbability
+  }
+  // E[X - K; K < X <= q] = (E[X; X <= q] - E[X; X <= K]) - K × P(K < X <= q)
+  const gainProbability = tailProbability - model.cdf(costBasis)
+  const expectedGain = partialExpectation - model.partialExpectation(costBasis) - costBasis * gainProbability
+  return (partialExpectation - effectiveTaxRate * expectedGain) / tailProbability
+}
@@ -0,0 +1,107 @@
+// 確率閾値による最悪ケースと期待ショートフォールの計算ユーティリティ
+// 分布ページの最悪ケースの表と、年ごとの推移（ファンチャート）で同じ計算を用いる
+
+import {
+  calculateExpectedShortfall,
+  calculateInvestmentDistribution,
+  type InvestmentDistributionParams
+} from './normalDistribution'
+import { createDistributionModel, type DistributionModelSettings } from './distributionModels'
+import { calculateTotalContributions } from './contributions'
+import { calculateDeflator, calculateRealTotalContributions, deflateDistribution } from './inflation'
+import {
+  calculateAfterTaxExpectedShortfall,
+  calculateAfterTaxValue,
+  calculateEffectiveTaxRate,
+  calculateTaxableShare
+} from './taxAndCost'
+import { calculateAfterTaxRiskFreeValue, calculateRiskFreeValue } from './riskFreeAsset'
+
+// 定数定義
+const PERCENTAGE_DIVISOR = 100
+const ONE = 1
+
+/**
+ * 最悪ケースの計算に用いるパラメータ
+ */
+export interface WorstCaseParams extends InvestmentDistributionParams {
+  nonInvestmentPrincipal: number // 投資していない部分の金額
+  riskFreeRate: number // 非投資部分の利回り (%/年)
+  inflationRate: number // 実質値で計算する場合の物価上昇率 (%/年)、名目値の場合は0
+  nisaAllowance: number // NISAで保有する金額 (円)
+  distributionModel: DistributionModelSettings // 分布モデルの設定
+  probabilityThreshold: number // 確率閾値 (%)
+}
+
+/**
+ * 最悪ケースの表の1行
+ */
+export interface WorstCaseRow {
+  label: string // 観点（投資部分・資産全体など）
+  value: number // 確率閾値での最悪ケースの金額 (円)
+  expectedShortfall: number // 期待ショートフォール（最悪ケースを下回った場合の平均）(円)
+  principal: number // 増減の基準となる元本 (円)
+}
+
+/**
+ * 最悪ケースの計算結果
+ */
+export interface WorstCaseResult {
+  worstCaseAssets: number // 投資部分の最悪ケース
+  expectedShortfall: number // 投資部分の期待ショートフォール
+  afterTaxWorstCaseAssets: number // 投資部分の最悪ケース（税引後）
+  afterTaxExpectedShortfall: number // 投資部分の期待ショートフォール（税引後）
+  nonInvestmentAssets: number // 非投資部分の金額
+  afterTaxNonInvestmentAssets: number // 非投資部分の金額（利息に課税）
+  totalContributions: number // 投資元本（初期投資額 + 積立累計額）
+  totalPrincipal: number // 資産全体の元本
+}
+
+/**
+ * 確率閾値による最悪ケース（下位(100-閾値)%点）と期待ショートフォールを計算
+ * 実質値の場合、各回の積立額は積み立てた時点の物価で、投資期間後の金額は投資期間後の物価水準で割り引く
+ * @param params - 最悪ケースの計算に用いるパラメータ
+ * @returns 投資部分・非投資部分の最悪ケースと元本
+ */
+export function calculateWorstCase (params: WorstCaseParams): WorstCaseResult {
+  const { years, nonInvestmentPrincipal, riskFreeRate, inflationRate, nisaAllowance, probabilityThreshold } = params
+
+  const deflator = calculateDeflator(inflationRate, years)
+  const { logMean, logStdDev } = deflateDistribution(calculateInvestmentDistribution(params), deflator)
+  const model = createDistributionModel(params.distributionModel, logMean, logStdDev)
+
+  // 譲渡益課税の取得費は名目の投資元本（投資期間後の物価水準で割り引く）で、NISAで保有する部分は非課税
+  const nominalTotalContributions = calculateTotalContributions(params)
+  const costBasis = nominalTotalContributions / deflator
+  const effectiveTaxRate = calculateEffectiveTaxRate(calculateTaxableShare(nominalTotalContributions, nisaAllowance))
+  const totalContributions = calculateRealTotalContributions(params, inflationRate)
+
+  const tailProbability = ONE - probabilityThreshold / PERCENTAGE_DIVISOR
+  const worstCaseAssets = model.inverseCDF(tailProbability)
+
+  return {
+    worstCaseAssets,
+    expectedShortfall: calculateExpectedShortfall(model, tailProbability),
+    afterTaxWorstCaseAssets: calculateAfterTaxValue(worstCaseAssets, costBasis, effectiveTaxRate),
+    afterTaxExpectedShortfall: calculateAfterTaxExpectedShortfall(model, tailProbability, costBasis, effectiveTaxRate),
+    nonInvestmentAssets: calculateRiskFreeValue(nonInvestmentPrincipal, riskFreeRate, years) / deflator,
+    afterTaxNonInvestmentAssets: calculateAfterTaxRiskFreeValue(nonInvestmentPrincipal, riskFreeRate, years) / deflator,
+    totalContributions,
+    totalPrincipal: nonInvestmentPrincipal + totalContributions
+  }
+}
+
+/**
+ * 最悪ケースの計算結果を表の行（投資部分・資産全体、それぞれ税引前・税引後）に変換
+ * @param result - 最悪ケースの計算結果
+ * @returns 最悪ケースの表の行
+ */
+export function createWorstCaseRows (result: WorstCaseResult): WorstCaseRow[] {
+  const { totalContributions, totalPrincipal, nonInvestmentAssets, afterTaxNonInvestmentAssets } = result
+  return [
+    { label: '投資部分', value: result.worstCaseAssets, expectedShortfall: result.expectedShortfall, principal: totalContributions },
+    { label: '資産全体', value: result.worstCaseAssets + nonInvestmentAssets, expectedShortfall: result.expectedShortfall + nonInvestmentAssets, principal: totalPrincipal },
+    { label: '投資部分（税引後）', value: result.afterTaxWorstCaseAssets, expectedShortfall: result.afterTaxExpectedShortfall, principal: totalContributions },
+    { label: '資産全体（税引後）', value: result.afterTaxWorstCaseAssets + afterTaxNonInvestmentAssets, expectedShortfall: result.afterTaxExpectedShortfall + afterTaxNonInvestmentAssets, principal: totalPrincipal }
+  ]
+}